@@ -0,0 +1,90 @@
+/** Tests for config loading and GitHub PAT storage */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+
+const PAT = 'ghp_plaintextToken123'
+
+let homeDir = ''
+let configDir = ''
+
+async function loadEnv() {
+  vi.resetModules()
+  return import('../../config/env.js')
+}
+
+function writeSettings(settings: Record<string, unknown>): void {
+  mkdirSync(configDir, { recursive: true })
+  writeFileSync(join(configDir, 'settings.json'), JSON.stringify(settings))
+}
+
+function readSettings(): { github: Record<string, unknown> } {
+  return JSON.parse(readFileSync(join(configDir, 'settings.json'), 'utf-8'))
+}
+
+describe('loadConfig', () => {
+  beforeEach(() => {
+    homeDir = mkdtempSync(join(tmpdir(), 'prpal-env-'))
+    configDir = join(homeDir, '.config', 'prpal')
+    vi.stubEnv('HOME', homeDir)
+    vi.stubEnv('GITHUB_PAT', undefined)
+    vi.stubEnv('PRPAL_SECRET_BACKEND', 'encrypted-file')
+    vi.stubEnv('PRPAL_SECRETS_PASSPHRASE', undefined)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    rmSync(homeDir, { recursive: true, force: true })
+  })
+
+  it('should move a plaintext PAT out of settings.json', async () => {
+    writeSettings({ github: { pat: PAT, username: 'me', org: 'acme' } })
+    const { loadConfig } = await loadEnv()
+
+    const config = loadConfig()
+
+    expect(readSettings().github).toEqual({
+      username: 'me',
+      org: 'acme',
+      patStorage: 'encrypted-file',
+    })
+    const secretsFile = join(configDir, 'secrets.enc')
+    expect(readFileSync(secretsFile, 'utf-8')).not.toContain(PAT)
+    expect(statSync(secretsFile).mode & 0o777).toBe(0o600)
+    expect(config.github.pat.resolve()).toBe(PAT)
+
+    // Later loads read the token back from secret storage
+    expect((await loadEnv()).loadConfig().github.pat.resolve()).toBe(PAT)
+  })
+
+  it('should only read the stored PAT when it is needed', async () => {
+    writeSettings({ github: { username: 'me', org: 'acme', patStorage: 'encrypted-file' } })
+    const { loadConfig } = await loadEnv()
+
+    const config = loadConfig()
+
+    expect(config.github.pat.isSet).toBe(true)
+    expect(() => config.github.pat.resolve()).toThrow('missing from the encrypted-file store')
+  })
+
+  it('should not decrypt secrets with the wrong passphrase', async () => {
+    vi.stubEnv('PRPAL_SECRETS_PASSPHRASE', 'correct horse')
+    const { saveGitHubToken, getSecretBackend } = await loadEnv()
+    saveGitHubToken(PAT)
+
+    expect(getSecretBackend().get('github.pat')).toBe(PAT)
+
+    vi.stubEnv('PRPAL_SECRETS_PASSPHRASE', 'battery staple')
+    expect(() => getSecretBackend().get('github.pat')).toThrow('Could not decrypt')
+  })
+
+  it('should require a PAT', async () => {
+    writeSettings({ github: { username: 'me', org: 'acme' } })
+    const { loadConfig, tryLoadConfig } = await loadEnv()
+
+    expect(() => loadConfig()).toThrow('Invalid configuration')
+    expect(tryLoadConfig()).toBeNull()
+  })
+})
@@ -0,0 +1,87 @@
+/** Tests for local API authentication and CORS */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import type { FastifyInstance } from 'fastify'
+
+let configDir = ''
+
+vi.mock('../../config/env.js', () => ({
+  getConfigDir: () => configDir,
+}))
+
+const options = { port: 3847, host: '127.0.0.1' }
+
+async function loadServer() {
+  vi.resetModules()
+  const { createServer } = await import('../../server/app.js')
+  const { getApiToken } = await import('../../services/state/apiTokenStore.js')
+  return { server: await createServer(options), token: getApiToken() }
+}
+
+describe('API authentication', () => {
+  let server: FastifyInstance
+  let token: string
+
+  beforeEach(async () => {
+    configDir = mkdtempSync(join(tmpdir(), 'prpal-auth-'))
+    ;({ server, token } = await loadServer())
+  })
+
+  afterEach(async () => {
+    await server.close()
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('should store a random token readable only by the owner', () => {
+    const filePath = join(configDir, 'api-token')
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/)
+    expect(readFileSync(filePath, 'utf-8')).toBe(token)
+    expect(statSync(filePath).mode & 0o777).toBe(0o600)
+  })
+
+  it('should reject /api requests without the token', async () => {
+    const missing = await server.inject({ method: 'GET', url: '/api/status' })
+    const wrong = await server.inject({
+      method: 'GET',
+      url: '/api/status',
+      headers: { authorization: 'Bearer nope' },
+    })
+    const query = await server.inject({ method: 'GET', url: `/api/status?token=${token}` })
+
+    expect(missing.statusCode).toBe(401)
+    expect(missing.json()).toEqual({ error: 'Unauthorized' })
+    expect(wrong.statusCode).toBe(401)
+    expect(query.statusCode).toBe(401)
+  })
+
+  it('should accept the token and leave /health open', async () => {
+    const status = await server.inject({
+      method: 'GET',
+      url: '/api/status',
+      headers: { authorization: `Bearer ${token}` },
+    })
+    const health = await server.inject({ method: 'GET', url: '/health' })
+
+    expect(status.statusCode).toBe(200)
+    expect(health.statusCode).toBe(200)
+  })
+
+  it('should only allow CORS from the app origin', async () => {
+    const preflight = (origin: string) =>
+      server.inject({
+        method: 'OPTIONS',
+        url: '/api/settings/github',
+        headers: { origin, 'access-control-request-method': 'PUT' },
+      })
+
+    const app = await preflight('http://localhost:3847')
+    const other = await preflight('https://evil.example.com')
+
+    expect(app.headers['access-control-allow-origin']).toBe('http://localhost:3847')
+    expect(other.headers['access-control-allow-origin']).toBeUndefined()
+  })
+})
@@ -0,0 +1,85 @@
+/** Tests for the event stream route */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { type FastifyInstance } from 'fastify'
+import { registerEventRoutes } from '../../server/routes/events.js'
+import { clearAllPRs, addPR, updatePRStatus } from '../../services/state/prStore.js'
+import { publishReviewOutput } from '../../services/state/reviewStore.js'
+import type { PullRequest } from '../../types/pr.js'
+
+vi.mock('../../services/state/triageStore.js', () => ({
+  getTriageRecord: vi.fn(),
+  recordTriage: vi.fn(),
+  clearTriageRecords: vi.fn(),
+}))
+
+const createMockPR = (id: string): PullRequest => ({
+  id,
+  number: 1,
+  title: 'Test PR',
+  body: null,
+  author: { login: 'author', id: 1, avatar_url: '', html_url: '' },
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  htmlUrl: 'https://github.com/owner/repo/pull/1',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha: 'abc123' },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions: 0, deletions: 0, changedFiles: 0, comments: 0, reviewComments: 0 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+/** Read the stream until it contains `count` events, then close it */
+async function readEvents(response: Response, count: number): Promise<string[]> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+
+  while ((text.match(/^event: /gm) ?? []).length < count) {
+    const { value, done } = await reader.read()
+    if (done) break
+    text += decoder.decode(value)
+  }
+
+  await reader.cancel()
+  return text.split('\n\n').filter((block) => block.startsWith('event: '))
+}
+
+describe('event routes', () => {
+  let server: FastifyInstance
+  let baseUrl: string
+
+  beforeEach(async () => {
+    clearAllPRs()
+    server = Fastify()
+    registerEventRoutes(server)
+    baseUrl = await server.listen({ port: 0, host: '127.0.0.1' })
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('should stream PR changes and review output for the requested PR', async () => {
+    const response = await fetch(`${baseUrl}/api/events?prId=repo%231`)
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+
+    addPR(createMockPR('repo#2'))
+    addPR(createMockPR('repo#1'))
+    addPR(createMockPR('repo#1'))
+    updatePRStatus('repo#1', 'seen')
+    publishReviewOutput('repo#1', 'default', 'Looks good')
+
+    const events = await readEvents(response, 3)
+
+    expect(events).toEqual([
+      'event: pr:added\ndata: {"prId":"repo#1","change":"added","status":"new","needsMyReview":false}',
+      'event: pr:status\ndata: {"prId":"repo#1","change":"status","status":"seen","needsMyReview":false}',
+      'event: review:output\ndata: {"prId":"repo#1","agentId":"default","text":"Looks good"}',
+    ])
+  })
+})
@@ -1,12 +1,18 @@
 /** Tests for health routes */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import Fastify, { type FastifyInstance } from 'fastify'
 import { registerHealthRoutes } from '../../server/routes/health.js'
 import { resetSchedulerState } from '../../services/polling/scheduler.js'
 import { clearAllPRs, addPR } from '../../services/state/prStore.js'
 import type { PullRequest } from '../../types/pr.js'
 
+vi.mock('../../services/state/triageStore.js', () => ({
+  getTriageRecord: vi.fn(),
+  recordTriage: vi.fn(),
+  clearTriageRecords: vi.fn(),
+}))
+
 const createMockPR = (id: string): PullRequest => ({
   id,
   number: 1,
@@ -0,0 +1,64 @@
+/** Tests for reviewer status on PRs I authored */
+
+import { describe, it, expect } from 'vitest'
+import { getReviewerStatuses, summarizeReviewState } from '../../../services/github/authoredPRs.js'
+import type { GitHubReview, GitHubUser } from '../../../types/github.js'
+import type { PullRequest } from '../../../types/pr.js'
+
+const user = (login: string): GitHubUser => ({ login, id: 1, avatar_url: '', html_url: '' })
+
+const review = (login: string, state: GitHubReview['state']): GitHubReview => ({
+  id: 1,
+  user: user(login),
+  body: '',
+  state,
+  html_url: '',
+  submitted_at: '2026-01-01T00:00:00Z',
+})
+
+const createPR = (requested: string[], teams: string[] = []): PullRequest =>
+  ({
+    id: 'acme/api#1',
+    requestedReviewers: requested.map(user),
+    requestedTeams: teams.map((slug) => ({ id: 1, name: slug, slug })),
+  }) as PullRequest
+
+describe('getReviewerStatuses', () => {
+  it('should list verdicts and outstanding requests, re-requests winning', () => {
+    const reviews = [
+      review('alice', 'APPROVED'),
+      review('bob', 'CHANGES_REQUESTED'),
+      review('bob', 'COMMENTED'),
+      review('carol', 'CHANGES_REQUESTED'),
+      review('dave', 'APPROVED'),
+      review('dave', 'DISMISSED'),
+    ]
+
+    expect(getReviewerStatuses(createPR(['carol', 'erin'], ['backend']), reviews)).toEqual([
+      { login: 'alice', state: 'approved' },
+      { login: 'bob', state: 'changes_requested' },
+      { login: 'carol', state: 'pending' },
+      { login: 'erin', state: 'pending' },
+      { login: 'backend', state: 'pending', team: true },
+    ])
+  })
+})
+
+describe('summarizeReviewState', () => {
+  it('should let one change request outweigh approvals', () => {
+    expect(summarizeReviewState([])).toBe('none')
+    expect(summarizeReviewState([{ login: 'alice', state: 'approved' }])).toBe('approved')
+    expect(
+      summarizeReviewState([
+        { login: 'alice', state: 'approved' },
+        { login: 'bob', state: 'pending' },
+      ])
+    ).toBe('pending')
+    expect(
+      summarizeReviewState([
+        { login: 'bob', state: 'pending' },
+        { login: 'carol', state: 'changes_requested' },
+      ])
+    ).toBe('changes_requested')
+  })
+})
@@ -1,16 +1,29 @@
 /** Tests for GitHub API client */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { createGitHubClient, type GitHubClient } from '../../../services/github/client.js'
+import {
+  createGitHubClient,
+  parseNextLink,
+  type GitHubClient,
+} from '../../../services/github/client.js'
 
 // Mock ofetch
 vi.mock('ofetch', () => ({
-  ofetch: vi.fn(),
+  ofetch: Object.assign(vi.fn(), { raw: vi.fn() }),
+}))
+
+vi.mock('../../../services/github/hosts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/github/hosts.js')>()),
+  getCaDispatcher: vi.fn(() => ({ kind: 'ca-dispatcher' })),
 }))
 
 import { ofetch } from 'ofetch'
 
 const mockOfetch = vi.mocked(ofetch)
+const mockRaw = vi.mocked(ofetch.raw)
+
+const createPage = (data: unknown, link?: string) =>
+  ({ _data: data, headers: new Headers(link ? { link } : {}) }) as never
 
 describe('createGitHubClient', () => {
   let client: GitHubClient
@@ -58,6 +71,62 @@ describe('createGitHubClient', () => {
     })
   })
 
+  describe('conditional requests', () => {
+    it('should send If-None-Match and reuse cached data on 304', async () => {
+      const respond = (status: number, headers: Record<string, string>, data: unknown) =>
+        (async (_url: unknown, options?: { onResponse?: (context: unknown) => void }) => {
+          options?.onResponse?.({ response: new Response(null, { status, headers }) })
+          return data
+        }) as never
+      mockOfetch
+        .mockImplementationOnce(respond(200, { etag: '"v1"' }, { id: 1 }))
+        .mockImplementationOnce(respond(304, {}, undefined))
+
+      await client.get('/repos/owner/repo')
+      const result = await client.get('/repos/owner/repo')
+
+      expect(mockOfetch).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': '"v1"' }),
+        })
+      )
+      expect(result).toEqual({ id: 1 })
+    })
+  })
+
+  describe('getAll', () => {
+    it('should follow Link rel="next" until the last page', async () => {
+      const next = 'https://api.github.com/orgs/acme/repos?per_page=100&page=2'
+      mockRaw
+        .mockResolvedValueOnce(
+          createPage([{ id: 1 }], `<${next}>; rel="next", <${next}>; rel="last"`)
+        )
+        .mockResolvedValueOnce(createPage([{ id: 2 }]))
+
+      const result = await client.getAll('/orgs/acme/repos', { query: { sort: 'updated' } })
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }])
+      expect(mockRaw).toHaveBeenNthCalledWith(
+        1,
+        'https://api.github.com/orgs/acme/repos',
+        expect.objectContaining({ query: { per_page: 100, sort: 'updated' } })
+      )
+      expect(mockRaw).toHaveBeenNthCalledWith(
+        2,
+        next,
+        expect.objectContaining({ query: undefined })
+      )
+    })
+  })
+
+  describe('parseNextLink', () => {
+    it('should return null without a next link', () => {
+      expect(parseNextLink(null)).toBeNull()
+      expect(parseNextLink('<https://api.github.com/x?page=1>; rel="prev"')).toBeNull()
+    })
+  })
+
   describe('post', () => {
     it('should make POST request with body', async () => {
       const mockResponse = { id: 123 }
@@ -99,6 +168,40 @@ describe('createGitHubClient', () => {
     })
   })
 
+  describe('token refresh', () => {
+    const unauthorized = () =>
+      Object.assign(new Error('401 Unauthorized'), {
+        status: 401,
+        response: new Response(null, { status: 401 }),
+      })
+
+    it('should refresh once on 401 and retry with the new token', async () => {
+      const refreshToken = vi.fn().mockResolvedValue('fresh-token')
+      const oauthClient = createGitHubClient({ token: 'expired-token', refreshToken })
+      mockOfetch
+        .mockRejectedValueOnce(unauthorized())
+        .mockRejectedValueOnce(unauthorized())
+        .mockResolvedValue({ login: 'me' })
+
+      const results = await Promise.all([oauthClient.get('/user'), oauthClient.get('/user')])
+
+      expect(results).toEqual([{ login: 'me' }, { login: 'me' }])
+      expect(refreshToken).toHaveBeenCalledTimes(1)
+      expect(mockOfetch).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer fresh-token' }),
+        })
+      )
+    })
+
+    it('should report an invalid token without a refresh hook', async () => {
+      mockOfetch.mockRejectedValueOnce(unauthorized())
+
+      await expect(client.get('/user')).rejects.toThrow('Invalid GitHub token')
+    })
+  })
+
   describe('custom base URL', () => {
     it('should use custom base URL when provided', async () => {
       const customClient = createGitHubClient({
@@ -115,5 +218,57 @@ describe('createGitHubClient', () => {
         expect.any(Object)
       )
     })
+
+    it('should post GraphQL queries to the GHES GraphQL endpoint', async () => {
+      const customClient = createGitHubClient({
+        token: 'test-token',
+        baseUrl: 'https://github.example.com/api/v3',
+      })
+
+      mockOfetch.mockResolvedValueOnce({ data: {} })
+
+      await customClient.post('/graphql', { query: '{ viewer { login } }' })
+
+      expect(mockOfetch).toHaveBeenCalledWith(
+        'https://github.example.com/api/graphql',
+        expect.objectContaining({ method: 'POST' })
+      )
+    })
+  })
+
+  describe('CA bundle', () => {
+    it('should send requests through the CA bundle dispatcher', async () => {
+      const caClient = createGitHubClient({
+        token: 'test-token',
+        caBundlePath: '/etc/ssl/corp.pem',
+      })
+
+      mockOfetch.mockResolvedValueOnce({})
+      mockRaw.mockResolvedValueOnce(createPage([]))
+
+      await caClient.get('/user')
+      await caClient.getAll('/user/repos')
+
+      const dispatcher = { kind: 'ca-dispatcher' }
+      expect(mockOfetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ dispatcher })
+      )
+      expect(mockRaw).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ dispatcher })
+      )
+    })
+
+    it('should use the default dispatcher without a bundle', async () => {
+      mockOfetch.mockResolvedValueOnce({})
+
+      await client.get('/user')
+
+      expect(mockOfetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ dispatcher: undefined })
+      )
+    })
   })
 })
@@ -0,0 +1,67 @@
+/** Tests for diff and compare fetching */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { GitHubClient } from '../../../services/github/client.js'
+import type { GitHubCompare, GitHubFile } from '../../../types/github.js'
+import { fetchCompareFiles } from '../../../services/github/diffFetcher.js'
+
+const createFile = (filename: string): GitHubFile => ({
+  sha: 'abc123',
+  filename,
+  status: 'modified',
+  additions: 1,
+  deletions: 0,
+  changes: 1,
+  patch: '@@ -1 +1 @@\n-a\n+b',
+})
+
+const createCompare = (overrides: Partial<GitHubCompare> = {}): GitHubCompare => ({
+  status: 'ahead',
+  ahead_by: 1,
+  behind_by: 0,
+  total_commits: 1,
+  files: [createFile('a.ts')],
+  ...overrides,
+})
+
+const createClient = (compare: GitHubCompare): GitHubClient =>
+  ({ get: vi.fn().mockResolvedValue(compare) }) as unknown as GitHubClient
+
+describe('fetchCompareFiles', () => {
+  it('should map the files changed since the base', async () => {
+    const files = await fetchCompareFiles(
+      createClient(createCompare()),
+      'acme',
+      'api',
+      'old',
+      'new'
+    )
+
+    expect(files).toEqual([
+      {
+        filename: 'a.ts',
+        status: 'modified',
+        additions: 1,
+        deletions: 0,
+        patch: '@@ -1 +1 @@\n-a\n+b',
+      },
+    ])
+  })
+
+  it('should throw when the head no longer descends from the base', async () => {
+    const client = createClient(createCompare({ status: 'diverged', behind_by: 2 }))
+
+    await expect(fetchCompareFiles(client, 'acme', 'api', 'old', 'new')).rejects.toThrow(
+      'new is diverged from old'
+    )
+  })
+
+  it('should throw when the file list may be cut off', async () => {
+    const files = Array.from({ length: 300 }, (_, i) => createFile(`file-${i}.ts`))
+    const client = createClient(createCompare({ files }))
+
+    await expect(fetchCompareFiles(client, 'acme', 'api', 'old', 'new')).rejects.toThrow(
+      'lists 300 files'
+    )
+  })
+})
@@ -4,6 +4,9 @@ import {
   getValidLineNumbers,
   findClosestLineBefore,
   validateLine,
+  getHunkRanges,
+  isRangeInOneHunk,
+  findAnchorMatches,
 } from '../../../services/github/diffParser.js'
 
 describe('diffParser', () => {
@@ -41,6 +44,25 @@ describe('diffParser', () => {
       expect(added.map((l) => l.lineNumber)).toEqual([12, 13, 23])
     })
 
+    it('tracks old-file line numbers', () => {
+      const result = parseDiffPatch(`@@ -5,4 +5,4 @@
+ keep
+-old a
+-old b
++new a
++new b
+ end`)
+      expect(result.map((l) => [l.type, l.oldLineNumber, l.lineNumber])).toEqual([
+        ['hunk', 5, 5],
+        ['context', 5, 5],
+        ['delete', 6, 6],
+        ['delete', 7, 6],
+        ['add', 8, 6],
+        ['add', 8, 7],
+        ['context', 8, 8],
+      ])
+    })
+
     it('parses context lines correctly', () => {
       const result = parseDiffPatch(samplePatch)
       const context = result.filter((l) => l.type === 'context')
@@ -71,6 +93,17 @@ describe('diffParser', () => {
       // Should have line 1 (context), line 2 (context)
       expect(result).toEqual([1, 2])
     })
+
+    it('returns delete and context lines by old-file number on the LEFT', () => {
+      const patchWithDelete = `@@ -1,3 +1,3 @@
+ line1
+-deleted
++added
+ line2`
+      expect(getValidLineNumbers(patchWithDelete, 'LEFT')).toEqual([1, 2, 3])
+      expect(getValidLineNumbers(patchWithDelete, 'RIGHT')).toEqual([1, 2, 3])
+      expect(isRangeInOneHunk(2, 3, patchWithDelete, 'LEFT')).toBe(true)
+    })
   })
 
   describe('findClosestLineBefore', () => {
@@ -121,4 +154,50 @@ describe('diffParser', () => {
       expect(result.warning).toContain('no earlier line')
     })
   })
+
+  describe('getHunkRanges', () => {
+    it('returns the new-file lines each hunk covers', () => {
+      expect(getHunkRanges(samplePatch)).toEqual([
+        { start: 10, end: 15 },
+        { start: 22, end: 25 },
+      ])
+    })
+  })
+
+  describe('isRangeInOneHunk', () => {
+    it('accepts ranges inside a single hunk', () => {
+      expect(isRangeInOneHunk(12, 13, samplePatch)).toBe(true)
+      expect(isRangeInOneHunk(22, 25, samplePatch)).toBe(true)
+    })
+
+    it('rejects ranges that leave the hunk or cross into the next', () => {
+      expect(isRangeInOneHunk(14, 16, samplePatch)).toBe(false)
+      expect(isRangeInOneHunk(15, 22, samplePatch)).toBe(false)
+      expect(isRangeInOneHunk(13, 12, samplePatch)).toBe(false)
+    })
+  })
+
+  describe('findAnchorMatches', () => {
+    const best = (anchor: string) =>
+      findAnchorMatches(anchor, samplePatch).reduce((a, b) => (b.confidence > a.confidence ? b : a))
+
+    it('matches code regardless of indentation', () => {
+      expect(best('const d   = 4;')).toEqual({ line: 13, hunk: 0, confidence: 1 })
+    })
+
+    it('scores fragments and near misses below exact matches', () => {
+      const fragment = best("console.log('world')")
+      const typo = best('return a + c;')
+
+      expect(fragment).toMatchObject({ line: 23, hunk: 1 })
+      expect(fragment.confidence).toBeGreaterThan(0.8)
+      expect(typo.line).toBe(14)
+      expect(typo.confidence).toBeGreaterThan(0.6)
+      expect(typo.confidence).toBeLessThan(1)
+    })
+
+    it('matches multi-line anchors as a block', () => {
+      expect(best('const c = 3;\nconst d = 4;')).toMatchObject({ line: 12, confidence: 1 })
+    })
+  })
 })
@@ -0,0 +1,104 @@
+/** Tests for GitHub host resolution */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import tls from 'node:tls'
+
+vi.mock('undici', () => ({
+  Agent: vi.fn(),
+}))
+
+import { Agent } from 'undici'
+import {
+  resolveGitHubHosts,
+  getGraphQLUrl,
+  getCaDispatcher,
+} from '../../../services/github/hosts.js'
+
+const mockAgent = vi.mocked(Agent)
+
+describe('resolveGitHubHosts', () => {
+  it('should default to github.com', () => {
+    expect(resolveGitHubHosts({})).toEqual({
+      apiUrl: 'https://api.github.com',
+      webUrl: 'https://github.com',
+    })
+  })
+
+  it('should derive the GHES API URL from the web URL', () => {
+    expect(resolveGitHubHosts({ webUrl: 'https://github.example.com/' })).toEqual({
+      apiUrl: 'https://github.example.com/api/v3',
+      webUrl: 'https://github.example.com',
+    })
+  })
+
+  it('should derive the GHES web URL from the API URL', () => {
+    expect(resolveGitHubHosts({ apiUrl: 'https://github.example.com/api/v3' })).toEqual({
+      apiUrl: 'https://github.example.com/api/v3',
+      webUrl: 'https://github.example.com',
+    })
+  })
+
+  it('should keep both URLs when they are set', () => {
+    const hosts = { apiUrl: 'https://api.example.com', webUrl: 'https://code.example.com' }
+    expect(resolveGitHubHosts(hosts)).toEqual(hosts)
+  })
+})
+
+describe('getGraphQLUrl', () => {
+  it('should put GraphQL beside the REST API on github.com', () => {
+    expect(getGraphQLUrl('https://api.github.com')).toBe('https://api.github.com/graphql')
+  })
+
+  it('should use /api/graphql on GHES', () => {
+    expect(getGraphQLUrl('https://github.example.com/api/v3')).toBe(
+      'https://github.example.com/api/graphql'
+    )
+  })
+})
+
+describe('getCaDispatcher', () => {
+  const cert = '-----BEGIN CERTIFICATE-----\nMIIBfake\n-----END CERTIFICATE-----'
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ca-bundle-'))
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should trust the bundle alongside the default roots', () => {
+    const path = join(dir, 'corp.pem')
+    writeFileSync(path, `# Corporate root\n${cert}\n`)
+
+    getCaDispatcher(path)
+
+    expect(mockAgent).toHaveBeenCalledWith({
+      connect: { ca: [...tls.rootCertificates, cert] },
+    })
+  })
+
+  it('should build one dispatcher per bundle', () => {
+    const path = join(dir, 'cached.pem')
+    writeFileSync(path, cert)
+    mockAgent.mockClear()
+
+    expect(getCaDispatcher(path)).toBe(getCaDispatcher(path))
+    expect(mockAgent).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject a file without certificates', () => {
+    const path = join(dir, 'empty.pem')
+    writeFileSync(path, 'not a certificate')
+
+    expect(() => getCaDispatcher(path)).toThrow('No certificates found')
+  })
+
+  it('should reject a missing file', () => {
+    expect(() => getCaDispatcher(join(dir, 'missing.pem'))).toThrow('Cannot read CA bundle')
+  })
+})
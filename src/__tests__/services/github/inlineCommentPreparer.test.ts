@@ -0,0 +1,143 @@
+/** Tests for preparing inline comments and suggested changes */
+
+import { describe, it, expect } from 'vitest'
+import { prepareInlineComments } from '../../../services/github/inlineCommentPreparer.js'
+import type { PRFile } from '../../../types/pr.js'
+import type { ReviewIssue } from '../../../types/review.js'
+
+const file: PRFile = {
+  filename: 'src/math.ts',
+  status: 'modified',
+  additions: 3,
+  deletions: 0,
+  patch: `@@ -10,4 +10,6 @@ export function sum() {
+   const a = 1
++  const b = 2
++  const c = 3
+   return a
+ }
+@@ -30,3 +32,4 @@ export function product() {
+   const x = 2
++  const y = 3
+   return x
+ }`,
+}
+
+function issue(overrides: Partial<ReviewIssue>): ReviewIssue {
+  return { severity: 'warning', file: 'src/math.ts', message: 'Fix it', ...overrides }
+}
+
+describe('prepareInlineComments', () => {
+  it('should comment on a range only when both ends are in one hunk', () => {
+    const [inside, across] = prepareInlineComments(
+      [issue({ line: 10, endLine: 13 }), issue({ line: 12, endLine: 33 })],
+      [file]
+    )
+
+    expect(inside).toMatchObject({ actualLine: 10, endLine: 13, isValid: true })
+    expect(inside.warning).toBeUndefined()
+    expect(across).toMatchObject({ actualLine: 12, isValid: true })
+    expect(across.endLine).toBeUndefined()
+    expect(across.warning).toContain('not in one diff hunk')
+  })
+
+  it('should post replacements inside one hunk as suggested changes', () => {
+    const [single, range] = prepareInlineComments(
+      [
+        issue({ line: 11, replacement: '  const b = 20' }),
+        issue({ line: 11, endLine: 12, replacement: '  const bc = 5' }),
+      ],
+      [file]
+    )
+
+    expect(single).toMatchObject({ actualLine: 11, postSuggestion: true, isValid: true })
+    expect(single.endLine).toBeUndefined()
+    expect(range).toMatchObject({ actualLine: 11, endLine: 12, postSuggestion: true })
+  })
+
+  it('should place issues about removed code on the old side of the diff', () => {
+    const removal: PRFile = {
+      ...file,
+      patch: `@@ -20,4 +20,3 @@
+ const total = 0
+-const unused = 1
+-const stale = 2
++const fresh = 2
+ export { total }`,
+    }
+
+    const [left, range, suggestion] = prepareInlineComments(
+      [
+        issue({ line: 21, side: 'LEFT' }),
+        issue({ line: 21, endLine: 22, side: 'LEFT' }),
+        issue({ line: 21, side: 'LEFT', replacement: 'x' }),
+      ],
+      [removal]
+    )
+
+    expect(left).toMatchObject({ actualLine: 21, isValid: true })
+    expect(left.warning).toBeUndefined()
+    expect(range).toMatchObject({ actualLine: 21, endLine: 22 })
+    expect(suggestion.postSuggestion).toBeUndefined()
+    expect(suggestion.warning).toContain('removed lines')
+  })
+
+  it('should move a comment to where its anchor matches in the same hunk', () => {
+    const [moved, range] = prepareInlineComments(
+      [
+        issue({ line: 10, anchor: 'const c = 3' }),
+        issue({ line: 10, endLine: 11, anchor: 'const b = 2', replacement: '  const b = 5' }),
+      ],
+      [file]
+    )
+
+    expect(moved).toMatchObject({ actualLine: 12, isValid: true, confidence: 1 })
+    expect(moved.warning).toBe('Line 10 moved to line 12 by snippet')
+    // The range moves with its first line
+    expect(range).toMatchObject({ actualLine: 11, endLine: 12, postSuggestion: true })
+  })
+
+  it('should not follow an anchor into another hunk', () => {
+    const [other, missing] = prepareInlineComments(
+      [
+        issue({ line: 11, anchor: 'const y = 3' }),
+        issue({ line: 11, anchor: 'nothing like this', replacement: 'x' }),
+      ],
+      [file]
+    )
+
+    expect(other).toMatchObject({ isValid: false, selected: false, confidence: 1 })
+    expect(other.warning).toBe('Snippet matches line 33 in another hunk, not moved there')
+    expect(missing).toMatchObject({ actualLine: 11, isValid: true })
+    expect(missing.confidence).toBeLessThan(0.85)
+    expect(missing.postSuggestion).toBeUndefined()
+  })
+
+  it('should fall back to a code block when the replacement leaves the hunk', () => {
+    const [beyond, moved] = prepareInlineComments(
+      [issue({ line: 12, endLine: 20, replacement: 'x' }), issue({ line: 18, replacement: 'x' })],
+      [file]
+    )
+
+    expect(beyond.isValid).toBe(true)
+    expect(beyond.postSuggestion).toBeUndefined()
+    expect(beyond.endLine).toBeUndefined()
+    expect(beyond.warning).toBe('Lines 12-20 are not in one diff hunk, commenting on line 12 only')
+
+    // Moved to the closest line in the diff, which is not the line the code replaces
+    expect(moved).toMatchObject({ actualLine: 14, isValid: true })
+    expect(moved.postSuggestion).toBeUndefined()
+  })
+
+  it('should not pre-select a comment moved by line number into another hunk', () => {
+    const [inDiff, between, unmatched] = prepareInlineComments(
+      [issue({ line: 11 }), issue({ line: 25 }), issue({ line: 25, anchor: 'nothing like this' })],
+      [file]
+    )
+
+    expect(inDiff).toMatchObject({ actualLine: 11, isValid: true, selected: true })
+    expect(between).toMatchObject({ actualLine: 14, isValid: true, selected: false })
+    expect(between.warning).toBe('Line 25 not in diff, closest earlier line 14 is in another hunk')
+    expect(unmatched).toMatchObject({ actualLine: 14, selected: false })
+  })
+})
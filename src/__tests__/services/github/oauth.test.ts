@@ -0,0 +1,143 @@
+/** Tests for device-flow sign-in and token refresh */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { plainSecret } from '../../../config/secrets.js'
+import type { ResolvedConfig } from '../../../types/config.js'
+
+vi.mock('ofetch', () => ({
+  ofetch: vi.fn(),
+}))
+
+vi.mock('../../../services/state/settingsStore.js', () => ({
+  getSettings: vi.fn(),
+  updateGitHubTokens: vi.fn(),
+}))
+
+import { ofetch } from 'ofetch'
+import { getSettings, updateGitHubTokens } from '../../../services/state/settingsStore.js'
+import {
+  startDeviceFlow,
+  pollDeviceFlow,
+  getDeviceFlowResult,
+  clearDeviceFlow,
+  refreshGitHubToken,
+} from '../../../services/github/oauth.js'
+
+const mockOfetch = vi.mocked(ofetch)
+
+describe('device flow', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    clearDeviceFlow()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should wait for approval at the interval GitHub asks for', async () => {
+    mockOfetch.mockResolvedValueOnce({
+      device_code: 'device-123',
+      user_code: 'ABCD-1234',
+      verification_uri: 'https://github.com/login/device',
+      expires_in: 900,
+      interval: 5,
+    })
+
+    const prompt = await startDeviceFlow('Iv1.client', {})
+
+    expect(prompt).toMatchObject({ userCode: 'ABCD-1234', interval: 5 })
+    expect(mockOfetch).toHaveBeenCalledWith(
+      'https://github.com/login/device/code',
+      expect.objectContaining({ body: { client_id: 'Iv1.client', scope: 'repo read:org' } })
+    )
+
+    // Too soon: answered without asking GitHub
+    expect(await pollDeviceFlow()).toBe('pending')
+    expect(mockOfetch).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(5000)
+    mockOfetch.mockResolvedValueOnce({ error: 'slow_down', interval: 10 })
+    expect(await pollDeviceFlow()).toBe('pending')
+
+    vi.advanceTimersByTime(5000)
+    expect(await pollDeviceFlow()).toBe('pending')
+    expect(mockOfetch).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(5000)
+    mockOfetch.mockResolvedValueOnce({ access_token: 'ghu_access', refresh_token: 'ghr_refresh' })
+    expect(await pollDeviceFlow()).toBe('complete')
+    expect(getDeviceFlowResult()).toEqual({
+      clientId: 'Iv1.client',
+      tokens: { accessToken: 'ghu_access', refreshToken: 'ghr_refresh' },
+    })
+  })
+
+  it('should end the flow when the user denies access', async () => {
+    mockOfetch.mockResolvedValueOnce({
+      device_code: 'device-123',
+      user_code: 'ABCD-1234',
+      verification_uri: 'https://github.example.com/login/device',
+      expires_in: 900,
+      interval: 5,
+    })
+    await startDeviceFlow('Iv1.client', { webUrl: 'https://github.example.com' })
+
+    vi.advanceTimersByTime(5000)
+    mockOfetch.mockResolvedValueOnce({ error: 'access_denied' })
+
+    expect(await pollDeviceFlow()).toBe('denied')
+    expect(mockOfetch).toHaveBeenLastCalledWith(
+      'https://github.example.com/login/oauth/access_token',
+      expect.any(Object)
+    )
+    await expect(pollDeviceFlow()).rejects.toThrow('No device sign-in in progress')
+  })
+})
+
+describe('refreshGitHubToken', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const mockSettings = (github: Partial<ResolvedConfig['github']>) =>
+    vi.mocked(getSettings).mockReturnValue({
+      github: { username: 'me', org: 'acme', pat: plainSecret('old'), ...github },
+    } as ResolvedConfig)
+
+  it('should trade the refresh token for a new pair and save it', async () => {
+    mockSettings({
+      authMethod: 'oauth',
+      oauthClientId: 'Iv1.client',
+      refreshToken: plainSecret('ghr_old'),
+    })
+    mockOfetch.mockResolvedValueOnce({ access_token: 'ghu_new', refresh_token: 'ghr_new' })
+
+    expect(await refreshGitHubToken()).toBe('ghu_new')
+    expect(mockOfetch).toHaveBeenCalledWith(
+      'https://github.com/login/oauth/access_token',
+      expect.objectContaining({
+        body: { client_id: 'Iv1.client', grant_type: 'refresh_token', refresh_token: 'ghr_old' },
+      })
+    )
+    expect(updateGitHubTokens).toHaveBeenCalledWith({
+      accessToken: 'ghu_new',
+      refreshToken: 'ghr_new',
+    })
+  })
+
+  it('should reject PAT sign-ins and expired refresh tokens', async () => {
+    mockSettings({ authMethod: 'pat' })
+    await expect(refreshGitHubToken()).rejects.toThrow('Invalid GitHub token')
+
+    mockSettings({
+      authMethod: 'oauth',
+      oauthClientId: 'Iv1.client',
+      refreshToken: plainSecret('ghr_old'),
+    })
+    mockOfetch.mockResolvedValueOnce({ error: 'bad_refresh_token' })
+    await expect(refreshGitHubToken()).rejects.toThrow('GitHub sign-in expired')
+    expect(updateGitHubTokens).not.toHaveBeenCalled()
+  })
+})
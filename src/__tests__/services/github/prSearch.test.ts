@@ -0,0 +1,116 @@
+/** Tests for GraphQL PR search */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { GitHubClient } from '../../../services/github/client.js'
+import type { GraphQLPullRequest } from '../../../types/github.js'
+import { buildSourceSearchQuery, searchOpenPRs } from '../../../services/github/prSearch.js'
+import { parsePRSource } from '../../../services/github/prSources.js'
+
+const createNode = (number: number): GraphQLPullRequest => ({
+  databaseId: number,
+  number,
+  title: `PR ${number}`,
+  body: '',
+  state: 'OPEN',
+  isDraft: false,
+  url: `https://github.com/acme/api/pull/${number}`,
+  author: { login: 'alice', databaseId: 7, avatarUrl: '', url: 'https://github.com/alice' },
+  headRefName: 'feature',
+  headRefOid: 'abc123',
+  baseRefName: 'main',
+  baseRefOid: 'def456',
+  repository: {
+    databaseId: 1,
+    name: 'api',
+    nameWithOwner: 'acme/api',
+    url: 'https://github.com/acme/api',
+    description: null,
+    isPrivate: true,
+    owner: { login: 'acme', avatarUrl: '', url: 'https://github.com/acme' },
+    defaultBranchRef: { name: 'main' },
+  },
+  labels: { nodes: [{ name: 'bug', color: 'red', description: null }] },
+  reviewRequests: {
+    nodes: [
+      {
+        requestedReviewer: {
+          __typename: 'Team',
+          databaseId: 3,
+          name: 'Backend',
+          slug: 'backend',
+          description: null,
+          url: '',
+          organization: { login: 'acme', databaseId: 2 },
+        },
+      },
+    ],
+  },
+  createdAt: '2024-01-15T10:00:00Z',
+  updatedAt: '2024-01-15T11:00:00Z',
+  mergedAt: null,
+  comments: { totalCount: 2 },
+  reviewThreads: { totalCount: 1 },
+  additions: 10,
+  deletions: 4,
+  changedFiles: 3,
+})
+
+const searchPage = (
+  nodes: unknown[],
+  endCursor: string | null = null,
+  issueCount = nodes.length
+) => ({
+  data: {
+    search: { issueCount, pageInfo: { hasNextPage: !!endCursor, endCursor }, nodes },
+  },
+})
+
+describe('prSearch', () => {
+  it('should search every open PR of an org', () => {
+    expect(buildSourceSearchQuery(parsePRSource('acme'))).toBe(
+      'is:pr is:open archived:false org:acme'
+    )
+  })
+
+  it('should scope repo sources to the repo', () => {
+    expect(buildSourceSearchQuery(parsePRSource('octocat/dotfiles'))).toBe(
+      'is:pr is:open archived:false repo:octocat/dotfiles'
+    )
+  })
+
+  it('should page through results, dedupe and map PRs', async () => {
+    const post = vi
+      .fn()
+      .mockResolvedValueOnce(searchPage([createNode(1), {}], 'cursor-1'))
+      .mockResolvedValueOnce(searchPage([createNode(2)]))
+      .mockResolvedValueOnce(searchPage([createNode(1)]))
+    const client = { post } as unknown as GitHubClient
+
+    const prs = await searchOpenPRs(client, [parsePRSource('acme'), parsePRSource('acme/api')])
+
+    expect(post).toHaveBeenCalledTimes(3)
+    expect(post.mock.calls[1][1]).toMatchObject({ variables: { cursor: 'cursor-1' } })
+    expect(prs.map((pr) => pr.id)).toEqual(['acme/api#1', 'acme/api#2'])
+    expect(prs[0]).toMatchObject({
+      author: { login: 'alice' },
+      labels: ['bug'],
+      requestedTeams: [{ slug: 'backend' }],
+      stats: { additions: 10, deletions: 4, changedFiles: 3 },
+    })
+  })
+
+  it('should throw on GraphQL errors', async () => {
+    const post = vi.fn().mockResolvedValue({ errors: [{ message: 'Bad credentials' }] })
+    const client = { post } as unknown as GitHubClient
+
+    await expect(searchOpenPRs(client, [parsePRSource('acme')])).rejects.toThrow('Bad credentials')
+  })
+
+  it('should throw when a source has more open PRs than the search returns', async () => {
+    const post = vi.fn().mockResolvedValue(searchPage([createNode(1)], 'cursor-1', 1001))
+    const client = { post } as unknown as GitHubClient
+
+    await expect(searchOpenPRs(client, [parsePRSource('acme')])).rejects.toThrow('matches 1001 PRs')
+    expect(post).toHaveBeenCalledTimes(1)
+  })
+})
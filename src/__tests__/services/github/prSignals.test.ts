@@ -0,0 +1,90 @@
+/** Tests for PR priority signals */
+
+import { describe, it, expect } from 'vitest'
+import {
+  countApprovals,
+  findReviewRequestedAt,
+  getCIState,
+} from '../../../services/github/prSignals.js'
+import type { GitHubIssueEvent, GitHubReview } from '../../../types/github.js'
+import type { PRCheck } from '../../../types/pr.js'
+
+const check = (status: PRCheck['status'], conclusion: PRCheck['conclusion'] = null): PRCheck => ({
+  name: 'ci',
+  status,
+  conclusion,
+})
+
+const review = (login: string, state: GitHubReview['state']): GitHubReview => ({
+  id: 1,
+  user: { login, id: 1, avatar_url: '', html_url: '' },
+  body: '',
+  state,
+  html_url: '',
+  submitted_at: '2026-01-01T00:00:00Z',
+})
+
+const requestEvent = (
+  createdAt: string,
+  target: Pick<GitHubIssueEvent, 'requested_reviewer' | 'requested_team'>
+): GitHubIssueEvent => ({ id: 1, event: 'review_requested', created_at: createdAt, ...target })
+
+describe('getCIState', () => {
+  it('should treat any failed check as failing, even while others run', () => {
+    expect(getCIState([])).toBe('none')
+    expect(getCIState([check('completed', 'success'), check('completed', 'skipped')])).toBe(
+      'passing'
+    )
+    expect(getCIState([check('completed', 'success'), check('in_progress')])).toBe('pending')
+    expect(getCIState([check('completed', 'timed_out'), check('queued')])).toBe('failing')
+  })
+})
+
+describe('countApprovals', () => {
+  it("should count each reviewer's latest verdict, ignoring comments", () => {
+    const reviews = [
+      review('alice', 'APPROVED'),
+      review('alice', 'COMMENTED'),
+      review('bob', 'APPROVED'),
+      review('bob', 'CHANGES_REQUESTED'),
+      review('carol', 'CHANGES_REQUESTED'),
+      review('carol', 'APPROVED'),
+    ]
+
+    expect(countApprovals(reviews)).toBe(2)
+  })
+})
+
+describe('findReviewRequestedAt', () => {
+  const user = (login: string) => ({ login, id: 1, avatar_url: '', html_url: '' })
+  const team = (slug: string) => ({ id: 1, name: slug, slug })
+
+  it('should find the latest request for me or one of my teams', () => {
+    const events = [
+      requestEvent('2026-01-01T00:00:00Z', { requested_reviewer: user('Me') }),
+      requestEvent('2026-01-02T00:00:00Z', { requested_team: team('backend') }),
+      requestEvent('2026-01-03T00:00:00Z', { requested_reviewer: user('someone') }),
+      { id: 2, event: 'labeled', created_at: '2026-01-04T00:00:00Z' },
+    ]
+
+    const reviewer = { username: 'me', teamKeys: ['acme/backend'] }
+    expect(findReviewRequestedAt(events, reviewer, 'acme')).toEqual(
+      new Date('2026-01-02T00:00:00Z')
+    )
+    expect(
+      findReviewRequestedAt(events, { username: 'other', teamKeys: [] }, 'acme')
+    ).toBeUndefined()
+  })
+
+  it('should ignore requests for a same-named team in another org', () => {
+    const events = [
+      requestEvent('2026-01-01T00:00:00Z', { requested_reviewer: user('me') }),
+      requestEvent('2026-01-02T00:00:00Z', { requested_team: team('backend') }),
+    ]
+
+    const reviewer = { username: 'me', teamKeys: ['acme/backend'] }
+    expect(findReviewRequestedAt(events, reviewer, 'globex')).toEqual(
+      new Date('2026-01-01T00:00:00Z')
+    )
+  })
+})
@@ -0,0 +1,89 @@
+/** Tests for PR sources */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { GitHubClient } from '../../../services/github/client.js'
+import type { GitHubPullRequest, GitHubRepository } from '../../../types/github.js'
+import {
+  getPRSources,
+  getSourceOwners,
+  fetchAllSourcePRs,
+} from '../../../services/github/prSources.js'
+
+const createRepo = (owner: string, name: string): GitHubRepository => ({
+  id: 1,
+  name,
+  full_name: `${owner}/${name}`,
+  owner: { login: owner, id: 1, avatar_url: '', html_url: '' },
+  html_url: '',
+  description: null,
+  private: false,
+  default_branch: 'main',
+})
+
+const createPR = (repo: GitHubRepository, number: number): GitHubPullRequest => ({
+  id: number,
+  number,
+  title: `PR ${number}`,
+  body: null,
+  state: 'open',
+  draft: false,
+  html_url: '',
+  user: { login: 'alice', id: 2, avatar_url: '', html_url: '' },
+  head: { ref: 'feature', sha: 'abc', repo },
+  base: { ref: 'main', sha: 'def', repo },
+  labels: [],
+  requested_reviewers: [],
+  requested_teams: [],
+  created_at: '2024-01-15T10:00:00Z',
+  updated_at: '2024-01-15T11:00:00Z',
+  merged_at: null,
+  comments: 0,
+  review_comments: 0,
+  additions: 1,
+  deletions: 1,
+  changed_files: 1,
+})
+
+describe('getPRSources', () => {
+  it('should list the primary org first and drop duplicates', () => {
+    const sources = getPRSources({ org: 'acme', sources: ['globex', 'ACME', 'octocat/dotfiles'] })
+
+    expect(sources).toEqual([
+      { type: 'org', org: 'acme' },
+      { type: 'org', org: 'globex' },
+      { type: 'repo', owner: 'octocat', name: 'dotfiles' },
+    ])
+    expect(getSourceOwners(sources)).toEqual(['acme', 'globex', 'octocat'])
+  })
+})
+
+describe('fetchAllSourcePRs', () => {
+  it('should merge orgs and repos and skip a failing source', async () => {
+    const api = createRepo('acme', 'api')
+    const dotfiles = createRepo('octocat', 'dotfiles')
+    const getAll = vi.fn((path: string) => {
+      if (path === '/orgs/acme/repos') return Promise.resolve([api])
+      if (path === '/repos/acme/api/pulls') return Promise.resolve([createPR(api, 1)])
+      if (path === '/repos/octocat/dotfiles/pulls') return Promise.resolve([createPR(dotfiles, 2)])
+      return Promise.reject(new Error('Resource not found'))
+    })
+    const client = { getAll } as unknown as GitHubClient
+
+    const { prs, failedSources } = await fetchAllSourcePRs(
+      client,
+      getPRSources({ org: 'acme', sources: ['missing-org', 'octocat/dotfiles'] })
+    )
+
+    expect(prs.map((pr) => pr.id)).toEqual(['acme/api#1', 'octocat/dotfiles#2'])
+    expect(failedSources).toEqual([{ type: 'org', org: 'missing-org' }])
+  })
+
+  it('should throw when every source fails', async () => {
+    const getAll = vi.fn().mockRejectedValue(new Error('Invalid GitHub token'))
+    const client = { getAll } as unknown as GitHubClient
+
+    await expect(fetchAllSourcePRs(client, getPRSources({ org: 'acme' }))).rejects.toThrow(
+      'Invalid GitHub token'
+    )
+  })
+})
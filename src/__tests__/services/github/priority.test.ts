@@ -0,0 +1,140 @@
+/** Tests for review queue priority scoring */
+
+import { describe, it, expect } from 'vitest'
+import { scorePRPriority, sortByPriority } from '../../../services/github/priority.js'
+import { PriorityWeightsSchema, type PriorityConfig } from '../../../types/config.js'
+import type { PRSignals, PullRequest } from '../../../types/pr.js'
+import type { GitHubUser, GitHubTeam } from '../../../types/github.js'
+
+const NOW = new Date('2026-01-10T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+const createMockUser = (login: string): GitHubUser => ({
+  login,
+  id: 1,
+  avatar_url: '',
+  html_url: `https://github.com/${login}`,
+})
+
+const createMockTeam = (slug: string): GitHubTeam => ({
+  id: 1,
+  slug,
+  name: slug,
+  description: null,
+  permission: 'push',
+  html_url: `https://github.com/orgs/org/teams/${slug}`,
+  organization: { login: 'org', id: 1 },
+})
+
+const createMockPR = (overrides: Partial<PullRequest> = {}): PullRequest => ({
+  id: 'owner/repo#1',
+  number: 1,
+  title: 'Test PR',
+  body: null,
+  author: createMockUser('author'),
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  htmlUrl: 'https://github.com/owner/repo/pull/1',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha: 'abc123' },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions: 400, deletions: 100, changedFiles: 5, comments: 0, reviewComments: 0 },
+  createdAt: new Date(NOW.getTime() - 36 * HOUR),
+  updatedAt: NOW,
+  ...overrides,
+})
+
+const createSignals = (overrides: Partial<PRSignals> = {}): PRSignals => ({
+  approvals: 0,
+  ci: 'passing',
+  headSha: 'abc123',
+  fetchedAt: NOW,
+  ...overrides,
+})
+
+const config: Required<PriorityConfig> = {
+  weights: PriorityWeightsSchema.parse({}),
+  urgentLabels: ['urgent', 'hotfix'],
+}
+const context = { username: 'me', teamKeys: ['owner/backend'], now: NOW }
+
+describe('scorePRPriority', () => {
+  it('should add up each factor scaled by its weight', () => {
+    const pr = createMockPR({
+      requestedReviewers: [createMockUser('Me')],
+      labels: ['HotFix'],
+    })
+    const signals = createSignals({
+      reviewRequestedAt: new Date(NOW.getTime() - 18 * HOUR),
+      approvals: 1,
+    })
+
+    expect(scorePRPriority(pr, signals, config, context)).toEqual({
+      score: 71.3,
+      breakdown: { age: 6.3, request: 15, size: 5, labels: 30, ci: 10, approvals: 5 },
+    })
+  })
+
+  it('should fall back to the PR age and neutral signals before signals are fetched', () => {
+    const pr = createMockPR({ requestedTeams: [createMockTeam('backend')] })
+
+    expect(scorePRPriority(pr, undefined, config, context).breakdown).toEqual({
+      age: 12.5,
+      request: 7.5,
+      size: 5,
+      labels: 0,
+      ci: 5,
+      approvals: 5,
+    })
+  })
+
+  it('should not count a request for a same-named team in another org', () => {
+    const pr = createMockPR({ requestedTeams: [createMockTeam('backend')] })
+    const otherOrg = { ...context, teamKeys: ['acme/backend'] }
+
+    expect(scorePRPriority(pr, undefined, config, otherOrg).breakdown.request).toBe(0)
+  })
+
+  it('should score a PR without line counts, as the REST list gives them, as medium-sized', () => {
+    const pr = createMockPR({ stats: {} })
+
+    const priority = scorePRPriority(pr, createSignals(), config, context)
+
+    expect(priority.breakdown.size).toBe(5)
+    expect(priority.score).toBe(37.5)
+  })
+
+  it('should use the configured weights', () => {
+    const pr = createMockPR({ labels: ['urgent'] })
+    const signals = createSignals({ ci: 'failing', approvals: 3 })
+    const weights = { age: 0, request: 0, size: 0, labels: 5, ci: 50, approvals: 20 }
+
+    expect(scorePRPriority(pr, signals, { ...config, weights }, context)).toEqual({
+      score: 5,
+      breakdown: { age: 0, request: 0, size: 0, labels: 5, ci: 0, approvals: 0 },
+    })
+  })
+})
+
+describe('sortByPriority', () => {
+  it('should rank by score, then by most recent update', () => {
+    const item = (id: string, score: number, updatedAt: Date) => ({
+      id,
+      updatedAt,
+      priority: {
+        score,
+        breakdown: { age: 0, request: 0, size: 0, labels: 0, ci: 0, approvals: 0 },
+      },
+    })
+    const items = [
+      item('low', 10, NOW),
+      item('old', 50, new Date(NOW.getTime() - HOUR)),
+      item('recent', 50, NOW),
+    ]
+
+    expect(sortByPriority(items).map((i) => i.id)).toEqual(['recent', 'old', 'low'])
+  })
+})
@@ -0,0 +1,120 @@
+/** Tests for repo rules and review policies */
+
+import { describe, it, expect } from 'vitest'
+import {
+  matchesRepo,
+  isRepoIncluded,
+  getIgnoreReason,
+  getRepoPolicy,
+} from '../../../services/github/repoRules.js'
+import type { RulesConfig } from '../../../types/config.js'
+import type { PullRequest } from '../../../types/pr.js'
+
+const createRules = (overrides: Partial<RulesConfig> = {}): RulesConfig => ({
+  includeRepos: [],
+  excludeRepos: [],
+  ignoreLabels: [],
+  ignoreAuthors: [],
+  ignoreBots: false,
+  ignoreBaseBranches: [],
+  repoPolicies: [],
+  ...overrides,
+})
+
+const createMockPR = (overrides: Partial<PullRequest> = {}): PullRequest => ({
+  id: 'acme/api#1',
+  number: 1,
+  title: 'Test PR',
+  body: null,
+  author: { login: 'alice', id: 1, avatar_url: '', html_url: '' },
+  repository: { owner: 'acme', name: 'api', fullName: 'acme/api' },
+  htmlUrl: 'https://github.com/acme/api/pull/1',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha: 'abc123' },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions: 10, deletions: 5, changedFiles: 2, comments: 0, reviewComments: 0 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+describe('matchesRepo', () => {
+  it('should match bare patterns against the repo name in any owner', () => {
+    expect(matchesRepo('acme/infra-dns', 'infra-*')).toBe(true)
+    expect(matchesRepo('globex/Infra-vpc', 'infra-*')).toBe(true)
+    expect(matchesRepo('acme/api', 'infra-*')).toBe(false)
+  })
+
+  it('should match owner patterns against the full name', () => {
+    expect(matchesRepo('acme/api', 'acme/*')).toBe(true)
+    expect(matchesRepo('globex/api', 'acme/*')).toBe(false)
+  })
+})
+
+describe('isRepoIncluded', () => {
+  it('should let excludes win over includes', () => {
+    const rules = createRules({ includeRepos: ['acme/*'], excludeRepos: ['*-archive'] })
+
+    expect(isRepoIncluded('acme/api', rules)).toBe(true)
+    expect(isRepoIncluded('acme/api-archive', rules)).toBe(false)
+    expect(isRepoIncluded('globex/api', rules)).toBe(false)
+  })
+})
+
+describe('getIgnoreReason', () => {
+  it('should keep PRs when no rule matches', () => {
+    expect(getIgnoreReason(createMockPR(), createRules())).toBeNull()
+  })
+
+  it('should ignore by label, author, bot and base branch', () => {
+    const rules = createRules({
+      ignoreLabels: ['wip'],
+      ignoreAuthors: ['renovate[bot]'],
+      ignoreBots: true,
+      ignoreBaseBranches: ['release/*'],
+    })
+
+    expect(getIgnoreReason(createMockPR({ labels: ['WIP'] }), rules)).toBe('label WIP')
+    expect(
+      getIgnoreReason(
+        createMockPR({ author: { login: 'renovate[bot]', id: 2, avatar_url: '', html_url: '' } }),
+        rules
+      )
+    ).toBe('bot author')
+    expect(
+      getIgnoreReason(
+        createMockPR({
+          author: { login: 'dependabot', id: 3, avatar_url: '', html_url: '', type: 'Bot' },
+        }),
+        rules
+      )
+    ).toBe('bot author')
+    expect(getIgnoreReason(createMockPR({ base: { ref: 'release/1.2', sha: 'x' } }), rules)).toBe(
+      'base branch release/1.2'
+    )
+  })
+})
+
+describe('getRepoPolicy', () => {
+  it('should merge matching policies with later entries winning', () => {
+    const rules = createRules({
+      repoPolicies: [
+        { repos: '**', reviewFormat: { attribution: 'none' } },
+        { repos: 'infra-*', agentId: 'security' },
+        { repos: 'acme/docs', reviewFormat: { style: 'minimal' } },
+      ],
+    })
+
+    expect(getRepoPolicy('acme/infra-dns', rules)).toEqual({
+      agentId: 'security',
+      reviewFormat: { attribution: 'none' },
+    })
+    expect(getRepoPolicy('acme/docs', rules)).toEqual({
+      reviewFormat: { attribution: 'none', style: 'minimal' },
+    })
+  })
+})
@@ -4,7 +4,7 @@ import { describe, it, expect } from 'vitest'
 import { filterPRsForReview } from '../../../services/github/reviewFilter.js'
 import type { PullRequest } from '../../../types/pr.js'
 import type { GitHubUser, GitHubTeam } from '../../../types/github.js'
-import type { UserTeams } from '../../../services/github/teamDetector.js'
+import { getTeamKey, type UserTeams } from '../../../services/github/teamDetector.js'
 
 const createMockUser = (login: string): GitHubUser => ({
   login,
@@ -13,14 +13,14 @@ const createMockUser = (login: string): GitHubUser => ({
   html_url: `https://github.com/${login}`,
 })
 
-const createMockTeam = (slug: string): GitHubTeam => ({
+const createMockTeam = (slug: string, org = 'owner'): GitHubTeam => ({
   id: 1,
   slug,
   name: slug,
   description: null,
   permission: 'push',
-  html_url: `https://github.com/orgs/org/teams/${slug}`,
-  organization: { login: 'org', id: 1 },
+  html_url: `https://github.com/orgs/${org}/teams/${slug}`,
+  organization: { login: org, id: 1 },
 })
 
 const createMockPR = (overrides: Partial<PullRequest> = {}): PullRequest => ({
@@ -44,9 +44,9 @@ const createMockPR = (overrides: Partial<PullRequest> = {}): PullRequest => ({
   ...overrides,
 })
 
-const createUserTeams = (teamSlugs: string[] = []): UserTeams => ({
-  teams: teamSlugs.map(createMockTeam),
-  teamSlugs,
+const createUserTeams = (teams: GitHubTeam[] = []): UserTeams => ({
+  teams,
+  teamKeys: teams.map((t) => getTeamKey(t.organization.login, t.slug)),
 })
 
 describe('filterPRsForReview', () => {
@@ -74,12 +74,27 @@ describe('filterPRsForReview', () => {
 
     const result = filterPRsForReview(prs, {
       username,
-      userTeams: createUserTeams(['frontend-team']),
+      userTeams: createUserTeams([createMockTeam('frontend-team')]),
     })
 
     expect(result).toHaveLength(1)
   })
 
+  it('should not match a same-named team from another org', () => {
+    const prs = [
+      createMockPR({
+        requestedTeams: [createMockTeam('frontend-team')],
+      }),
+    ]
+
+    const result = filterPRsForReview(prs, {
+      username,
+      userTeams: createUserTeams([createMockTeam('frontend-team', 'acme')]),
+    })
+
+    expect(result).toHaveLength(0)
+  })
+
   it('should exclude PRs authored by the user', () => {
     const prs = [
       createMockPR({
@@ -142,10 +157,34 @@ describe('filterPRsForReview', () => {
 
     const result = filterPRsForReview(prs, {
       username,
-      userTeams: createUserTeams(['my-team']),
+      userTeams: createUserTeams([createMockTeam('my-team')]),
     })
 
     expect(result).toHaveLength(2)
     expect(result.map((p) => p.id)).toEqual(['repo#1', 'repo#3'])
   })
+
+  it('should drop PRs matched by the config rules', () => {
+    const prs = [
+      createMockPR({ id: 'repo#1', labels: ['dependencies'] }),
+      createMockPR({ id: 'repo#2' }),
+    ]
+
+    const result = filterPRsForReview(prs, {
+      username,
+      userTeams: createUserTeams(),
+      showAllPRs: true,
+      rules: {
+        includeRepos: [],
+        excludeRepos: [],
+        ignoreLabels: ['dependencies'],
+        ignoreAuthors: [],
+        ignoreBots: false,
+        ignoreBaseBranches: [],
+        repoPolicies: [],
+      },
+    })
+
+    expect(result.map((p) => p.id)).toEqual(['repo#2'])
+  })
 })
@@ -1,7 +1,7 @@
 /** Tests for OpenCode response parser */
 
 import { describe, it, expect } from 'vitest'
-import { parseReviewResponse } from '../../../services/opencode/parser.js'
+import { parseReviewResponse, createTextStream } from '../../../services/opencode/parser.js'
 
 describe('parseReviewResponse', () => {
   it('should parse valid JSON review response', () => {
@@ -62,6 +62,7 @@ Here is my analysis:
           file: 'src/auth.ts',
           line: 25,
           endLine: 30,
+          side: 'right',
           message: 'SQL injection vulnerability',
           suggestion: 'Use parameterized queries',
         },
@@ -76,11 +77,39 @@ Here is my analysis:
       file: 'src/auth.ts',
       line: 25,
       endLine: 30,
+      side: 'RIGHT',
       message: 'SQL injection vulnerability',
       suggestion: 'Use parameterized queries',
     })
   })
 
+  it('should keep replacement code indentation and drop a wrapping fence', () => {
+    const input = JSON.stringify({
+      summary: 'Review',
+      verdict: 'comment',
+      issues: [
+        { severity: 'info', file: 'a.ts', line: 3, message: 'A', replacement: '  return x\n' },
+        {
+          severity: 'info',
+          file: 'a.ts',
+          line: 5,
+          message: 'B',
+          replacement: '```ts\n  if (!x) {\n    return\n  }\n```',
+        },
+        { severity: 'info', file: 'a.ts', line: 7, message: 'C', replacement: '  ' },
+      ],
+      suggestions: [],
+    })
+
+    const result = parseReviewResponse(input)
+
+    expect(result.issues.map((i) => i.replacement)).toEqual([
+      '  return x',
+      '  if (!x) {\n    return\n  }',
+      undefined,
+    ])
+  })
+
   it('should handle empty issues and suggestions', () => {
     const input = JSON.stringify({
       summary: 'LGTM',
@@ -145,4 +174,45 @@ Here is my analysis:
 
     expect(result.verdict).toBe('approve')
   })
+
+  it('should resolve follow-up status for previous issues', () => {
+    const previousIssues = [
+      { severity: 'critical' as const, file: 'src/a.ts', line: 3, message: 'SQL injection' },
+      { severity: 'warning' as const, message: 'Missing tests' },
+    ]
+    const input = JSON.stringify({
+      summary: 'Fixes applied',
+      verdict: 'comment',
+      issues: [],
+      suggestions: [],
+      previousIssues: [{ index: 1, status: 'fixed', note: 'Now uses parameters' }],
+    })
+
+    const result = parseReviewResponse(input, previousIssues)
+
+    expect(result.previousIssues).toEqual([
+      { issue: previousIssues[0], status: 'fixed', note: 'Now uses parameters' },
+      { issue: previousIssues[1], status: 'open' },
+    ])
+  })
+
+  it('should not add previous issues to a full review', () => {
+    const input = JSON.stringify({ summary: 'Review', verdict: 'comment', issues: [] })
+
+    expect(parseReviewResponse(input).previousIssues).toBeUndefined()
+  })
+})
+
+describe('createTextStream', () => {
+  it('should emit event text once a split line is complete', () => {
+    const texts: string[] = []
+    const write = createTextStream((text) => texts.push(text))
+    const event = JSON.stringify({ type: 'text', part: { text: 'Looks good' } })
+
+    write(JSON.stringify({ type: 'step_start' }) + '\n' + event.slice(0, 10))
+    expect(texts).toEqual([])
+
+    write(event.slice(10) + '\nplain output\n')
+    expect(texts).toEqual(['Looks good', 'plain output\n'])
+  })
 })
@@ -0,0 +1,70 @@
+/** Tests for review prompt templates */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { PullRequest } from '../../../types/pr.js'
+import type { ReviewIssue, ReviewResult } from '../../../types/review.js'
+
+vi.mock('../../../services/opencode/skills.js', () => ({
+  buildSkillsPrompt: vi.fn(() => ''),
+  buildCustomSkillsPrompt: vi.fn(() => ''),
+  buildAllMemoriesPrompt: vi.fn(() => ''),
+}))
+
+import { buildIncrementalReviewPrompt, getOpenIssues } from '../../../services/opencode/prompts.js'
+
+const pr = {
+  number: 1,
+  title: 'Test PR',
+  author: { login: 'author' },
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  head: { ref: 'feature', sha: 'ccc3333' },
+  base: { ref: 'main', sha: 'aaa1111' },
+} as PullRequest
+
+const issue = (message: string): ReviewIssue => ({ severity: 'warning', file: 'a.ts', message })
+
+const createReview = (output: Partial<ReviewResult['output']>): ReviewResult => ({
+  id: 'review-2',
+  prId: 'owner/repo#1',
+  prNumber: 1,
+  headSha: 'bbb2222',
+  agentId: 'default',
+  output: { summary: 'Looks fine', verdict: 'comment', issues: [], suggestions: [], ...output },
+  rawResponse: '',
+  createdAt: new Date(),
+  duration: 0,
+})
+
+describe('getOpenIssues', () => {
+  it('should carry earlier issues the review judged still open', () => {
+    const review = createReview({
+      issues: [issue('New problem')],
+      previousIssues: [
+        { issue: issue('Still broken'), status: 'open' },
+        { issue: issue('Fixed since'), status: 'fixed' },
+      ],
+    })
+
+    expect(getOpenIssues(review).map((i) => i.message)).toEqual(['Still broken', 'New problem'])
+  })
+
+  it('should use the issues of a full review as they are', () => {
+    const review = createReview({ issues: [issue('Only problem')] })
+
+    expect(getOpenIssues(review)).toEqual([issue('Only problem')])
+  })
+})
+
+describe('buildIncrementalReviewPrompt', () => {
+  it('should list the issues still open from earlier re-reviews', () => {
+    const review = createReview({
+      issues: [issue('New problem')],
+      previousIssues: [{ issue: issue('Still broken'), status: 'open' }],
+    })
+
+    const prompt = buildIncrementalReviewPrompt(pr, 'diff', review)
+
+    expect(prompt).toContain('1. [warning] a.ts - Still broken')
+    expect(prompt).toContain('2. [warning] a.ts - New problem')
+  })
+})
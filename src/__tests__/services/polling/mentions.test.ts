@@ -0,0 +1,95 @@
+/** Tests for finding mentions in new PR comments */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { PullRequest } from '../../../types/pr.js'
+import type { GitHubComment } from '../../../types/github.js'
+import type { GitHubClient } from '../../../services/github/client.js'
+
+vi.mock('../../../services/state/triageStore.js', () => ({
+  getTriageRecord: vi.fn(),
+  recordTriage: vi.fn(),
+  clearTriageRecords: vi.fn(),
+}))
+
+import { addPR, clearAllPRs, getPRState } from '../../../services/state/prStore.js'
+import { checkMentions, mentionsUser } from '../../../services/polling/mentions.js'
+
+const createMockPR = (id: string): PullRequest => ({
+  id,
+  number: 7,
+  title: 'Test PR',
+  body: null,
+  author: { login: 'author', id: 1, avatar_url: '', html_url: '' },
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  htmlUrl: 'https://github.com/owner/repo/pull/7',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha: 'abc123' },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions: 0, deletions: 0, changedFiles: 0, comments: 0, reviewComments: 0 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+const comment = (login: string, body: string, createdAt: string): GitHubComment => ({
+  id: 1,
+  user: { login, id: 1, avatar_url: '', html_url: '' },
+  body,
+  created_at: createdAt,
+  html_url: '',
+})
+
+describe('mentionsUser', () => {
+  it('should match @name on its own, in any case', () => {
+    expect(mentionsUser('@Me can you take a look?', 'me')).toBe(true)
+    expect(mentionsUser('thanks (@me)', 'me')).toBe(true)
+    expect(mentionsUser('cc @meg', 'me')).toBe(false)
+    expect(mentionsUser('mail me@me.dev', 'me')).toBe(false)
+    expect(mentionsUser('ask @acme/me', 'me')).toBe(false)
+  })
+})
+
+describe('checkMentions', () => {
+  const since = new Date('2026-01-01T10:00:00Z')
+
+  beforeEach(() => {
+    clearAllPRs()
+  })
+
+  it('should record new comments from others that mention me', async () => {
+    addPR(createMockPR('owner/repo#7'))
+    const getAll = vi.fn(async (path: string) =>
+      path.includes('/issues/')
+        ? [
+            comment('alice', 'old but edited, @me', '2026-01-01T09:00:00Z'),
+            comment('me', 'note to self @me', '2026-01-01T10:05:00Z'),
+            comment('bob', 'no mention here', '2026-01-01T10:06:00Z'),
+          ]
+        : [comment('carol', '@me what do you think?', '2026-01-01T10:10:00Z')]
+    )
+    const client = { getAll } as unknown as GitHubClient
+
+    const mentioned = await checkMentions(client, 'me', [{ prId: 'owner/repo#7', since }])
+
+    expect(mentioned).toEqual(['owner/repo#7'])
+    expect(getAll).toHaveBeenCalledWith('/repos/owner/repo/pulls/7/comments', {
+      query: { since: since.toISOString() },
+    })
+    expect(getPRState('owner/repo#7')?.activity).toEqual([
+      { type: 'mentioned', at: new Date('2026-01-01T10:10:00Z'), detail: 'carol' },
+    ])
+  })
+
+  it('should leave PRs alone when fetching comments fails', async () => {
+    addPR(createMockPR('owner/repo#7'))
+    const client = {
+      getAll: vi.fn().mockRejectedValue(new Error('boom')),
+    } as unknown as GitHubClient
+
+    expect(await checkMentions(client, 'me', [{ prId: 'owner/repo#7', since }])).toEqual([])
+    expect(getPRState('owner/repo#7')?.activity).toBeUndefined()
+  })
+})
@@ -0,0 +1,110 @@
+/** Tests for refreshing the PRs I authored */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { PullRequest } from '../../../types/pr.js'
+import type { GitHubClient } from '../../../services/github/client.js'
+import type { GitHubReview } from '../../../types/github.js'
+
+vi.mock('../../../services/github/diffFetcher.js', () => ({
+  fetchPRChecks: vi.fn(),
+}))
+
+import { fetchPRChecks } from '../../../services/github/diffFetcher.js'
+import { clearMyPRs, getAllMyPRs, getMyPRState } from '../../../services/state/myPRStore.js'
+import { refreshMyPRs, setMyPRCallbacks } from '../../../services/polling/myPRs.js'
+
+const mockFetchChecks = vi.mocked(fetchPRChecks)
+
+const createMockPR = (id: string, updatedAt: Date): PullRequest => ({
+  id,
+  number: 1,
+  title: 'My PR',
+  body: null,
+  author: { login: 'me', id: 1, avatar_url: '', html_url: '' },
+  repository: { owner: 'acme', name: 'api', fullName: 'acme/api' },
+  htmlUrl: 'https://github.com/acme/api/pull/1',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha: 'sha-1' },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions: 0, deletions: 0, changedFiles: 0, comments: 0, reviewComments: 0 },
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt,
+})
+
+const review = (login: string, state: GitHubReview['state']): GitHubReview => ({
+  id: 1,
+  user: { login, id: 1, avatar_url: '', html_url: '' },
+  body: '',
+  state,
+  html_url: '',
+  submitted_at: '2026-01-01T00:00:00Z',
+})
+
+describe('refreshMyPRs', () => {
+  const getAll = vi.fn()
+  const get = vi.fn()
+  const client = { getAll, get } as unknown as GitHubClient
+  const onReview = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearMyPRs()
+    setMyPRCallbacks({ onReview })
+    mockFetchChecks.mockResolvedValue([{ name: 'ci', status: 'completed', conclusion: 'success' }])
+    get.mockResolvedValue({ mergeable: false })
+  })
+
+  it('should report new verdicts, but not the ones there on first sight', async () => {
+    const first = new Date()
+    getAll.mockResolvedValueOnce([review('alice', 'APPROVED')])
+
+    expect(await refreshMyPRs(client, [createMockPR('acme/api#1', first)])).toEqual([])
+    expect(getMyPRState('acme/api#1')).toMatchObject({
+      reviewers: [{ login: 'alice', state: 'approved' }],
+      ci: 'passing',
+      mergeable: false,
+    })
+
+    // Nothing changed: no calls
+    await refreshMyPRs(client, [createMockPR('acme/api#1', first)])
+    expect(getAll).toHaveBeenCalledTimes(1)
+
+    getAll.mockResolvedValueOnce([review('alice', 'APPROVED'), review('bob', 'CHANGES_REQUESTED')])
+    const later = new Date(first.getTime() + 60_000)
+    const events = await refreshMyPRs(client, [createMockPR('acme/api#1', later)])
+
+    expect(events).toEqual([
+      {
+        pr: expect.objectContaining({ id: 'acme/api#1' }),
+        reviewer: 'bob',
+        state: 'changes_requested',
+      },
+    ])
+    expect(onReview).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop tracking PRs that are no longer open', async () => {
+    getAll.mockResolvedValue([])
+    await refreshMyPRs(client, [
+      createMockPR('acme/api#1', new Date()),
+      createMockPR('acme/api#2', new Date()),
+    ])
+
+    await refreshMyPRs(client, [createMockPR('acme/api#2', new Date())])
+
+    expect(getAllMyPRs().map((s) => s.pr.id)).toEqual(['acme/api#2'])
+  })
+
+  it('should keep tracking PRs whose source could not be fetched', async () => {
+    getAll.mockResolvedValue([])
+    await refreshMyPRs(client, [createMockPR('acme/api#1', new Date())])
+
+    await refreshMyPRs(client, [], (pr) => pr.repository.owner === 'acme')
+
+    expect(getAllMyPRs().map((s) => s.pr.id)).toEqual(['acme/api#1'])
+  })
+})
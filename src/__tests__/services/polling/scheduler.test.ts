@@ -0,0 +1,44 @@
+/** Tests for polling scheduler backoff */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { getNextPollDelay, resetSchedulerState } from '../../../services/polling/scheduler.js'
+import { recordRateLimit, clearRateLimits } from '../../../services/github/rateLimit.js'
+
+const INTERVAL = 60000
+
+const recordBudget = (remaining: number, resetInMs: number) =>
+  recordRateLimit(
+    new Headers({
+      'x-ratelimit-limit': '5000',
+      'x-ratelimit-remaining': String(remaining),
+      'x-ratelimit-reset': String(Math.floor((Date.now() + resetInMs) / 1000)),
+      'x-ratelimit-resource': 'core',
+    })
+  )
+
+describe('scheduler backoff', () => {
+  beforeEach(() => {
+    clearRateLimits()
+    resetSchedulerState()
+  })
+
+  it('should keep the interval while the budget is healthy', () => {
+    recordBudget(4000, 1800000)
+
+    expect(getNextPollDelay(INTERVAL)).toBe(INTERVAL)
+  })
+
+  it('should stretch the interval when the budget is low', () => {
+    recordBudget(200, 1800000)
+
+    expect(getNextPollDelay(INTERVAL)).toBe(INTERVAL * 3)
+  })
+
+  it('should wait for the reset when the budget is exhausted', () => {
+    recordBudget(0, 1800000)
+
+    const delay = getNextPollDelay(INTERVAL)
+    expect(delay).toBeGreaterThan(1790000)
+    expect(delay).toBeLessThanOrEqual(1800000)
+  })
+})
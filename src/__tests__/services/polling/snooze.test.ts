@@ -0,0 +1,109 @@
+/** Tests for waking snoozed PRs */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { PRCheck, PullRequest } from '../../../types/pr.js'
+import type { GitHubClient } from '../../../services/github/client.js'
+
+vi.mock('../../../services/state/triageStore.js', () => ({
+  getTriageRecord: vi.fn(),
+  recordTriage: vi.fn(),
+  clearTriageRecords: vi.fn(),
+}))
+
+vi.mock('../../../services/github/diffFetcher.js', () => ({
+  fetchPRChecks: vi.fn(),
+}))
+
+import { fetchPRChecks } from '../../../services/github/diffFetcher.js'
+import { addPR, clearAllPRs, getPRState, snoozePR } from '../../../services/state/prStore.js'
+import { wakeSnoozedPRs } from '../../../services/polling/snooze.js'
+
+const mockFetchChecks = vi.mocked(fetchPRChecks)
+const client = {} as GitHubClient
+
+const createMockPR = (id: string, sha = 'sha-1'): PullRequest => ({
+  id,
+  number: 1,
+  title: 'Test PR',
+  body: null,
+  author: { login: 'author', id: 1, avatar_url: '', html_url: '' },
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  htmlUrl: 'https://github.com/owner/repo/pull/1',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions: 0, deletions: 0, changedFiles: 0, comments: 0, reviewComments: 0 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+const check = (conclusion: PRCheck['conclusion']): PRCheck => ({
+  name: 'ci',
+  status: conclusion ? 'completed' : 'in_progress',
+  conclusion,
+})
+
+describe('wakeSnoozedPRs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearAllPRs()
+  })
+
+  it('should wake PRs whose time has come or that got new commits', async () => {
+    addPR(createMockPR('repo#1'))
+    addPR(createMockPR('repo#2'))
+    addPR(createMockPR('repo#3'))
+    snoozePR('repo#1', { until: new Date('2026-01-01T12:00:00Z') })
+    snoozePR('repo#2', { condition: 'new-commits' })
+    snoozePR('repo#3', { until: new Date('2026-01-02T12:00:00Z'), condition: 'new-commits' })
+
+    addPR(createMockPR('repo#2', 'sha-2'))
+    const woken = await wakeSnoozedPRs(client, new Date('2026-01-01T12:00:00Z'))
+
+    expect(woken).toEqual(['repo#1', 'repo#2'])
+    expect(getPRState('repo#1')).toMatchObject({ status: 'new', snooze: undefined })
+    expect(getPRState('repo#3')?.status).toBe('snoozed')
+    expect(mockFetchChecks).not.toHaveBeenCalled()
+  })
+
+  it('should wait for every check to pass on the current head', async () => {
+    addPR(createMockPR('repo#1'))
+    snoozePR('repo#1', { condition: 'ci-passes' })
+
+    mockFetchChecks.mockResolvedValueOnce([check('success'), check(null)])
+    expect(await wakeSnoozedPRs(client)).toEqual([])
+
+    mockFetchChecks.mockResolvedValueOnce([check('success'), check('failure')])
+    expect(await wakeSnoozedPRs(client)).toEqual([])
+
+    mockFetchChecks.mockRejectedValueOnce(new Error('boom'))
+    expect(await wakeSnoozedPRs(client)).toEqual([])
+
+    mockFetchChecks.mockResolvedValueOnce([check('success'), check('skipped')])
+    expect(await wakeSnoozedPRs(client)).toEqual(['repo#1'])
+    expect(mockFetchChecks).toHaveBeenLastCalledWith(client, 'owner', 'repo', 'sha-1')
+    expect(getPRState('repo#1')?.status).toBe('new')
+  })
+
+  it('should give checks time to appear before waking a PR without any', async () => {
+    const pushedAt = new Date()
+    addPR({ ...createMockPR('repo#1'), updatedAt: pushedAt })
+    snoozePR('repo#1', { condition: 'ci-passes' })
+
+    mockFetchChecks.mockResolvedValue([])
+    expect(await wakeSnoozedPRs(client, new Date(pushedAt.getTime() + 60 * 1000))).toEqual([])
+
+    // A new push restarts the wait
+    const pushedAgainAt = new Date(pushedAt.getTime() + 10 * 60 * 1000)
+    addPR({ ...createMockPR('repo#1', 'sha-2'), updatedAt: pushedAgainAt })
+    const afterFirstGrace = new Date(pushedAt.getTime() + 20 * 60 * 1000)
+    expect(await wakeSnoozedPRs(client, afterFirstGrace)).toEqual([])
+
+    const afterGrace = new Date(pushedAgainAt.getTime() + 15 * 60 * 1000)
+    expect(await wakeSnoozedPRs(client, afterGrace)).toEqual(['repo#1'])
+  })
+})
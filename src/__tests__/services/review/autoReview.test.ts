@@ -0,0 +1,193 @@
+/** Tests for auto-review queue */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { PullRequest } from '../../../types/pr.js'
+import type { GitHubClient } from '../../../services/github/client.js'
+
+vi.mock('../../../services/review/pipeline.js', () => ({
+  executeReview: vi.fn(),
+}))
+
+vi.mock('../../../services/github/prFetcher.js', () => ({
+  fetchPRDetails: vi.fn(),
+}))
+
+vi.mock('../../../services/state/agentStore.js', () => ({
+  getDefaultAgent: vi.fn(() => ({ id: 'pr-reviewer' })),
+  getAgent: vi.fn((id: string) => (id === 'security' ? { id } : undefined)),
+}))
+
+vi.mock('../../../services/state/triageStore.js', () => ({
+  getTriageRecord: vi.fn(),
+  recordTriage: vi.fn(),
+  clearTriageRecords: vi.fn(),
+}))
+
+vi.mock('../../../services/state/settingsStore.js', () => ({
+  getAutoReviewLimits: vi.fn(() => ({ concurrency: 1, maxLines: 500 })),
+  getRepoRules: vi.fn(() => ({
+    includeRepos: [],
+    excludeRepos: [],
+    ignoreLabels: [],
+    ignoreAuthors: [],
+    ignoreBots: false,
+    ignoreBaseBranches: [],
+    repoPolicies: [{ repos: 'infra-*', agentId: 'security' }],
+  })),
+}))
+
+import { executeReview } from '../../../services/review/pipeline.js'
+import { fetchPRDetails } from '../../../services/github/prFetcher.js'
+import { getTriageRecord } from '../../../services/state/triageStore.js'
+import {
+  enqueueAutoReviews,
+  setAutoReviewCallbacks,
+  getAutoReviewQueueStatus,
+  clearAutoReviewQueue,
+} from '../../../services/review/autoReview.js'
+import { addPR, clearAllPRs } from '../../../services/state/prStore.js'
+import { clearAllReviews } from '../../../services/state/reviewStore.js'
+
+const mockExecuteReview = vi.mocked(executeReview)
+const client = {} as GitHubClient
+
+const createMockPR = (id: string, additions = 10): PullRequest => ({
+  id,
+  number: 1,
+  title: 'Test PR',
+  body: null,
+  author: { login: 'author', id: 1, avatar_url: '', html_url: '' },
+  repository: { owner: 'owner', name: 'repo', fullName: 'owner/repo' },
+  htmlUrl: 'https://github.com/owner/repo/pull/1',
+  state: 'open',
+  draft: false,
+  head: { ref: 'feature', sha: 'abc123' },
+  base: { ref: 'main', sha: 'def456' },
+  requestedReviewers: [],
+  requestedTeams: [],
+  labels: [],
+  stats: { additions, deletions: 0, changedFiles: 1, comments: 0, reviewComments: 0 },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('autoReview', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearAllPRs()
+    clearAllReviews()
+    clearAutoReviewQueue()
+  })
+
+  it('should skip PRs that do not need my review', () => {
+    addPR(createMockPR('repo#1'), false)
+
+    const queued = enqueueAutoReviews(client, ['repo#1'])
+
+    expect(queued).toBe(0)
+    expect(mockExecuteReview).not.toHaveBeenCalled()
+  })
+
+  it('should skip PRs restored as dismissed or snoozed after a restart', () => {
+    const record = { headSha: 'abc123', needsMyReview: true, updatedAt: new Date() }
+    vi.mocked(getTriageRecord)
+      .mockReturnValueOnce({ ...record, status: 'dismissed' })
+      .mockReturnValueOnce({
+        ...record,
+        status: 'snoozed',
+        snooze: { headSha: 'abc123', snoozedAt: new Date() },
+      })
+    addPR(createMockPR('repo#1'), true)
+    addPR(createMockPR('repo#2'), true)
+
+    const queued = enqueueAutoReviews(client, ['repo#1', 'repo#2'])
+
+    expect(queued).toBe(0)
+    expect(mockExecuteReview).not.toHaveBeenCalled()
+  })
+
+  it('should skip PRs above the size threshold', () => {
+    addPR(createMockPR('repo#1', 600), true)
+
+    const queued = enqueueAutoReviews(client, ['repo#1'])
+
+    expect(queued).toBe(0)
+  })
+
+  it('should read the size of PRs without line counts before reviewing them', async () => {
+    const mockFetchDetails = vi.mocked(fetchPRDetails)
+    mockExecuteReview.mockResolvedValue({} as never)
+    mockFetchDetails
+      .mockResolvedValueOnce({ additions: 550, deletions: 50 } as never)
+      .mockResolvedValueOnce({ additions: 40, deletions: 10 } as never)
+      .mockRejectedValueOnce(new Error('Not Found'))
+    for (const id of ['repo#1', 'repo#2', 'repo#3']) {
+      addPR({ ...createMockPR(id), stats: {} }, true)
+    }
+
+    expect(enqueueAutoReviews(client, ['repo#1', 'repo#2', 'repo#3'])).toBe(3)
+    await flush()
+
+    expect(mockFetchDetails).toHaveBeenCalledTimes(3)
+    // Too large, and unknown, are skipped
+    expect(mockExecuteReview).toHaveBeenCalledTimes(1)
+    expect(mockExecuteReview).toHaveBeenCalledWith('repo#2', expect.anything(), client)
+  })
+
+  it('should respect the concurrency cap', async () => {
+    let resolveFirst: () => void = () => {}
+    mockExecuteReview.mockImplementationOnce(
+      () => new Promise((resolve) => (resolveFirst = () => resolve({} as never)))
+    )
+    mockExecuteReview.mockResolvedValueOnce({} as never)
+
+    addPR(createMockPR('repo#1'), true)
+    addPR(createMockPR('repo#2'), true)
+    enqueueAutoReviews(client, ['repo#1', 'repo#2'])
+
+    expect(mockExecuteReview).toHaveBeenCalledTimes(1)
+    expect(getAutoReviewQueueStatus()).toEqual({ pending: ['repo#2'], running: ['repo#1'] })
+
+    resolveFirst()
+    await flush()
+
+    expect(mockExecuteReview).toHaveBeenCalledTimes(2)
+  })
+
+  it('should notify on completion and failure', async () => {
+    const onComplete = vi.fn()
+    const onError = vi.fn()
+    setAutoReviewCallbacks({ onComplete, onError })
+
+    mockExecuteReview.mockResolvedValueOnce({ id: 'result' } as never)
+    addPR(createMockPR('repo#1'), true)
+    enqueueAutoReviews(client, ['repo#1'])
+    await flush()
+
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'repo#1' }),
+      { id: 'result' }
+    )
+
+    mockExecuteReview.mockRejectedValueOnce(new Error('boom'))
+    addPR(createMockPR('repo#2'), true)
+    enqueueAutoReviews(client, ['repo#2'])
+    await flush()
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ id: 'repo#2' }), 'boom')
+  })
+
+  it('should review with the repo policy agent', async () => {
+    mockExecuteReview.mockResolvedValueOnce({} as never)
+    const pr = createMockPR('acme/infra-dns#1')
+    pr.repository = { owner: 'acme', name: 'infra-dns', fullName: 'acme/infra-dns' }
+    addPR(pr, true)
+
+    enqueueAutoReviews(client, [pr.id])
+    await flush()
+
+    expect(mockExecuteReview).toHaveBeenCalledWith(pr.id, { id: 'security' }, client)
+  })
+})
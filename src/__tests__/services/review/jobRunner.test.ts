@@ -0,0 +1,84 @@
+/** Tests for background review jobs */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { ReviewAgent } from '../../../types/agent.js'
+import type { ReviewResult } from '../../../types/review.js'
+import type { GitHubClient } from '../../../services/github/client.js'
+import { ReviewInProgressError } from '../../../types/errors.js'
+
+vi.mock('../../../services/review/pipeline.js', () => ({
+  executePanelReview: vi.fn(),
+  getReviewAgentId: vi.fn((agents: ReviewAgent[]) => agents.map((a) => a.id).join('+')),
+}))
+
+import { executePanelReview } from '../../../services/review/pipeline.js'
+import {
+  startReviewJob,
+  getReviewJob,
+  clearReviewJobs,
+} from '../../../services/review/jobRunner.js'
+import { clearAllReviews, setReviewInProgress } from '../../../services/state/reviewStore.js'
+
+const mockExecutePanelReview = vi.mocked(executePanelReview)
+const client = {} as GitHubClient
+const agents = [{ id: 'pr-reviewer' }] as ReviewAgent[]
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('jobRunner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearAllReviews()
+    clearReviewJobs()
+  })
+
+  it('should return a running job before the review finishes', async () => {
+    let finish: (result: ReviewResult) => void = () => {}
+    mockExecutePanelReview.mockReturnValue(new Promise((resolve) => (finish = resolve)))
+
+    const job = startReviewJob('repo#1', agents, client, { incremental: true })
+
+    expect(job).toMatchObject({ prId: 'repo#1', agentId: 'pr-reviewer', status: 'running' })
+    expect(mockExecutePanelReview).toHaveBeenCalledWith('repo#1', agents, client, {
+      incremental: true,
+    })
+
+    finish({ id: 'review-1' } as ReviewResult)
+    await flush()
+
+    expect(getReviewJob('repo#1')).toMatchObject({
+      id: job.id,
+      status: 'completed',
+      reviewId: 'review-1',
+    })
+  })
+
+  it('should record failures and cancellations', async () => {
+    mockExecutePanelReview.mockRejectedValueOnce(new Error('OpenCode timed out'))
+    startReviewJob('repo#1', agents, client)
+    await flush()
+    expect(getReviewJob('repo#1')).toMatchObject({
+      status: 'failed',
+      error: 'OpenCode timed out',
+    })
+
+    mockExecutePanelReview.mockRejectedValueOnce(new Error('Review cancelled'))
+    startReviewJob('repo#1', agents, client)
+    await flush()
+    expect(getReviewJob('repo#1')?.status).toBe('cancelled')
+  })
+
+  it('should reject a second review while one is running', () => {
+    mockExecutePanelReview.mockReturnValue(new Promise(() => {}))
+    const job = startReviewJob('repo#1', agents, client)
+
+    const duplicate = () => startReviewJob('repo#1', agents, client)
+    expect(duplicate).toThrow(ReviewInProgressError)
+    expect(duplicate).toThrow(expect.objectContaining({ jobId: job.id }))
+
+    // Reviews started outside the job runner, like auto-reviews, block it too
+    setReviewInProgress('repo#2')
+    expect(() => startReviewJob('repo#2', agents, client)).toThrow(ReviewInProgressError)
+    expect(mockExecutePanelReview).toHaveBeenCalledTimes(1)
+  })
+})
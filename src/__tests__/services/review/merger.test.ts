@@ -0,0 +1,158 @@
+/** Tests for review output merging */
+
+import { describe, it, expect } from 'vitest'
+import type { AIReviewOutput } from '../../../types/review.js'
+import {
+  mergeReviewOutputs,
+  mergeAgentOutputs,
+  getMostSevereVerdict,
+} from '../../../services/review/merger.js'
+
+const createOutput = (overrides: Partial<AIReviewOutput> = {}): AIReviewOutput => ({
+  summary: 'Summary',
+  verdict: 'approve',
+  issues: [],
+  suggestions: [],
+  ...overrides,
+})
+
+describe('merger', () => {
+  it('should pick the most severe verdict', () => {
+    expect(getMostSevereVerdict(['approve', 'comment'])).toBe('comment')
+    expect(getMostSevereVerdict(['comment', 'request_changes', 'approve'])).toBe('request_changes')
+  })
+
+  it('should dedupe issues and keep the most severe copy', () => {
+    const merged = mergeReviewOutputs([
+      createOutput({
+        summary: 'Part one',
+        issues: [{ severity: 'warning', file: 'a.ts', line: 3, message: 'Missing null check' }],
+      }),
+      createOutput({
+        summary: 'Part two',
+        verdict: 'request_changes',
+        issues: [
+          { severity: 'critical', file: 'a.ts', line: 3, message: 'missing  null check' },
+          { severity: 'info', file: 'b.ts', line: 1, message: 'Typo' },
+        ],
+      }),
+    ])
+
+    expect(merged.summary).toBe('Part one\n\nPart two')
+    expect(merged.verdict).toBe('request_changes')
+    expect(merged.issues.map((i) => [i.file, i.severity])).toEqual([
+      ['a.ts', 'critical'],
+      ['b.ts', 'info'],
+    ])
+  })
+
+  it('should mark a previous issue fixed when any pass saw the fix', () => {
+    const issue = { severity: 'warning' as const, message: 'Old issue' }
+    const merged = mergeReviewOutputs([
+      createOutput({ previousIssues: [{ issue, status: 'open' }] }),
+      createOutput({ previousIssues: [{ issue, status: 'fixed', note: 'Guard added' }] }),
+    ])
+
+    expect(merged.previousIssues).toEqual([{ issue, status: 'fixed', note: 'Guard added' }])
+  })
+  it('should collapse issues different agents raised on the same line', () => {
+    const merged = mergeAgentOutputs([
+      {
+        agentId: 'security',
+        agentName: 'Security',
+        duration: 1000,
+        output: createOutput({
+          summary: 'Unsafe input',
+          verdict: 'request_changes',
+          issues: [
+            { severity: 'critical', file: 'a.ts', line: 3, message: 'SQL injection' },
+            { severity: 'info', file: 'a.ts', line: 3, message: 'Log the query' },
+          ],
+        }),
+      },
+      {
+        agentId: 'performance',
+        agentName: 'Performance',
+        duration: 1000,
+        output: createOutput({
+          summary: 'Looks fast',
+          issues: [{ severity: 'warning', file: 'a.ts', line: 3, message: 'Query in a loop' }],
+        }),
+      },
+    ])
+
+    expect(merged.summary).toBe('**Security:** Unsafe input\n\n**Performance:** Looks fast')
+    expect(merged.verdict).toBe('request_changes')
+    expect(merged.issues).toEqual([
+      {
+        severity: 'critical',
+        file: 'a.ts',
+        line: 3,
+        message: 'SQL injection',
+        agentIds: ['security', 'performance'],
+      },
+      { severity: 'info', file: 'a.ts', line: 3, message: 'Log the query', agentIds: ['security'] },
+    ])
+  })
+
+  it('should not carry the weaker issue fields over to the one that wins', () => {
+    const merged = mergeAgentOutputs([
+      {
+        agentId: 'style',
+        agentName: 'Style',
+        duration: 1000,
+        output: createOutput({
+          issues: [
+            {
+              severity: 'info',
+              file: 'a.ts',
+              line: 3,
+              endLine: 5,
+              side: 'RIGHT',
+              anchor: 'const query = build()',
+              replacement: 'const query = buildQuery()',
+              message: 'Rename the helper',
+            },
+          ],
+        }),
+      },
+      {
+        agentId: 'security',
+        agentName: 'Security',
+        duration: 1000,
+        output: createOutput({
+          issues: [{ severity: 'critical', file: 'a.ts', line: 3, message: 'SQL injection' }],
+        }),
+      },
+    ])
+
+    expect(merged.issues).toEqual([
+      {
+        severity: 'critical',
+        file: 'a.ts',
+        line: 3,
+        message: 'SQL injection',
+        agentIds: ['style', 'security'],
+      },
+    ])
+  })
+
+  it('should not approve for a panel with failed agents', () => {
+    const merged = mergeAgentOutputs(
+      [
+        {
+          agentId: 'performance',
+          agentName: 'Performance',
+          duration: 1000,
+          output: createOutput({ summary: 'Looks fast' }),
+        },
+      ],
+      [{ agentId: 'security', agentName: 'Security', error: 'Review timed out' }]
+    )
+
+    expect(merged.verdict).toBe('comment')
+    expect(merged.summary).toBe(
+      '**Performance:** Looks fast\n\n**Not reviewed:** Security failed, so this review is incomplete.'
+    )
+  })
+})
@@ -0,0 +1,66 @@
+/** Tests for review batch planner */
+
+import { describe, it, expect } from 'vitest'
+import type { PRFile } from '../../../types/pr.js'
+import {
+  estimateTokens,
+  getDiffTokenBudget,
+  planReviewBatches,
+} from '../../../services/review/planner.js'
+
+const createFile = (filename: string, patchChars: number): PRFile => ({
+  filename,
+  status: 'modified',
+  additions: 1,
+  deletions: 0,
+  patch: 'x'.repeat(patchChars),
+})
+
+const names = (batches: PRFile[][]) => batches.map((b) => b.map((f) => f.filename))
+
+describe('planner', () => {
+  it('should derive the diff budget from the context limit', () => {
+    expect(getDiffTokenBudget(200000)).toBe(100000)
+    expect(getDiffTokenBudget()).toBe(64000)
+  })
+
+  it('should keep a small PR in a single batch', () => {
+    const files = [createFile('src/a.ts', 100), createFile('src/b.ts', 100)]
+
+    expect(names(planReviewBatches(files, 1000))).toEqual([['src/a.ts', 'src/b.ts']])
+  })
+
+  it('should keep files of the same directory together', () => {
+    const files = [
+      createFile('src/api/a.ts', 1000),
+      createFile('src/ui/b.ts', 1000),
+      createFile('src/api/c.ts', 1000),
+    ]
+    const budget = estimateTokens('x'.repeat(2200))
+
+    expect(names(planReviewBatches(files, budget))).toEqual([
+      ['src/api/a.ts', 'src/api/c.ts'],
+      ['src/ui/b.ts'],
+    ])
+  })
+
+  it('should split directories that exceed the budget by file', () => {
+    const files = [
+      createFile('src/a.ts', 1000),
+      createFile('src/b.ts', 1000),
+      createFile('src/c.ts', 5000),
+    ]
+    const budget = estimateTokens('x'.repeat(2200))
+
+    expect(names(planReviewBatches(files, budget))).toEqual([
+      ['src/a.ts', 'src/b.ts'],
+      ['src/c.ts'],
+    ])
+  })
+
+  it('should skip files without a patch', () => {
+    const files = [createFile('src/a.ts', 100), { ...createFile('logo.png', 0), patch: undefined }]
+
+    expect(names(planReviewBatches(files, 1000))).toEqual([['src/a.ts']])
+  })
+})
@@ -1,6 +1,9 @@
 /** Tests for PR state store */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
 import {
   getPRState,
   getAllPRStates,
@@ -14,8 +17,27 @@ import {
   addChangeListener,
   getPRCount,
   getNewPRCount,
+  snoozePR,
 } from '../../../services/state/prStore.js'
 import type { PullRequest } from '../../../types/pr.js'
+import type { GitHubClient } from '../../../services/github/client.js'
+import {
+  fetchAllSourcePRs,
+  getPRSources,
+  isPRFromSource,
+} from '../../../services/github/prSources.js'
+
+const configDir = mkdtempSync(join(tmpdir(), 'prpal-prstore-'))
+
+vi.mock('../../../config/env.js', () => ({
+  getConfigDir: () => configDir,
+}))
+
+/** Load fresh store modules, as after an app restart; triage state is read back from disk */
+async function restart() {
+  vi.resetModules()
+  return import('../../../services/state/prStore.js')
+}
 
 const createMockPR = (id: string, number: number): PullRequest => ({
   id,
@@ -42,6 +64,10 @@ describe('prStore', () => {
     clearAllPRs()
   })
 
+  afterAll(() => {
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
   describe('addPR', () => {
     it('should add a new PR with status "new"', () => {
       const pr = createMockPR('repo#1', 1)
@@ -169,6 +195,40 @@ describe('prStore', () => {
       expect(getPRCount()).toBe(1)
     })
 
+    it('should keep the PRs of a source that failed to fetch', async () => {
+      const inRepo = (id: string, owner: string, name: string, number: number): PullRequest => ({
+        ...createMockPR(id, number),
+        repository: { owner, name, fullName: `${owner}/${name}` },
+      })
+      syncPRs({
+        prs: [inRepo('acme/api#1', 'acme', 'api', 1), inRepo('globex/web#2', 'globex', 'web', 2)],
+        myReviewPRIds: new Set(),
+      })
+
+      // acme/api#1 was closed; globex can't be reached this poll
+      const getAll = vi.fn((path: string) => {
+        if (path === '/orgs/acme/repos')
+          return Promise.resolve([{ name: 'api', full_name: 'acme/api' }])
+        if (path === '/repos/acme/api/pulls') return Promise.resolve([])
+        return Promise.reject(new Error('Service unavailable'))
+      })
+      const client = { getAll } as unknown as GitHubClient
+      const { prs, failedSources } = await fetchAllSourcePRs(
+        client,
+        getPRSources({ org: 'acme', sources: ['globex'] })
+      )
+
+      const { added, removed } = syncPRs({
+        prs,
+        myReviewPRIds: new Set(),
+        isUnfetched: (pr) => failedSources.some((source) => isPRFromSource(pr, source)),
+      })
+
+      expect(removed).toEqual(['acme/api#1'])
+      expect(added).toEqual([])
+      expect(getPRState('globex/web#2')).toBeDefined()
+    })
+
     it('should update existing PRs', () => {
       addPR(createMockPR('repo#1', 1))
       updatePRStatus('repo#1', 'seen')
@@ -222,7 +282,19 @@ describe('prStore', () => {
 
       addPR(createMockPR('repo#1', 1))
 
-      expect(listener).toHaveBeenCalledWith('repo#1', expect.any(Object))
+      expect(listener).toHaveBeenCalledWith('repo#1', expect.any(Object), 'added')
+    })
+
+    it('should report status changes and removals', () => {
+      addPR(createMockPR('repo#1', 1))
+      const listener = vi.fn()
+      addChangeListener(listener)
+
+      addPR(createMockPR('repo#1', 1))
+      updatePRStatus('repo#1', 'seen')
+      removePR('repo#1')
+
+      expect(listener.mock.calls.map((call) => call[2])).toEqual(['updated', 'status', 'removed'])
     })
 
     it('should allow unsubscribing', () => {
@@ -252,4 +324,179 @@ describe('prStore', () => {
       expect(getNewPRCount()).toBe(1)
     })
   })
+
+  describe('activity', () => {
+    it('should turn PR changes between syncs into activity', () => {
+      const pr = createMockPR('repo#1', 1)
+      syncPRs({ prs: [pr], myReviewPRIds: new Set() })
+      updatePRStatus('repo#1', 'reviewed')
+      const changes: string[] = []
+      addChangeListener((_id, _state, change) => changes.push(change))
+
+      const result = syncPRs({
+        prs: [
+          {
+            ...pr,
+            head: { ref: 'feature', sha: 'def789' },
+            base: { ref: 'develop', sha: 'def456' },
+            updatedAt: new Date(pr.updatedAt.getTime() + 1000),
+          },
+        ],
+        myReviewPRIds: new Set(['repo#1']),
+      })
+
+      expect(result.active).toEqual(['repo#1'])
+      expect(result.updated).toEqual([{ prId: 'repo#1', since: pr.updatedAt }])
+      expect(changes).toEqual(['activity'])
+      expect(getPRState('repo#1')?.activity).toEqual([
+        { type: 'new-commits', at: expect.any(Date) },
+        { type: 'review-re-requested', at: expect.any(Date) },
+        { type: 'base-changed', at: expect.any(Date), detail: 'develop' },
+      ])
+      expect(getPRState('repo#1')?.status).toBe('reviewed')
+      expect(getNewPRCount()).toBe(1)
+
+      updatePRStatus('repo#1', 'seen')
+      expect(getPRState('repo#1')?.activity).toBeUndefined()
+      expect(getNewPRCount()).toBe(0)
+    })
+
+    it('should call a request before any review of mine a plain review request', () => {
+      const pr = createMockPR('repo#1', 1)
+      syncPRs({ prs: [pr], myReviewPRIds: new Set() })
+      updatePRStatus('repo#1', 'seen')
+
+      syncPRs({ prs: [pr], myReviewPRIds: new Set(['repo#1']) })
+
+      expect(getPRState('repo#1')?.activity).toEqual([
+        { type: 'review-requested', at: expect.any(Date) },
+      ])
+    })
+
+    it('should pick up commits pushed while the app was closed', async () => {
+      addPR(createMockPR('repo#1', 1))
+      updatePRStatus('repo#1', 'reviewed')
+
+      const store = await restart()
+      store.addPR({ ...createMockPR('repo#1', 1), head: { ref: 'feature', sha: 'def789' } })
+
+      expect(store.getPRState('repo#1')).toMatchObject({
+        status: 'reviewed',
+        activity: [{ type: 'new-commits' }],
+      })
+      expect(store.getNewPRCount()).toBe(1)
+
+      // Unacknowledged activity survives another restart
+      const again = await restart()
+      again.addPR({ ...createMockPR('repo#1', 1), head: { ref: 'feature', sha: 'def789' } })
+      expect(again.getPRState('repo#1')?.activity).toHaveLength(1)
+      again.clearAllPRs()
+    })
+  })
+
+  describe('triage persistence', () => {
+    const withHead = (sha: string) => ({
+      ...createMockPR('repo#1', 1),
+      head: { ref: 'feature', sha },
+    })
+
+    it('should restore triage status after a restart', async () => {
+      addPR(createMockPR('repo#1', 1))
+      addPR(createMockPR('repo#2', 2))
+      addPR(createMockPR('repo#3', 3))
+      updatePRStatus('repo#1', 'seen')
+      updatePRStatus('repo#2', 'dismissed')
+      updatePRStatus('repo#3', 'reviewing')
+
+      const store = await restart()
+      store.syncPRs({
+        prs: [createMockPR('repo#1', 1), createMockPR('repo#2', 2), createMockPR('repo#3', 3)],
+        myReviewPRIds: new Set(),
+      })
+
+      expect(store.getPRState('repo#1')?.status).toBe('seen')
+      expect(store.getPRState('repo#1')?.seenAt).toBeInstanceOf(Date)
+      expect(store.getPRState('repo#2')?.status).toBe('dismissed')
+      // The interrupted review isn't running any more
+      expect(store.getPRState('repo#3')?.status).toBe('seen')
+      expect(store.getNewPRs()).toEqual([])
+      store.clearAllPRs()
+    })
+
+    it('should reset a dismissal when the PR gets new commits', async () => {
+      addPR(withHead('sha-1'))
+      updatePRStatus('repo#1', 'dismissed')
+
+      addPR(withHead('sha-2'))
+      expect(getPRState('repo#1')?.status).toBe('new')
+
+      updatePRStatus('repo#1', 'dismissed')
+      const store = await restart()
+      store.addPR(withHead('sha-3'))
+
+      expect(store.getPRState('repo#1')?.status).toBe('new')
+      store.clearAllPRs()
+    })
+
+    it('should keep a snooze across restarts until another triage action', async () => {
+      addPR(createMockPR('repo#1', 1))
+      snoozePR('repo#1', { until: new Date('2030-01-01T00:00:00Z'), condition: 'ci-passes' })
+
+      const store = await restart()
+      store.addPR(createMockPR('repo#1', 1))
+
+      expect(store.getPRState('repo#1')).toMatchObject({
+        status: 'snoozed',
+        snooze: {
+          until: new Date('2030-01-01T00:00:00Z'),
+          condition: 'ci-passes',
+          headSha: 'abc123',
+        },
+      })
+
+      store.updatePRStatus('repo#1', 'seen')
+      expect(store.getPRState('repo#1')?.snooze).toBeUndefined()
+      store.clearAllPRs()
+    })
+
+    it('should keep a dismissal for as long as the PR is still being polled', async () => {
+      const DAY = 24 * 60 * 60 * 1000
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+      try {
+        addPR(createMockPR('repo#1', 1))
+        updatePRStatus('repo#1', 'dismissed')
+
+        // Daily polls past the 30-day cutoff, each with a new PR whose record prunes stale ones
+        for (let day = 1; day <= 31; day++) {
+          vi.advanceTimersByTime(DAY)
+          syncPRs({
+            prs: [createMockPR('repo#1', 1), createMockPR(`repo#${day + 1}`, day + 1)],
+            myReviewPRIds: new Set(),
+          })
+        }
+
+        const store = await restart()
+        store.addPR(createMockPR('repo#1', 1))
+
+        expect(store.getPRState('repo#1')?.status).toBe('dismissed')
+        store.clearAllPRs()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should reset a dismissal when my review is requested again', async () => {
+      addPR(createMockPR('repo#1', 1), false)
+      updatePRStatus('repo#1', 'dismissed')
+
+      addPR(createMockPR('repo#1', 1), false)
+      expect(getPRState('repo#1')?.status).toBe('dismissed')
+
+      const store = await restart()
+      store.addPR(createMockPR('repo#1', 1), true)
+
+      expect(store.getPRState('repo#1')?.status).toBe('new')
+      store.clearAllPRs()
+    })
+  })
 })
@@ -0,0 +1,116 @@
+/** Tests for review history store */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import type { ReviewResult } from '../../../types/review.js'
+
+let configDir = ''
+
+vi.mock('../../../config/env.js', () => ({
+  getConfigDir: () => configDir,
+}))
+
+const DAY = 24 * 60 * 60 * 1000
+
+const createResult = (
+  id: string,
+  headSha: string,
+  agentId = 'pr-reviewer',
+  prId = 'owner/repo#1'
+): ReviewResult => ({
+  id,
+  prId,
+  prNumber: 1,
+  headSha,
+  agentId,
+  output: { summary: `Review ${id}`, verdict: 'comment', issues: [], suggestions: [] },
+  rawResponse: '',
+  createdAt: new Date(),
+  duration: 1000,
+})
+
+async function loadStore() {
+  vi.resetModules()
+  return import('../../../services/state/reviewHistoryStore.js')
+}
+
+describe('reviewHistoryStore', () => {
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'prpal-history-'))
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2024-01-15T10:00:00Z') })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('should keep multiple runs per PR, newest first', async () => {
+    const store = await loadStore()
+
+    store.recordReview(createResult('r1', 'sha1'))
+    store.recordReview(createResult('r2', 'sha2'))
+    store.recordReview(createResult('r3', 'sha2', 'security'))
+
+    expect(store.getReviewHistory('owner/repo#1').map((r) => r.id)).toEqual(['r3', 'r2', 'r1'])
+  })
+
+  it('should replace a run for the same head SHA and agent', async () => {
+    const store = await loadStore()
+
+    store.recordReview(createResult('r1', 'sha1'))
+    store.recordReview(createResult('r2', 'sha1'))
+
+    expect(store.getReviewHistory('owner/repo#1').map((r) => r.id)).toEqual(['r2'])
+    expect(store.findStoredReview('owner/repo#1', 'sha1', 'pr-reviewer')?.result.id).toBe('r2')
+  })
+
+  it('should persist reviews and inline comments across restarts', async () => {
+    const first = await loadStore()
+    first.recordReview(createResult('r1', 'sha1'))
+    first.recordInlineComments('owner/repo#1', 'r1', [
+      {
+        issue: { severity: 'info', message: 'note' },
+        file: 'a.ts',
+        requestedLine: 1,
+        actualLine: 1,
+        isValid: true,
+        selected: true,
+        issueIndex: 0,
+      },
+    ])
+
+    const second = await loadStore()
+    const latest = second.getLatestStoredReview('owner/repo#1')
+
+    expect(latest?.result.id).toBe('r1')
+    expect(latest?.result.createdAt).toBeInstanceOf(Date)
+    expect(latest?.inlineComments).toHaveLength(1)
+  })
+
+  it('should leave the raw AI response out of the saved history', async () => {
+    const first = await loadStore()
+    first.recordReview({ ...createResult('r1', 'sha1'), rawResponse: 'x'.repeat(10_000) })
+
+    const second = await loadStore()
+
+    expect(second.getLatestStoredReview('owner/repo#1')?.result.rawResponse).toBe('')
+  })
+
+  it('should drop PRs that have not been reviewed for 30 days', async () => {
+    const store = await loadStore()
+    store.recordReview(createResult('old', 'sha1', 'pr-reviewer', 'owner/repo#2'))
+    store.recordReview(createResult('r1', 'sha1'))
+
+    vi.setSystemTime(Date.now() + 20 * DAY)
+    store.recordReview(createResult('r2', 'sha2'))
+    vi.setSystemTime(Date.now() + 11 * DAY)
+    store.recordReview(createResult('r3', 'sha3'))
+
+    const reloaded = await loadStore()
+    expect(reloaded.getReviewHistory('owner/repo#2')).toEqual([])
+    expect(reloaded.getReviewHistory('owner/repo#1').map((r) => r.id)).toEqual(['r3', 'r2', 'r1'])
+  })
+})
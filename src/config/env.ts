@@ -1,13 +1,30 @@
 /** Environment-based configuration loader */
 
-import { readFileSync, existsSync } from 'node:fs'
+import { readFileSync, writeFileSync, existsSync } from 'node:fs'
 import { join } from 'node:path'
 import { homedir } from 'node:os'
-import { AppConfigSchema, resolveConfig, type ResolvedConfig } from '../types/config.js'
+import {
+  AppConfigSchema,
+  resolveConfig,
+  type GitHubConfig,
+  type GitHubSecrets,
+  type ResolvedConfig,
+  type SecretBackendName,
+} from '../types/config.js'
 import { ConfigError } from '../types/errors.js'
+import {
+  createSecretBackend,
+  createSecretRef,
+  isKeychainAvailable,
+  plainSecret,
+  type SecretBackend,
+} from './secrets.js'
+import { info, warn } from '../utils/logger.js'
 
 const CONFIG_DIR = join(homedir(), '.config', 'prpal')
 const CONFIG_FILE = join(CONFIG_DIR, 'settings.json')
+const PAT_SECRET_KEY = 'github.pat'
+const REFRESH_TOKEN_SECRET_KEY = 'github.refresh-token'
 
 function getEnvString(key: string): string | undefined {
   return process.env[key]
@@ -26,15 +43,29 @@ function getEnvBoolean(key: string): boolean | undefined {
   return value === 'true' || value === '1'
 }
 
+function getEnvList(key: string): string[] | undefined {
+  const value = process.env[key]
+  if (!value) return undefined
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
 function loadFromEnv(): Record<string, unknown> {
   return {
     github: {
       pat: getEnvString('GITHUB_PAT'),
       username: getEnvString('GITHUB_USERNAME'),
       org: getEnvString('GITHUB_ORG'),
+      sources: getEnvList('GITHUB_SOURCES'),
+      apiUrl: getEnvString('GITHUB_API_URL'),
+      webUrl: getEnvString('GITHUB_WEB_URL'),
+      caBundlePath: getEnvString('GITHUB_CA_BUNDLE'),
     },
     polling: {
       intervalMs: getEnvNumber('POLL_INTERVAL_MS'),
+      strategy: getEnvString('POLL_STRATEGY'),
     },
     server: {
       port: getEnvNumber('SERVER_PORT'),
@@ -46,6 +77,8 @@ function loadFromEnv(): Record<string, unknown> {
       timeoutMs: getEnvNumber('OPENCODE_TIMEOUT_MS'),
       path: getEnvString('OPENCODE_PATH'),
       autoReview: getEnvBoolean('OPENCODE_AUTO_REVIEW'),
+      autoReviewConcurrency: getEnvNumber('OPENCODE_AUTO_REVIEW_CONCURRENCY'),
+      autoReviewMaxLines: getEnvNumber('OPENCODE_AUTO_REVIEW_MAX_LINES'),
     },
     logLevel: getEnvString('LOG_LEVEL'),
   }
@@ -107,8 +140,93 @@ function removeUndefined(obj: Record<string, unknown>): Record<string, unknown>
   return result
 }
 
+function isBackendName(value: string | undefined): value is SecretBackendName {
+  return value === 'keychain' || value === 'encrypted-file'
+}
+
+/** The keychain when the OS has one, unless PRPAL_SECRET_BACKEND picks a backend */
+export function getSecretBackend(name?: SecretBackendName): SecretBackend {
+  const preferred = getEnvString('PRPAL_SECRET_BACKEND')
+  const backendName =
+    name ??
+    (isBackendName(preferred) ? preferred : isKeychainAvailable() ? 'keychain' : 'encrypted-file')
+
+  return createSecretBackend(backendName, {
+    dir: CONFIG_DIR,
+    passphrase: getEnvString('PRPAL_SECRETS_PASSPHRASE'),
+  })
+}
+
+/**
+ * Store the GitHub token, and the refresh token of an OAuth sign-in, outside settings.json.
+ * Returns the backend that now holds them.
+ */
+export function saveGitHubToken(token: string, refreshToken?: string): SecretBackendName {
+  const save = (backend: SecretBackend): SecretBackendName => {
+    backend.set(PAT_SECRET_KEY, token)
+    if (refreshToken) backend.set(REFRESH_TOKEN_SECRET_KEY, refreshToken)
+    return backend.name
+  }
+  const backend = getSecretBackend()
+
+  try {
+    return save(backend)
+  } catch (err) {
+    // A locked or missing keyring shouldn't block setup unless the keychain was asked for
+    if (backend.name !== 'keychain' || isBackendName(getEnvString('PRPAL_SECRET_BACKEND'))) {
+      throw err
+    }
+    warn('Keychain unavailable, storing the GitHub token in an encrypted file', {
+      error: String(err),
+    })
+    return save(getSecretBackend('encrypted-file'))
+  }
+}
+
+/** Default app for device-flow sign-in, when onboarding doesn't name one */
+export function getOAuthClientId(): string | undefined {
+  return getEnvString('GITHUB_OAUTH_CLIENT_ID')
+}
+
+/** Only GitHub Apps need their client secret, and only to refresh a token */
+export function getOAuthClientSecret(): string | undefined {
+  return getEnvString('GITHUB_OAUTH_CLIENT_SECRET')
+}
+
+/** Move a PAT saved in plaintext by an older version into secret storage */
+function migratePlaintextPat(fileConfig: Record<string, unknown>): Record<string, unknown> {
+  const github = fileConfig.github
+  if (!isObject(github) || typeof github.pat !== 'string' || !github.pat) return fileConfig
+
+  try {
+    const patStorage = saveGitHubToken(github.pat)
+    const migrated = { ...fileConfig, github: { ...github, pat: undefined, patStorage } }
+    writeFileSync(CONFIG_FILE, JSON.stringify(migrated, null, 2))
+    info(`Moved the GitHub PAT from settings.json to the ${patStorage} store`)
+    return migrated
+  } catch (err) {
+    warn('Could not move the GitHub PAT out of settings.json', { error: String(err) })
+    return fileConfig
+  }
+}
+
+/** GITHUB_PAT wins; otherwise the stored tokens, which are only read once something needs them */
+function getGitHubSecrets(github: GitHubConfig): GitHubSecrets | null {
+  if (github.pat) return { pat: plainSecret(github.pat) }
+  if (!github.patStorage) return null
+
+  const backend = getSecretBackend(github.patStorage)
+  return {
+    pat: createSecretRef(backend, PAT_SECRET_KEY),
+    refreshToken:
+      github.authMethod === 'oauth'
+        ? createSecretRef(backend, REFRESH_TOKEN_SECRET_KEY)
+        : undefined,
+  }
+}
+
 export function loadConfig(): ResolvedConfig {
-  const fileConfig = loadFromFile() ?? {}
+  const fileConfig = migratePlaintextPat(loadFromFile() ?? {})
   const envConfig = removeUndefined(loadFromEnv())
   const merged = deepMerge(fileConfig, envConfig)
 
@@ -120,7 +238,12 @@ export function loadConfig(): ResolvedConfig {
     throw new ConfigError('Invalid configuration', errors.join('; '))
   }
 
-  return resolveConfig(parsed.data)
+  const secrets = getGitHubSecrets(parsed.data.github)
+  if (!secrets) {
+    throw new ConfigError('Invalid configuration', 'github.pat: GitHub PAT is required')
+  }
+
+  return resolveConfig(parsed.data, secrets)
 }
 
 export function tryLoadConfig(): ResolvedConfig | null {
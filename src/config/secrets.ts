@@ -0,0 +1,202 @@
+/** Secret storage - keeps credentials like the GitHub PAT out of settings.json */
+
+import { execFileSync } from 'node:child_process'
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { delimiter, join } from 'node:path'
+import type { SecretBackendName, SecretRef } from '../types/config.js'
+import { ConfigError } from '../types/errors.js'
+
+const KEYCHAIN_SERVICE = 'prpal'
+const SECRETS_FILE = 'secrets.enc'
+const KEY_FILE = 'secrets.key'
+
+export interface SecretBackend {
+  name: SecretBackendName
+  /** Null when nothing is stored under the key */
+  get(key: string): string | null
+  set(key: string, value: string): void
+}
+
+export interface SecretBackendOptions {
+  /** Where the encrypted-file backend keeps its files */
+  dir: string
+  /** Derives the encrypted-file key; without it a random key file is kept beside the secrets */
+  passphrase?: string
+}
+
+export function createSecretBackend(
+  name: SecretBackendName,
+  options: SecretBackendOptions
+): SecretBackend {
+  return name === 'keychain' ? createKeychainBackend() : createEncryptedFileBackend(options)
+}
+
+/** macOS Keychain, or the Secret Service (GNOME Keyring, KWallet) on a Linux desktop session */
+export function isKeychainAvailable(): boolean {
+  if (process.platform === 'darwin') return hasCommand('security')
+  if (process.platform === 'linux') {
+    return Boolean(process.env.DBUS_SESSION_BUS_ADDRESS) && hasCommand('secret-tool')
+  }
+  return false
+}
+
+/** Reads the secret on first `resolve()` and keeps it in memory from then on */
+export function createSecretRef(backend: SecretBackend, key: string): SecretRef {
+  let value: string | null = null
+
+  return {
+    isSet: true,
+    resolve: () => {
+      value ??= backend.get(key)
+      if (value === null) {
+        throw new ConfigError(`Secret ${key} is missing from the ${backend.name} store`)
+      }
+      return value
+    },
+  }
+}
+
+/** A secret that is already in memory, such as one from an environment variable */
+export function plainSecret(value: string): SecretRef {
+  return { isSet: value !== '', resolve: () => value }
+}
+
+function hasCommand(command: string): boolean {
+  const dirs = (process.env.PATH ?? '').split(delimiter).filter(Boolean)
+  return dirs.some((dir) => existsSync(join(dir, command)))
+}
+
+function createKeychainBackend(): SecretBackend {
+  return process.platform === 'darwin' ? createMacKeychainBackend() : createSecretServiceBackend()
+}
+
+function createMacKeychainBackend(): SecretBackend {
+  return {
+    name: 'keychain',
+    get: (key) => {
+      try {
+        const value = execFileSync(
+          'security',
+          ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', key, '-w'],
+          { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }
+        )
+        return value.replace(/\n$/, '')
+      } catch {
+        return null
+      }
+    },
+    set: (key, value) => {
+      // Interactive mode reads the command from stdin, so the secret never shows up in `ps`
+      const command = ['add-generic-password', '-U', '-s', KEYCHAIN_SERVICE, '-a', key, '-w', value]
+      execFileSync('security', ['-i'], {
+        input: `${command.map(quoteArg).join(' ')}\n`,
+        stdio: ['pipe', 'ignore', 'pipe'],
+      })
+    },
+  }
+}
+
+function quoteArg(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`
+}
+
+function createSecretServiceBackend(): SecretBackend {
+  const attributes = (key: string): string[] => ['service', KEYCHAIN_SERVICE, 'account', key]
+
+  return {
+    name: 'keychain',
+    get: (key) => {
+      try {
+        const value = execFileSync('secret-tool', ['lookup', ...attributes(key)], {
+          encoding: 'utf-8',
+          stdio: ['ignore', 'pipe', 'ignore'],
+        })
+        return value === '' ? null : value
+      } catch {
+        return null
+      }
+    },
+    set: (key, value) => {
+      // secret-tool reads the secret from stdin
+      execFileSync('secret-tool', ['store', `--label=PRPal ${key}`, ...attributes(key)], {
+        input: value,
+        stdio: ['pipe', 'ignore', 'pipe'],
+      })
+    },
+  }
+}
+
+interface EncryptedSecretsFile {
+  version: 1
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+/**
+ * AES-256-GCM file for machines without a keychain, like Linux CI. With a passphrase the key is
+ * derived from it; otherwise it lives in an owner-only key file, which keeps the token out of
+ * settings.json and backups of it but not away from someone who can read the whole directory.
+ */
+function createEncryptedFileBackend({ dir, passphrase }: SecretBackendOptions): SecretBackend {
+  const filePath = join(dir, SECRETS_FILE)
+
+  const getKey = (salt: Buffer): Buffer => {
+    if (passphrase) return scryptSync(passphrase, salt, 32)
+
+    const keyPath = join(dir, KEY_FILE)
+    if (existsSync(keyPath)) return Buffer.from(readFileSync(keyPath, 'utf-8').trim(), 'hex')
+
+    const key = randomBytes(32)
+    writeFileSync(keyPath, key.toString('hex'), { mode: 0o600 })
+    return key
+  }
+
+  const readAll = (): Record<string, string> => {
+    if (!existsSync(filePath)) return {}
+
+    try {
+      const file = JSON.parse(readFileSync(filePath, 'utf-8')) as EncryptedSecretsFile
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        getKey(Buffer.from(file.salt, 'base64')),
+        Buffer.from(file.iv, 'base64')
+      )
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'))
+      const data = Buffer.concat([decipher.update(file.data, 'base64'), decipher.final()])
+      return JSON.parse(data.toString('utf-8')) as Record<string, string>
+    } catch {
+      throw new ConfigError(
+        `Could not decrypt ${filePath}`,
+        'Check PRPAL_SECRETS_PASSPHRASE, or delete the file and enter the token again'
+      )
+    }
+  }
+
+  const writeAll = (secrets: Record<string, string>): void => {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true })
+    }
+
+    const salt = randomBytes(16)
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', getKey(salt), iv)
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()])
+    const file: EncryptedSecretsFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    }
+    writeFileSync(filePath, JSON.stringify(file, null, 2), { mode: 0o600 })
+  }
+
+  return {
+    name: 'encrypted-file',
+    get: (key) => readAll()[key] ?? null,
+    set: (key, value) => writeAll({ ...readAll(), [key]: value }),
+  }
+}
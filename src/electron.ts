@@ -17,18 +17,25 @@ import {
   setReviewClient,
   setPollContext,
 } from './server/index.js'
-import { createGitHubClient } from './services/github/client.js'
+import { createConfiguredGitHubClient } from './services/github/client.js'
 import { detectUserTeams } from './services/github/teamDetector.js'
-import { startPolling, stopPolling } from './services/polling/index.js'
+import { getPRSources, getSourceOwners } from './services/github/prSources.js'
+import { startPolling, stopPolling, setMyPRCallbacks } from './services/polling/index.js'
+import { setAutoReviewCallbacks } from './services/review/index.js'
 import {
   notifyNewPR,
+  notifyPRActivity,
+  notifyMyPRReview,
   notifyMultiplePRs,
+  notifyReviewComplete,
+  notifyReviewError,
   onNotificationClick,
 } from './services/notification/electron.js'
 import { showOnboardingWindow } from './menubar/onboarding.js'
 import { createTrayIcon, updateBadge } from './menubar/tray.js'
 import { createContextMenu } from './menubar/menu.js'
 import { addChangeListener, getNewPRCount } from './services/state/prStore.js'
+import { getApiToken } from './services/state/apiTokenStore.js'
 import { menubar, type Menubar } from 'menubar'
 import type { ResolvedConfig } from './types/config.js'
 
@@ -87,31 +94,45 @@ async function initializeApp(config: ResolvedConfig): Promise<void> {
   initAgentStore()
   initSkillsAndMemories(config.opencode.skillsFolder, config.opencode.memoriesFolder)
 
-  const client = createGitHubClient({ token: config.github.pat })
+  const client = createConfiguredGitHubClient(config.github)
   setGitHubClient(client)
   setReviewClient(client)
 
   try {
-    const userTeams = await detectUserTeams(client, config.github.org)
+    const sources = getPRSources(config.github)
+    const userTeams = await detectUserTeams(client, getSourceOwners(sources))
     info(`Detected ${userTeams.teams.length} teams for user`)
 
     // Set poll context for manual refresh API
-    setPollContext(config.github.org, config.github.username, userTeams)
+    setPollContext(sources, config.github.username, userTeams)
 
     // Start polling
     const notificationOpts = { sound: config.notification.sound }
+    setAutoReviewCallbacks({
+      onComplete: (pr, result) => notifyReviewComplete(pr, result, notificationOpts),
+      onError: (pr, message) => notifyReviewError(pr, message, notificationOpts),
+    })
+    setMyPRCallbacks({
+      onReview: ({ pr, reviewer, state }) =>
+        notifyMyPRReview(pr, reviewer, state, notificationOpts),
+    })
     startPolling(
       client,
-      config.github.org,
+      sources,
       config.github.username,
       userTeams,
       config.polling.intervalMs,
-      (newPRs) => {
-        if (newPRs.length === 0) return
-        if (newPRs.length === 1) {
-          notifyNewPR(newPRs[0]!, notificationOpts)
+      (updates) => {
+        if (updates.length === 0) return
+        if (updates.length === 1) {
+          const { pr, activity } = updates[0]!
+          if (activity?.length) {
+            notifyPRActivity(pr, activity, notificationOpts)
+          } else {
+            notifyNewPR(pr, notificationOpts)
+          }
         } else {
-          notifyMultiplePRs(newPRs.length, notificationOpts)
+          notifyMultiplePRs(updates.length, notificationOpts)
         }
       }
     )
@@ -136,6 +157,7 @@ function createMenubarApp(config: ResolvedConfig): void {
       webPreferences: {
         nodeIntegration: false,
         contextIsolation: true,
+        preload: getPreloadPath(),
       },
     },
     showDockIcon: false,
@@ -197,6 +219,7 @@ function openSettingsWindow(): void {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      preload: getPreloadPath(),
     },
   })
 
@@ -235,6 +258,12 @@ ipcMain.handle('pr:closeAndShowMenubar', (event) => {
   mb?.showWindow()
 })
 
+// Synchronous so the preload script can expose the token before any page script runs
+ipcMain.on('app:getApiToken', (event) => {
+  const url = event.senderFrame?.url ?? ''
+  event.returnValue = url.startsWith('http://localhost:3847/') ? getApiToken() : null
+})
+
 ipcMain.handle('shell:openExternal', (_event, url: string) => {
   void shell.openExternal(url)
 })
@@ -1,13 +1,19 @@
 /** Main entry point for PRPal */
 
 import { loadConfig, tryLoadConfig, hasValidConfig } from './config/env.js'
-import { createGitHubClient } from './services/github/client.js'
+import { createConfiguredGitHubClient } from './services/github/client.js'
 import { detectUserTeams } from './services/github/teamDetector.js'
+import { getPRSources, getSourceOwners, type PRSource } from './services/github/prSources.js'
 import { initAgentStore } from './services/state/agentStore.js'
-import { startPolling, stopPolling } from './services/polling/index.js'
+import { startPolling, stopPolling, setMyPRCallbacks } from './services/polling/index.js'
+import { setAutoReviewCallbacks } from './services/review/index.js'
 import {
   notifyNewPR,
+  notifyPRActivity,
+  notifyMyPRReview,
   notifyMultiplePRs,
+  notifyReviewComplete,
+  notifyReviewError,
   onNotificationClick,
 } from './services/notification/native.js'
 import {
@@ -19,6 +25,7 @@ import {
 } from './server/index.js'
 import { info, warn, error as logError, setLogLevel } from './utils/logger.js'
 import { needsOnboarding } from './services/state/onboardingStore.js'
+import { getApiToken, getApiTokenFilePath } from './services/state/apiTokenStore.js'
 import type { ResolvedConfig } from './types/config.js'
 
 async function main(): Promise<void> {
@@ -29,6 +36,10 @@ async function main(): Promise<void> {
   const server = await createServer(serverConfig)
   await startServer(server, serverConfig)
 
+  // Browsers outside Electron have to be given the token by hand
+  getApiToken()
+  info(`API requests need the token in ${getApiTokenFilePath()}`)
+
   // Check if we need onboarding or have valid config
   const config = tryLoadConfig()
 
@@ -51,14 +62,15 @@ async function initializeWithConfig(
   setLogLevel(config.logLevel)
   initAgentStore()
 
-  const client = createGitHubClient({ token: config.github.pat })
+  const client = createConfiguredGitHubClient(config.github)
   setGitHubClient(client)
   setReviewClient(client)
 
-  const userTeams = await detectUserTeams(client, config.github.org)
+  const sources = getPRSources(config.github)
+  const userTeams = await detectUserTeams(client, getSourceOwners(sources))
   info(`Detected ${userTeams.teams.length} teams for user`)
 
-  setupPolling(client, config, userTeams)
+  setupPolling(client, config, sources, userTeams)
   setupNotificationHandler()
   setupShutdownHandlers(server)
 
@@ -79,24 +91,38 @@ function startConfigWatcher(server: { close: () => Promise<void> }): void {
 }
 
 function setupPolling(
-  client: ReturnType<typeof createGitHubClient>,
+  client: ReturnType<typeof createConfiguredGitHubClient>,
   config: ReturnType<typeof loadConfig>,
+  sources: PRSource[],
   userTeams: Awaited<ReturnType<typeof detectUserTeams>>
 ): void {
-  const { org, username } = config.github
+  const { username } = config.github
   const { intervalMs } = config.polling
   const notificationOpts = { sound: config.notification.sound }
 
   // Set poll context for manual refresh API
-  setPollContext(org, username, userTeams)
+  setPollContext(sources, username, userTeams)
+
+  setAutoReviewCallbacks({
+    onComplete: (pr, result) => notifyReviewComplete(pr, result, notificationOpts),
+    onError: (pr, message) => notifyReviewError(pr, message, notificationOpts),
+  })
+  setMyPRCallbacks({
+    onReview: ({ pr, reviewer, state }) => notifyMyPRReview(pr, reviewer, state, notificationOpts),
+  })
 
-  startPolling(client, org, username, userTeams, intervalMs, (newPRs) => {
-    if (newPRs.length === 0) return
+  startPolling(client, sources, username, userTeams, intervalMs, (updates) => {
+    if (updates.length === 0) return
 
-    if (newPRs.length === 1) {
-      notifyNewPR(newPRs[0]!, notificationOpts)
+    if (updates.length === 1) {
+      const { pr, activity } = updates[0]!
+      if (activity?.length) {
+        notifyPRActivity(pr, activity, notificationOpts)
+      } else {
+        notifyNewPR(pr, notificationOpts)
+      }
     } else {
-      notifyMultiplePRs(newPRs.length, notificationOpts)
+      notifyMultiplePRs(updates.length, notificationOpts)
     }
   })
 }
@@ -28,12 +28,14 @@ export function createContextMenu(actions: MenuActions): Menu {
 function addPRItems(menu: Menu, onShow: () => void): void {
   const states = getAllPRStates()
   const pendingPRs = states.filter((s) => s.status === 'new' || s.status === 'seen')
+  const snoozedCount = states.filter((s) => s.status === 'snoozed').length
 
   if (pendingPRs.length === 0) {
     menu.append(new MenuItem({
       label: 'No PRs pending review',
       enabled: false,
     }))
+    addSnoozedItem(menu, snoozedCount)
     return
   }
 
@@ -51,6 +53,17 @@ function addPRItems(menu: Menu, onShow: () => void): void {
       click: onShow,
     }))
   }
+
+  addSnoozedItem(menu, snoozedCount)
+}
+
+function addSnoozedItem(menu: Menu, count: number): void {
+  if (count === 0) return
+
+  menu.append(new MenuItem({
+    label: `${count} snoozed`,
+    enabled: false,
+  }))
 }
 
 function addStatusItem(menu: Menu): void {
@@ -4,6 +4,9 @@ const { contextBridge, ipcRenderer } = require('electron')
 
 // Expose secure APIs to the renderer
 contextBridge.exposeInMainWorld('electronAPI', {
+  // Token for the local API; every /api request must send it
+  apiToken: ipcRenderer.sendSync('app:getApiToken'),
+
   // Onboarding
   finishOnboarding: (config) => {
     return ipcRenderer.invoke('onboarding:complete', config)
@@ -4,6 +4,9 @@ import { contextBridge, ipcRenderer } from 'electron'
 
 // Expose secure APIs to the renderer
 contextBridge.exposeInMainWorld('electronAPI', {
+  // Token for the local API; every /api request must send it
+  apiToken: ipcRenderer.sendSync('app:getApiToken') as string | null,
+
   // Onboarding
   finishOnboarding: (config?: { pat: string; username: string; org: string }) => {
     return ipcRenderer.invoke('onboarding:complete', config)
@@ -34,6 +37,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
 declare global {
   interface Window {
     electronAPI: {
+      apiToken: string | null
       finishOnboarding: (config?: {
         pat: string
         username: string
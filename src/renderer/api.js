@@ -0,0 +1,29 @@
+// API helpers shared by every page; load before the page's own script
+
+const API_BASE = 'http://localhost:3847'
+
+// Electron windows get the per-install API token from the preload script; in a plain
+// browser it is pasted once from ~/.config/prpal/api-token and kept in localStorage
+function getApiToken() {
+  if (window.electronAPI?.apiToken) return window.electronAPI.apiToken
+  let token = localStorage.getItem('prpalApiToken')
+  if (!token) {
+    token = prompt('Paste the PRPal API token from ~/.config/prpal/api-token') || ''
+    if (token) localStorage.setItem('prpalApiToken', token.trim())
+  }
+  return token.trim()
+}
+
+async function apiFetch(url, options = {}) {
+  const headers = { ...options.headers, Authorization: `Bearer ${getApiToken()}` }
+  const response = await fetch(url, { ...options, headers })
+  // Ask again next time rather than keep sending a stale pasted token
+  if (response.status === 401) localStorage.removeItem('prpalApiToken')
+  return response
+}
+
+// EventSource can't send headers, so the event stream takes the token as a query parameter
+function apiEventSource(params = {}) {
+  const query = new URLSearchParams({ ...params, token: getApiToken() })
+  return new EventSource(`${API_BASE}/api/events?${query}`)
+}
@@ -1,11 +1,12 @@
 /** Fastify server factory */
 
-import Fastify, { type FastifyInstance } from 'fastify'
+import Fastify, { type FastifyInstance, type FastifyReply, type FastifyRequest } from 'fastify'
 import cors from '@fastify/cors'
 import fastifyStatic from '@fastify/static'
 import { join, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { info, error as logError } from '../utils/logger.js'
+import { isValidApiToken } from '../services/state/apiTokenStore.js'
 import { registerHealthRoutes } from './routes/health.js'
 import { registerPRRoutes } from './routes/prs.js'
 import { registerReviewRoutes } from './routes/review.js'
@@ -13,6 +14,7 @@ import { registerOnboardingRoutes } from './routes/onboarding.js'
 import { registerSettingsRoutes } from './routes/settings.js'
 import { registerModelsRoutes } from './routes/models.js'
 import { registerAgentRoutes } from './routes/agents.js'
+import { registerEventRoutes } from './routes/events.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -21,21 +23,23 @@ export interface ServerOptions {
   host: string
 }
 
-export async function createServer(_options: ServerOptions): Promise<FastifyInstance> {
+export async function createServer(options: ServerOptions): Promise<FastifyInstance> {
   const server = Fastify({
     logger: false,
   })
 
-  await registerPlugins(server)
+  await registerPlugins(server, options)
+  registerAuthHook(server)
   registerRoutes(server)
   registerErrorHandler(server)
 
   return server
 }
 
-async function registerPlugins(server: FastifyInstance): Promise<void> {
+async function registerPlugins(server: FastifyInstance, options: ServerOptions): Promise<void> {
+  // Only the app's own pages may call the API from a browser
   await server.register(cors, {
-    origin: true,
+    origin: getAllowedOrigins(options),
     methods: ['GET', 'POST', 'PUT', 'DELETE'],
   })
 
@@ -53,6 +57,36 @@ async function registerPlugins(server: FastifyInstance): Promise<void> {
   })
 }
 
+export function getAllowedOrigins(options: ServerOptions): string[] {
+  const hosts = new Set(['localhost', '127.0.0.1', options.host])
+  return [...hosts].map((host) => `http://${host}:${options.port}`)
+}
+
+/**
+ * Require the per-install token on every /api route so other pages in the browser can't drive the
+ * API. EventSource can't set headers, so the event stream also accepts it as `?token=`.
+ */
+function registerAuthHook(server: FastifyInstance): void {
+  server.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    const path = request.url.split('?')[0] ?? ''
+    if (request.method === 'OPTIONS' || !path.startsWith('/api/')) return
+
+    if (!isValidApiToken(getRequestToken(request, path))) {
+      return reply.status(401).send({ error: 'Unauthorized' })
+    }
+  })
+}
+
+function getRequestToken(request: FastifyRequest, path: string): string | undefined {
+  const header = request.headers.authorization
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length)
+
+  if (path === '/api/events') {
+    return (request.query as { token?: string }).token
+  }
+  return undefined
+}
+
 function registerRoutes(server: FastifyInstance): void {
   registerHealthRoutes(server)
   registerPRRoutes(server)
@@ -61,6 +95,7 @@ function registerRoutes(server: FastifyInstance): void {
   registerSettingsRoutes(server)
   registerModelsRoutes(server)
   registerAgentRoutes(server)
+  registerEventRoutes(server)
 }
 
 interface FastifyError extends Error {
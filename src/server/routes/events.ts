@@ -0,0 +1,104 @@
+/** Server-Sent Events - pushes PR list changes, review progress and streamed AI output */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import type { PRActivity, PRState } from '../../types/pr.js'
+import type { ReviewState } from '../../types/review.js'
+import { addChangeListener, type PRChangeType } from '../../services/state/prStore.js'
+import {
+  addReviewChangeListener,
+  addReviewOutputListener,
+} from '../../services/state/reviewStore.js'
+import { debug } from '../../utils/logger.js'
+
+// Comment lines keep proxies and idle timeouts from closing a quiet stream
+const HEARTBEAT_INTERVAL_MS = 25000
+const RECONNECT_DELAY_MS = 3000
+
+interface PREvent {
+  prId: string
+  change: Exclude<PRChangeType, 'updated'>
+  status: PRState['status']
+  needsMyReview: boolean
+  /** Sent with `pr:activity` */
+  activity?: PRActivity[]
+}
+
+interface ReviewEvent {
+  prId: string
+  status: ReviewState['status']
+  stage?: ReviewState['stage']
+  progress?: number
+  error?: string
+}
+
+interface EventsQuery {
+  /** Only send events for this PR */
+  prId?: string
+}
+
+export function registerEventRoutes(server: FastifyInstance): void {
+  server.get('/api/events', handleEvents)
+}
+
+function handleEvents(
+  request: FastifyRequest<{ Querystring: EventsQuery }>,
+  reply: FastifyReply
+): void {
+  const onlyPrId = request.query.prId
+  const matches = (prId: string): boolean => !onlyPrId || prId === onlyPrId
+
+  // Take the socket over from Fastify, keeping headers set by hooks such as CORS
+  reply.hijack()
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value)
+  }
+  reply.raw.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  })
+  reply.raw.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+  const send = (event: string, data: unknown): void => {
+    reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  const unsubscribers = [
+    addChangeListener((prId, state, change) => {
+      if (change === 'updated' || !matches(prId)) return
+      send(`pr:${change}`, toPREvent(prId, state, change))
+    }),
+    addReviewChangeListener((prId, state) => {
+      if (matches(prId)) send('review:state', toReviewEvent(state))
+    }),
+    addReviewOutputListener((prId, agentId, text) => {
+      if (matches(prId)) send('review:output', { prId, agentId, text })
+    }),
+  ]
+
+  const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+  debug('Event stream opened', { prId: onlyPrId })
+
+  request.raw.on('close', () => {
+    clearInterval(heartbeat)
+    for (const unsubscribe of unsubscribers) unsubscribe()
+    debug('Event stream closed', { prId: onlyPrId })
+  })
+}
+
+function toPREvent(prId: string, state: PRState, change: PREvent['change']): PREvent {
+  const event: PREvent = { prId, change, status: state.status, needsMyReview: state.needsMyReview }
+  if (change === 'activity') event.activity = state.activity
+  return event
+}
+
+/** The result can be large, so a completed event only signals clients to fetch the review */
+function toReviewEvent(state: ReviewState): ReviewEvent {
+  return {
+    prId: state.prId,
+    status: state.status,
+    stage: state.stage,
+    progress: state.progress,
+    error: state.error,
+  }
+}
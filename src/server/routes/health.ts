@@ -1,8 +1,14 @@
 /** Health check routes */
 
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
-import { isPolling, getLastPollTime, getPollCount } from '../../services/polling/index.js'
-import { getPRCount, getNewPRCount } from '../../services/state/prStore.js'
+import {
+  isPolling,
+  getLastPollTime,
+  getNextPollTime,
+  getPollCount,
+} from '../../services/polling/index.js'
+import { getPRCount, getNewPRCount, getSnoozedPRs } from '../../services/state/prStore.js'
+import { getRateLimitBudgets, isBudgetLow } from '../../services/github/rateLimit.js'
 
 interface HealthResponse {
   status: 'ok' | 'degraded'
@@ -11,12 +17,22 @@ interface HealthResponse {
   polling: {
     active: boolean
     lastPoll: string | null
+    nextPoll: string | null
     pollCount: number
   }
   prs: {
     total: number
     new: number
+    snoozed: number
   }
+  rateLimit: {
+    resource: string
+    limit: number
+    remaining: number
+    used: number
+    reset: string
+    low: boolean
+  }[]
 }
 
 export function registerHealthRoutes(server: FastifyInstance): void {
@@ -35,6 +51,7 @@ function handleStatusCheck(_request: FastifyRequest, reply: FastifyReply): void
 
 function buildHealthResponse(): HealthResponse {
   const lastPoll = getLastPollTime()
+  const nextPoll = getNextPollTime()
 
   return {
     status: isPolling() ? 'ok' : 'degraded',
@@ -43,11 +60,21 @@ function buildHealthResponse(): HealthResponse {
     polling: {
       active: isPolling(),
       lastPoll: lastPoll?.toISOString() ?? null,
+      nextPoll: nextPoll?.toISOString() ?? null,
       pollCount: getPollCount(),
     },
     prs: {
       total: getPRCount(),
       new: getNewPRCount(),
+      snoozed: getSnoozedPRs().length,
     },
+    rateLimit: getRateLimitBudgets().map((budget) => ({
+      resource: budget.resource,
+      limit: budget.limit,
+      remaining: budget.remaining,
+      used: budget.used,
+      reset: budget.reset.toISOString(),
+      low: isBudgetLow(budget),
+    })),
   }
 }
@@ -8,9 +8,22 @@ import {
 } from '../../services/state/onboardingStore.js'
 import {
   updateGitHubSettings,
+  updateGitHubOAuthSettings,
   isConfigured,
 } from '../../services/state/settingsStore.js'
 import { detectOpenCode } from '../../services/opencode/detector.js'
+import { createConfiguredGitHubClient } from '../../services/github/client.js'
+import { resolveGitHubHosts } from '../../services/github/hosts.js'
+import {
+  startDeviceFlow,
+  pollDeviceFlow,
+  getDeviceFlowResult,
+  clearDeviceFlow,
+} from '../../services/github/oauth.js'
+import { plainSecret } from '../../config/secrets.js'
+import { getOAuthClientId } from '../../config/env.js'
+import type { GitHubTeam, GitHubUser } from '../../types/github.js'
+import type { GitHubHostConfig } from '../../types/config.js'
 import { info } from '../../utils/logger.js'
 
 export function registerOnboardingRoutes(server: FastifyInstance): void {
@@ -18,24 +31,30 @@ export function registerOnboardingRoutes(server: FastifyInstance): void {
   server.post('/api/onboarding/complete', handleComplete)
   server.post('/api/onboarding/reset', handleReset)
   server.post('/api/onboarding/verify', handleVerify)
+  server.post('/api/onboarding/device', handleStartDevice)
+  server.post('/api/onboarding/device/poll', handlePollDevice)
   server.get('/api/onboarding/opencode', handleCheckOpenCode)
 }
 
 interface OnboardingStatus {
   needsOnboarding: boolean
   isConfigured: boolean
+  /** App used for "Sign in with GitHub" when the request doesn't name one */
+  oauthClientId: string | null
 }
 
 function handleGetStatus(_request: FastifyRequest, reply: FastifyReply): void {
   const status: OnboardingStatus = {
     needsOnboarding: needsOnboarding(),
     isConfigured: isConfigured(),
+    oauthClientId: getOAuthClientId() ?? null,
   }
   void reply.send(status)
 }
 
-interface CompleteBody {
-  pat: string
+interface CompleteBody extends GitHubHostConfig {
+  /** Left out after a device-flow sign-in, whose tokens the server already holds */
+  pat?: string
   username: string
   org: string
 }
@@ -44,14 +63,21 @@ async function handleComplete(
   request: FastifyRequest<{ Body: CompleteBody }>,
   reply: FastifyReply
 ): Promise<void> {
-  const { pat, username, org } = request.body
+  const { pat, username, org, apiUrl, webUrl, caBundlePath } = request.body
+  const signIn = pat ? null : getDeviceFlowResult()
 
-  if (!pat || !username || !org) {
+  if (!(pat || signIn) || !username || !org) {
     void reply.status(400).send({ error: 'Missing required fields' })
     return
   }
 
-  updateGitHubSettings(pat, username, org)
+  const host = { apiUrl, webUrl, caBundlePath }
+  if (pat) {
+    updateGitHubSettings(pat, username, org, host)
+  } else if (signIn) {
+    updateGitHubOAuthSettings(signIn.tokens, signIn.clientId, username, org, host)
+    clearDeviceFlow()
+  }
   markOnboardingComplete()
 
   info('Onboarding completed via API')
@@ -73,8 +99,9 @@ async function handleCheckOpenCode(
   void reply.send(result)
 }
 
-interface VerifyBody {
-  pat: string
+interface VerifyBody extends GitHubHostConfig {
+  /** Defaults to the token from an approved device-flow sign-in */
+  pat?: string
   org: string
 }
 
@@ -82,7 +109,8 @@ async function handleVerify(
   request: FastifyRequest<{ Body: VerifyBody }>,
   reply: FastifyReply
 ): Promise<void> {
-  const { pat, org } = request.body
+  const { pat: sentPat, org, ...host } = request.body
+  const pat = sentPat || getDeviceFlowResult()?.tokens.accessToken
 
   if (!pat || !org) {
     void reply.status(400).send({ error: 'Missing pat or org' })
@@ -90,7 +118,7 @@ async function handleVerify(
   }
 
   try {
-    const result = await verifyGitHubAccess(pat, org)
+    const result = await verifyGitHubAccess(pat, org, host)
     void reply.send(result)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Verification failed'
@@ -98,51 +126,76 @@ async function handleVerify(
   }
 }
 
+interface DeviceBody extends GitHubHostConfig {
+  /** GitHub App or OAuth App client ID; defaults to GITHUB_OAUTH_CLIENT_ID */
+  clientId?: string
+}
+
+async function handleStartDevice(
+  request: FastifyRequest<{ Body: DeviceBody }>,
+  reply: FastifyReply
+): Promise<void> {
+  const { clientId: sentClientId, ...host } = request.body ?? {}
+  const clientId = sentClientId?.trim() || getOAuthClientId()
+
+  if (!clientId) {
+    void reply.status(400).send({ error: 'Missing GitHub App client ID' })
+    return
+  }
+
+  try {
+    void reply.send(await startDeviceFlow(clientId, host))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Could not start sign-in'
+    void reply.status(400).send({ error: message })
+  }
+}
+
+async function handlePollDevice(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  try {
+    void reply.send({ status: await pollDeviceFlow() })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sign-in failed'
+    void reply.status(400).send({ error: message })
+  }
+}
+
 interface VerifyResult {
   tokenValid: boolean
   orgAccess: boolean
   teams: string[]
   username: string
+  webUrl: string
 }
 
-async function verifyGitHubAccess(pat: string, org: string): Promise<VerifyResult> {
-  const headers = {
-    Authorization: `Bearer ${pat}`,
-    Accept: 'application/vnd.github+json',
-    'X-GitHub-Api-Version': '2022-11-28',
-  }
+async function verifyGitHubAccess(
+  pat: string,
+  org: string,
+  host: GitHubHostConfig
+): Promise<VerifyResult> {
+  // Throws on a bad URL, so a typo in the GHES address is reported like a bad token
+  const { webUrl } = resolveGitHubHosts(host)
+  const client = createConfiguredGitHubClient({ pat: plainSecret(pat), ...host })
 
   // Verify token by getting user
-  const userResponse = await fetch('https://api.github.com/user', { headers })
-  if (!userResponse.ok) {
-    throw new Error('Invalid GitHub token')
-  }
-  const user = (await userResponse.json()) as { login: string }
+  const user = await client.get<GitHubUser>('/user')
 
   // Check org access
-  const orgResponse = await fetch(`https://api.github.com/orgs/${org}`, { headers })
-  const orgAccess = orgResponse.ok
+  const orgAccess = await client.get(`/orgs/${org}`).then(
+    () => true,
+    () => false
+  )
 
   // Get teams
-  const teamsResponse = await fetch('https://api.github.com/user/teams', { headers })
-  const teams: string[] = []
-
-  if (teamsResponse.ok) {
-    const teamsData = (await teamsResponse.json()) as Array<{
-      slug: string
-      organization: { login: string }
-    }>
-    teams.push(
-      ...teamsData
-        .filter((t) => t.organization.login.toLowerCase() === org.toLowerCase())
-        .map((t) => t.slug)
-    )
-  }
+  const teams = await client.getAll<GitHubTeam>('/user/teams').catch(() => [])
 
   return {
     tokenValid: true,
     orgAccess,
-    teams,
+    teams: teams
+      .filter((t) => t.organization.login.toLowerCase() === org.toLowerCase())
+      .map((t) => t.slug),
     username: user.login,
+    webUrl,
   }
 }
@@ -1,36 +1,57 @@
 /** Pull Request routes */
 
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
-import type { PRListItem, PRWithDetails, PullRequest } from '../../types/pr.js'
+import type {
+  MyPRListItem,
+  MyPRState,
+  PRListItem,
+  PRState,
+  PRWithDetails,
+  PullRequest,
+  SnoozeCondition,
+} from '../../types/pr.js'
 import {
   getPRState,
   updatePRStatus,
+  snoozePR,
+  getSnoozedPRs,
   getMyReviewPRs,
   getOtherPRs,
   getUserTeams,
 } from '../../services/state/prStore.js'
+import { hasNewActivity } from '../../services/state/prActivity.js'
+import { getAllMyPRs } from '../../services/state/myPRStore.js'
 import { getReviewState } from '../../services/state/reviewStore.js'
+import { getGitHubUsername, getPriorityConfig } from '../../services/state/settingsStore.js'
 import { fetchPRDiff, fetchPRFiles, fetchPRChecks } from '../../services/github/diffFetcher.js'
 import type { GitHubClient } from '../../services/github/client.js'
-import type { UserTeams } from '../../services/github/teamDetector.js'
+import { getTeamKey, type UserTeams } from '../../services/github/teamDetector.js'
+import type { PRSource } from '../../services/github/prSources.js'
 import { pollNow } from '../../services/polling/index.js'
+import { scorePRPriority, sortByPriority } from '../../services/github/priority.js'
+import { summarizeReviewState } from '../../services/github/authoredPRs.js'
+import { getRepoReviewAgent, getRepoReviewFormat } from '../../services/review/repoPolicy.js'
 import { info } from '../../utils/logger.js'
 
 interface PRContext {
   client: GitHubClient | null
-  org: string | null
+  sources: PRSource[] | null
   username: string | null
   userTeams: UserTeams | null
 }
 
-const context: PRContext = { client: null, org: null, username: null, userTeams: null }
+const context: PRContext = { client: null, sources: null, username: null, userTeams: null }
 
 export function setGitHubClient(client: GitHubClient): void {
   context.client = client
 }
 
-export function setPollContext(org: string, username: string, userTeams: UserTeams): void {
-  context.org = org
+export function setPollContext(
+  sources: PRSource[],
+  username: string,
+  userTeams: UserTeams
+): void {
+  context.sources = sources
   context.username = username
   context.userTeams = userTeams
 }
@@ -42,10 +63,11 @@ export function registerPRRoutes(server: FastifyInstance): void {
   server.post('/api/prs/:id/seen', handleMarkSeen)
   server.post('/api/prs/:id/dismiss', handleDismiss)
   server.post('/api/prs/:id/reviewed', handleMarkReviewed)
+  server.post('/api/prs/:id/snooze', handleSnooze)
 }
 
 async function handleRefresh(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
-  if (!context.client || !context.org || !context.username || !context.userTeams) {
+  if (!context.client || !context.sources || !context.username || !context.userTeams) {
     void reply.status(500).send({ error: 'Poll context not initialized' })
     return
   }
@@ -53,27 +75,59 @@ async function handleRefresh(_request: FastifyRequest, reply: FastifyReply): Pro
   info('Manual refresh triggered via API')
 
   try {
-    const prs = await pollNow(context.client, context.org, context.username, context.userTeams)
+    const prs = await pollNow(
+      context.client,
+      context.sources,
+      context.username,
+      context.userTeams
+    )
     void reply.send({ success: true, count: prs.length })
   } catch (error) {
     void reply.status(500).send({ error: 'Failed to refresh PRs' })
   }
 }
 
-function handleListPRs(_request: FastifyRequest, reply: FastifyReply): void {
-  const myReviewStates = getMyReviewPRs()
-  const otherStates = getOtherPRs()
+interface ListPRsQuery {
+  org?: string
+  /** `mine` lists the PRs I authored instead of the review queue */
+  view?: string
+}
+
+function handleListPRs(
+  request: FastifyRequest<{ Querystring: ListPRsQuery }>,
+  reply: FastifyReply
+): void {
+  const { view } = request.query
+  if (view === 'mine') {
+    listMyPRs(request.query.org?.toLowerCase(), reply)
+    return
+  }
+  if (view !== undefined) {
+    void reply.status(400).send({ error: 'Unknown view, expected mine' })
+    return
+  }
+
+  // Snoozed PRs stay hidden, and only counted, until the scheduler wakes them
+  const myReviewStates = getMyReviewPRs().filter((s) => s.status !== 'snoozed')
+  const otherStates = getOtherPRs().filter((s) => s.status !== 'snoozed')
+  const snoozedCount = getSnoozedPRs().length
   const userTeams = getUserTeams()
 
-  const myReviewItems = myReviewStates.map(mapToListItem)
-  const otherItems = otherStates.map(mapToListItem)
+  // Org options come from every PR so the picker keeps its choices while filtered
+  const orgs = [...new Set([...myReviewStates, ...otherStates].map((s) => s.pr.repository.owner))]
+  const org = request.query.org?.toLowerCase()
+  const inOrg = (item: PRListItem): boolean => !org || item.org.toLowerCase() === org
+
+  const toItem = (state: PRState): PRListItem => mapToListItem(state, userTeams)
+  const myReviewItems = sortByPriority(myReviewStates.map(toItem).filter(inOrg))
+  const otherItems = sortByPriority(otherStates.map(toItem).filter(inOrg))
   const allItems = [...myReviewItems, ...otherItems]
 
   // Filter "my team" PRs - PRs requesting review from user's teams (but not directly from user)
   const myReviewIds = new Set(myReviewItems.map((p) => p.id))
   const myTeamItems = otherItems.filter((pr) => {
     if (myReviewIds.has(pr.id)) return false // Already in myReview
-    return pr.requestedTeams.some((team) => userTeams.includes(team))
+    return pr.requestedTeams.some((team) => userTeams.includes(getTeamKey(pr.org, team)))
   })
   const myTeamIds = new Set(myTeamItems.map((p) => p.id))
 
@@ -93,8 +147,10 @@ function handleListPRs(_request: FastifyRequest, reply: FastifyReply): void {
     total: allItems.length,
     myReviewCount: myReviewItems.length,
     myTeamCount: myTeamItems.length,
+    snoozedCount,
     userTeams,
     filters: {
+      orgs: orgs.sort(),
       repositories,
       reviewers,
       teams,
@@ -102,9 +158,13 @@ function handleListPRs(_request: FastifyRequest, reply: FastifyReply): void {
   })
 }
 
-function mapToListItem(state: ReturnType<typeof getPRState>): PRListItem {
-  const pr = state!.pr
+function mapToListItem(state: PRState, userTeams: string[]): PRListItem {
+  const pr = state.pr
   const review = getReviewState(pr.id)
+  const priority = scorePRPriority(pr, state.signals, getPriorityConfig(), {
+    username: getGitHubUsername(),
+    teamKeys: userTeams,
+  })
 
   return {
     id: pr.id,
@@ -113,18 +173,53 @@ function mapToListItem(state: ReturnType<typeof getPRState>): PRListItem {
     author: pr.author.login,
     authorAvatar: pr.author.avatar_url,
     repository: pr.repository.fullName,
+    org: pr.repository.owner,
     updatedAt: pr.updatedAt,
-    reviewStatus: mapReviewStatus(state!.status, review?.status),
-    hasNewActivity: state!.status === 'new',
-    needsMyReview: state!.needsMyReview,
+    reviewStatus: mapReviewStatus(state.status, review?.status),
+    hasNewActivity: hasNewActivity(state),
+    needsMyReview: state.needsMyReview,
     htmlUrl: pr.htmlUrl,
     requestedReviewers: pr.requestedReviewers.map((r) => r.login),
     requestedTeams: pr.requestedTeams.map((t) => t.slug),
+    priority,
+    activity: state.activity ?? [],
+  }
+}
+
+/** Only PRs the poll has fetched reviews and checks for are listed */
+function listMyPRs(org: string | undefined, reply: FastifyReply): void {
+  const states = getAllMyPRs()
+  const orgs = [...new Set(states.map((s) => s.pr.repository.owner))].sort()
+
+  const items = states
+    .map(mapToMyPRItem)
+    .filter((item) => !org || item.org.toLowerCase() === org)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+
+  void reply.send({ prs: items, total: items.length, filters: { orgs } })
+}
+
+function mapToMyPRItem(state: MyPRState): MyPRListItem {
+  const pr = state.pr
+
+  return {
+    id: pr.id,
+    number: pr.number,
+    title: pr.title,
+    repository: pr.repository.fullName,
+    org: pr.repository.owner,
+    htmlUrl: pr.htmlUrl,
+    draft: pr.draft,
+    updatedAt: pr.updatedAt,
+    reviewState: summarizeReviewState(state.reviewers),
+    reviewers: state.reviewers,
+    ci: state.ci,
+    hasConflicts: state.mergeable === false,
   }
 }
 
 type PRStatus = 'pending' | 'reviewing' | 'reviewed'
-type StateStatus = 'new' | 'seen' | 'reviewing' | 'reviewed' | 'dismissed'
+type StateStatus = 'new' | 'seen' | 'reviewing' | 'reviewed' | 'dismissed' | 'snoozed'
 type ReviewStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | undefined
 
 function mapReviewStatus(prStatus: StateStatus, reviewStatus: ReviewStatus): PRStatus {
@@ -150,7 +245,14 @@ async function handleGetPR(
   }
 
   const details = await fetchPRDetails(state.pr)
-  void reply.send(details)
+  const { fullName } = state.pr.repository
+  void reply.send({
+    ...details,
+    reviewPolicy: {
+      agentId: getRepoReviewAgent(fullName).id,
+      reviewFormat: getRepoReviewFormat(fullName),
+    },
+  })
 }
 
 async function fetchPRDetails(
@@ -194,3 +296,42 @@ function handleMarkReviewed(
   updatePRStatus(decodeURIComponent(id), 'reviewed')
   void reply.send({ success: true })
 }
+
+const SNOOZE_CONDITIONS: SnoozeCondition[] = ['new-commits', 'ci-passes']
+
+interface SnoozeBody {
+  /** ISO timestamp */
+  until?: string
+  condition?: SnoozeCondition
+}
+
+function handleSnooze(
+  request: FastifyRequest<{ Params: PRParams; Body: SnoozeBody | undefined }>,
+  reply: FastifyReply
+): void {
+  const { until, condition } = request.body ?? {}
+
+  if (!until && !condition) {
+    void reply.status(400).send({ error: 'Provide until or condition' })
+    return
+  }
+
+  const untilDate = until ? new Date(until) : undefined
+  if (untilDate && (isNaN(untilDate.getTime()) || untilDate <= new Date())) {
+    void reply.status(400).send({ error: 'until must be a future ISO timestamp' })
+    return
+  }
+
+  if (condition && !SNOOZE_CONDITIONS.includes(condition)) {
+    void reply.status(400).send({ error: 'condition must be new-commits or ci-passes' })
+    return
+  }
+
+  const snooze = snoozePR(decodeURIComponent(request.params.id), { until: untilDate, condition })
+  if (!snooze) {
+    void reply.status(404).send({ error: 'PR not found' })
+    return
+  }
+
+  void reply.send({ success: true, snooze })
+}
@@ -1,25 +1,23 @@
 /** Review routes - AI review and posting endpoints */
 
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
-import type { PostReviewRequest, ReviewResult } from '../../types/review.js'
+import type { PostReviewRequest } from '../../types/review.js'
+import type { ReviewAgent } from '../../types/agent.js'
 import type { GitHubClient } from '../../services/github/client.js'
-import { getPRState, updatePRStatus } from '../../services/state/prStore.js'
+import { ReviewInProgressError } from '../../types/errors.js'
+import { getPRState } from '../../services/state/prStore.js'
 import {
   getReviewState,
-  setReviewInProgress,
-  setReviewCompleted,
-  setReviewFailed,
   setReviewCancelled,
-  updateReviewStage,
-  setInlineComments,
   getInlineComments,
 } from '../../services/state/reviewStore.js'
-import { getAgent, getDefaultAgent } from '../../services/state/agentStore.js'
-import { getConfiguredModel, getReviewTimeout } from '../../services/state/settingsStore.js'
-import { reviewPullRequest, cancelReview } from '../../services/opencode/reviewer.js'
-import { fetchPRDiff, fetchPRFiles } from '../../services/github/diffFetcher.js'
-import { prepareInlineComments } from '../../services/github/inlineCommentPreparer.js'
+import { getReviewHistory } from '../../services/state/reviewHistoryStore.js'
+import { getAgent } from '../../services/state/agentStore.js'
+import { cancelReview } from '../../services/opencode/reviewer.js'
 import { postReviewToGitHub } from '../../services/github/reviewPoster.js'
+import { getPreviousReview, getReviewAgentId } from '../../services/review/pipeline.js'
+import { startReviewJob, getReviewJob } from '../../services/review/jobRunner.js'
+import { getRepoReviewAgent, getRepoReviewFormat } from '../../services/review/repoPolicy.js'
 import { info } from '../../utils/logger.js'
 
 interface ReviewContext {
@@ -35,6 +33,7 @@ export function setReviewClient(client: GitHubClient): void {
 export function registerReviewRoutes(server: FastifyInstance): void {
   server.post('/api/review/:prId', handleStartReview)
   server.get('/api/review/:prId', handleGetReview)
+  server.get('/api/review/:prId/history', handleGetReviewHistory)
   server.post('/api/review/:prId/cancel', handleCancelReview)
   server.post('/api/review/:prId/post', handlePostReview)
 }
@@ -45,12 +44,15 @@ interface ReviewParams {
 
 interface StartReviewBody {
   agentId?: string
+  /** Run several agents in parallel and merge their results; takes precedence over agentId */
+  agentIds?: string[]
+  incremental?: boolean
 }
 
-async function handleStartReview(
+function handleStartReview(
   request: FastifyRequest<{ Params: ReviewParams; Body: StartReviewBody }>,
   reply: FastifyReply
-): Promise<void> {
+): void {
   const prId = decodeURIComponent(request.params.prId)
   const state = getPRState(prId)
 
@@ -64,109 +66,39 @@ async function handleStartReview(
     return
   }
 
-  const agentId = request.body?.agentId
-  const agent = agentId ? getAgent(agentId) : getDefaultAgent()
+  const agentIds = request.body?.agentIds?.length
+    ? [...new Set(request.body.agentIds)]
+    : [request.body?.agentId]
+  const agents = agentIds.map((id) =>
+    id ? getAgent(id) : getRepoReviewAgent(state.pr.repository.fullName)
+  )
+  const panel = agents.filter(isReviewAgent)
 
-  if (!agent) {
+  if (panel.length < agents.length) {
     void reply.status(400).send({ error: 'Agent not found' })
     return
   }
 
-  const result = await executeReview(prId, agent, context.client)
-  void reply.send(result)
-}
-
-async function executeReview(
-  prId: string,
-  agent: ReturnType<typeof getAgent>,
-  client: GitHubClient
-): Promise<ReviewResult> {
-  const prState = getPRState(prId)!
-  const pr = prState.pr
-  const { owner, name } = pr.repository
-
-  // Use model from settings, fallback to agent's model
-  const configuredModel = getConfiguredModel()
-  const timeoutMs = getReviewTimeout()
-
-  info(`[Review] Starting review for PR #${pr.number}`, { 
-    prId, 
-    repo: pr.repository.fullName,
-    agent: agent!.id,
-    agentName: agent!.name,
-    model: configuredModel,
-    agentModel: agent!.model,
-    timeoutMs,
-  })
-  setReviewInProgress(prId, 'starting')
-  updatePRStatus(prId, 'reviewing')
+  const incremental = request.body?.incremental ?? false
+  const previousReview = incremental ? getPreviousReview(prId, getReviewAgentId(panel)) : undefined
+  if (previousReview?.headSha === state.pr.head.sha) {
+    void reply.status(409).send({ error: 'No new commits since the last review' })
+    return
+  }
 
   try {
-    // Stage: Fetching diff
-    info(`[Review] Fetching diff for PR #${pr.number}`)
-    updateReviewStage(prId, 'fetching_diff')
-    const diff = await fetchPRDiff(client, owner, name, pr.number)
-    info(`[Review] Diff fetched`, { 
-      prNumber: pr.number,
-      diffBytes: diff.length,
-      diffLines: diff.split('\n').length,
-    })
-
-    // Stage: Analyzing with AI
-    info(`[Review] Starting AI analysis`, {
-      prNumber: pr.number,
-      model: configuredModel,
-      agent: agent!.id,
-    })
-    updateReviewStage(prId, 'analyzing')
-    
-    const result = await reviewPullRequest(pr, { 
-      agent: agent!, 
-      diff,
-      model: configuredModel,
-      timeoutMs,
-      onProgress: (stage) => {
-        info(`[Review] Progress: ${stage}`, { prNumber: pr.number, model: configuredModel })
-        if (stage === 'generating') updateReviewStage(prId, 'generating')
-        if (stage === 'parsing') updateReviewStage(prId, 'parsing')
-      },
-    })
-
-    info(`[Review] Completed for PR #${pr.number}`, { 
-      model: configuredModel,
-      verdict: result.output.verdict,
-      issues: result.output.issues.length,
-      suggestions: result.output.suggestions.length,
-      duration: result.duration,
-      durationSec: Math.round(result.duration / 1000) + 's',
-    })
-    setReviewCompleted(prId, result)
-    updatePRStatus(prId, 'reviewed')
-
-    // Prepare inline comments from issues
-    const files = await fetchPRFiles(client, owner, name, pr.number)
-    const inlineComments = prepareInlineComments(result.output.issues, files)
-    setInlineComments(prId, inlineComments)
-    info(`[Review] Inline comments prepared`, {
-      prNumber: pr.number,
-      total: inlineComments.length,
-      valid: inlineComments.filter((c) => c.isValid).length,
-    })
-
-    return result
+    const job = startReviewJob(prId, panel, context.client, { incremental })
+    void reply.status(202).send(job)
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Review failed'
-    if (message === 'Review cancelled') {
-      info(`[Review] Cancelled for PR #${pr.number}`, { model: configuredModel })
-      setReviewCancelled(prId)
-    } else {
-      info(`[Review] Failed for PR #${pr.number}`, { error: message, model: configuredModel })
-      setReviewFailed(prId, message)
-    }
-    throw error
+    if (!(error instanceof ReviewInProgressError)) throw error
+    void reply.status(409).send({ error: 'Review already in progress', jobId: error.jobId })
   }
 }
 
+function isReviewAgent(agent: ReviewAgent | undefined): agent is ReviewAgent {
+  return agent !== undefined
+}
+
 function handleCancelReview(
   request: FastifyRequest<{ Params: ReviewParams }>,
   reply: FastifyReply
@@ -195,7 +127,19 @@ function handleGetReview(
     return
   }
 
-  void reply.send(reviewState)
+  void reply.send({ ...reviewState, job: getReviewJob(prId) })
+}
+
+function handleGetReviewHistory(
+  request: FastifyRequest<{ Params: ReviewParams }>,
+  reply: FastifyReply
+): void {
+  const prId = decodeURIComponent(request.params.prId)
+
+  // Raw responses can be large; the detail view only needs the parsed output
+  const reviews = getReviewHistory(prId).map(({ rawResponse: _raw, ...review }) => review)
+
+  void reply.send({ prId, reviews, total: reviews.length })
 }
 
 async function handlePostReview(
@@ -226,7 +170,7 @@ async function handlePostReview(
     prState.pr,
     review,
     action,
-    formatOptions,
+    formatOptions ?? getRepoReviewFormat(prState.pr.repository.fullName),
     editedBody,
     inlineComments,
     selectedIndices
@@ -1,14 +1,30 @@
 /** Settings routes - get and update app configuration */
 
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import {
+  GitHubConfigSchema,
+  PriorityConfigSchema,
+  RulesConfigSchema,
+  type FetchStrategy,
+  type GitHubHostConfig,
+  type PriorityConfig,
+  type ResolvedConfig,
+  type RulesConfig,
+} from '../../types/config.js'
 import {
   getSettings,
   updateGitHubSettings,
+  updateGitHubHost,
+  updateGitHubSources,
   updatePollingSettings,
+  updateFetchStrategy,
   updateOpenCodeSettings,
   updateOpenCodeFolders,
+  updateAutoReviewLimits,
   updateNotificationSettings,
   updateReviewFormatSettings,
+  updateRulesSettings,
+  updatePrioritySettings,
 } from '../../services/state/settingsStore.js'
 import { initSkillsAndMemories } from '../../services/opencode/skills.js'
 import { info } from '../../utils/logger.js'
@@ -21,24 +37,37 @@ export function registerSettingsRoutes(server: FastifyInstance): void {
   server.put('/api/settings/opencode', handleUpdateOpenCode)
   server.put('/api/settings/notifications', handleUpdateNotifications)
   server.put('/api/settings/review-format', handleUpdateReviewFormat)
+  server.put('/api/settings/rules', handleUpdateRules)
+  server.put('/api/settings/priority', handleUpdatePriority)
+}
+
+// Sent in place of a secret; sending it back means "keep the saved value"
+const REDACTED = '***configured***'
+
+type RedactedSettings = Omit<ResolvedConfig, 'github'> & {
+  github: Omit<ResolvedConfig['github'], 'pat' | 'refreshToken'> & { pat: string }
+}
+
+/** Settings as the renderer sees them: secrets only show whether they are set */
+export function redactSettings(settings: ResolvedConfig): RedactedSettings {
+  const { refreshToken: _refreshToken, ...github } = settings.github
+  return {
+    ...settings,
+    github: { ...github, pat: github.pat.isSet ? REDACTED : '' },
+  }
+}
+
+function isNewSecret(value: string | undefined): value is string {
+  return Boolean(value) && value !== REDACTED
 }
 
 function handleGetSettings(_request: FastifyRequest, reply: FastifyReply): void {
   try {
-    const settings = getSettings()
-    // Don't expose the full PAT, just indicate if it's set
-    const safeSettings = {
-      ...settings,
-      github: {
-        ...settings.github,
-        pat: settings.github.pat ? '***configured***' : '',
-      },
-    }
-    void reply.send(safeSettings)
+    void reply.send(redactSettings(getSettings()))
   } catch {
     void reply.send({
       github: { pat: '', username: '', org: '' },
-      polling: { intervalMs: 300000 },
+      polling: { intervalMs: 300000, strategy: 'rest' },
       opencode: { enabled: true, model: 'anthropic/claude-sonnet-4-20250514', autoReview: true },
       notification: { enabled: true, sound: true },
       reviewFormat: { style: 'standard', attribution: 'subtle' },
@@ -47,11 +76,21 @@ function handleGetSettings(_request: FastifyRequest, reply: FastifyReply): void
 }
 
 interface UpdateAllBody {
-  github?: { pat?: string; username?: string; org?: string }
-  polling?: { intervalMs?: number }
-  opencode?: { enabled?: boolean; model?: string; autoReview?: boolean; skillsFolder?: string; memoriesFolder?: string }
+  github?: { pat?: string; username?: string; org?: string; sources?: unknown } & GitHubHostConfig
+  polling?: { intervalMs?: number; strategy?: string }
+  opencode?: {
+    enabled?: boolean
+    model?: string
+    autoReview?: boolean
+    autoReviewConcurrency?: number
+    autoReviewMaxLines?: number
+    skillsFolder?: string
+    memoriesFolder?: string
+  }
   notification?: { enabled?: boolean; sound?: boolean }
   reviewFormat?: { style?: string; attribution?: string }
+  rules?: Partial<RulesConfig>
+  priority?: PriorityUpdate
 }
 
 async function handleUpdateSettings(
@@ -60,14 +99,58 @@ async function handleUpdateSettings(
 ): Promise<void> {
   const body = request.body
 
-  if (body.github?.pat && body.github?.username && body.github?.org) {
+  const host = body.github && hasHostFields(body.github) ? parseHostFields(body.github) : undefined
+  if (host === null) {
+    void reply.status(400).send({ error: 'Invalid GitHub host URL' })
+    return
+  }
+
+  const sources = body.github?.sources !== undefined ? parseSources(body.github.sources) : undefined
+  if (sources === null) {
+    void reply.status(400).send({ error: 'Sources must be org names or owner/repo' })
+    return
+  }
+
+  const rules = body.rules ? parseRules(body.rules) : undefined
+  if (rules && !rules.success) {
+    void reply.status(400).send({ error: 'Invalid rules', details: rules.error })
+    return
+  }
+
+  const priority = body.priority ? parsePriority(body.priority) : undefined
+  if (priority && !priority.success) {
+    void reply.status(400).send({ error: 'Invalid priority settings', details: priority.error })
+    return
+  }
+
+  if (isNewSecret(body.github?.pat) && body.github?.username && body.github?.org) {
     updateGitHubSettings(body.github.pat, body.github.username, body.github.org)
   }
 
+  if (host) {
+    updateGitHubHost(host)
+  }
+
+  if (sources) {
+    updateGitHubSources(sources)
+  }
+
+  if (rules?.success) {
+    updateRulesSettings(rules.data)
+  }
+
+  if (priority?.success) {
+    updatePrioritySettings(priority.data)
+  }
+
   if (body.polling?.intervalMs) {
     updatePollingSettings(body.polling.intervalMs)
   }
 
+  if (isFetchStrategy(body.polling?.strategy)) {
+    updateFetchStrategy(body.polling.strategy)
+  }
+
   if (body.opencode) {
     const current = getSettings().opencode
     updateOpenCodeSettings(
@@ -75,7 +158,17 @@ async function handleUpdateSettings(
       body.opencode.model ?? current.model,
       body.opencode.autoReview ?? current.autoReview
     )
-    
+
+    if (
+      body.opencode.autoReviewConcurrency !== undefined ||
+      body.opencode.autoReviewMaxLines !== undefined
+    ) {
+      updateAutoReviewLimits(
+        body.opencode.autoReviewConcurrency ?? current.autoReviewConcurrency,
+        body.opencode.autoReviewMaxLines ?? current.autoReviewMaxLines
+      )
+    }
+
     // Handle folder paths separately and reinitialize skills
     if (body.opencode.skillsFolder !== undefined || body.opencode.memoriesFolder !== undefined) {
       const skillsFolder = body.opencode.skillsFolder ?? current.skillsFolder
@@ -102,24 +195,68 @@ async function handleUpdateSettings(
   void reply.send({ success: true })
 }
 
-interface GitHubBody {
+interface GitHubBody extends GitHubHostConfig {
   pat: string
   username: string
   org: string
+  sources?: unknown
+}
+
+const SourcesSchema = GitHubConfigSchema.shape.sources.unwrap()
+
+function parseSources(value: unknown): string[] | null {
+  const parsed = SourcesSchema.safeParse(value)
+  return parsed.success ? parsed.data : null
+}
+
+function hasHostFields(body: GitHubHostConfig): boolean {
+  return body.apiUrl !== undefined || body.webUrl !== undefined || body.caBundlePath !== undefined
+}
+
+const GitHubHostSchema = GitHubConfigSchema.pick({ apiUrl: true, webUrl: true, caBundlePath: true })
+
+/**
+ * Host fields that were sent, with the rest kept from the saved settings. Blank fields fall back
+ * to github.com; returns null when a URL is malformed so it never reaches the settings file.
+ */
+function parseHostFields(body: GitHubHostConfig): GitHubHostConfig | null {
+  const current = getSettings().github
+  const parsed = GitHubHostSchema.safeParse({
+    apiUrl: (body.apiUrl ?? current.apiUrl) || undefined,
+    webUrl: (body.webUrl ?? current.webUrl) || undefined,
+    caBundlePath: (body.caBundlePath ?? current.caBundlePath) || undefined,
+  })
+  return parsed.success ? parsed.data : null
 }
 
 function handleUpdateGitHub(
   request: FastifyRequest<{ Body: GitHubBody }>,
   reply: FastifyReply
 ): void {
-  const { pat, username, org } = request.body
-  updateGitHubSettings(pat, username, org)
+  const { username, org } = request.body
+  const pat = isNewSecret(request.body.pat) ? request.body.pat : null
+  const host = parseHostFields(request.body)
+  if (!host) {
+    void reply.status(400).send({ error: 'Invalid GitHub host URL' })
+    return
+  }
+
+  const { sources: rawSources } = request.body
+  const sources = rawSources !== undefined ? parseSources(rawSources) : undefined
+  if (sources === null) {
+    void reply.status(400).send({ error: 'Sources must be org names or owner/repo' })
+    return
+  }
+
+  updateGitHubSettings(pat, username, org, host)
+  if (sources) updateGitHubSources(sources)
   info('GitHub settings updated')
   void reply.send({ success: true })
 }
 
 interface PollingBody {
   intervalMs: number
+  strategy?: string
 }
 
 function handleUpdatePolling(
@@ -127,6 +264,9 @@ function handleUpdatePolling(
   reply: FastifyReply
 ): void {
   updatePollingSettings(request.body.intervalMs)
+  if (isFetchStrategy(request.body.strategy)) {
+    updateFetchStrategy(request.body.strategy)
+  }
   info('Polling settings updated')
   void reply.send({ success: true })
 }
@@ -175,3 +315,75 @@ function handleUpdateReviewFormat(
   info('Review format settings updated')
   void reply.send({ success: true })
 }
+
+function isFetchStrategy(value: unknown): value is FetchStrategy {
+  return value === 'rest' || value === 'graphql'
+}
+
+type ParsedRules = { success: true; data: RulesConfig } | { success: false; error: string }
+
+/** Validate a partial update merged over the saved rules, so omitted fields keep their values */
+function parseRules(body: Partial<RulesConfig>): ParsedRules {
+  const parsed = RulesConfigSchema.safeParse({ ...getSettings().rules, ...body })
+  if (parsed.success) return { success: true, data: parsed.data }
+
+  const issues = parsed.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`)
+  return { success: false, error: issues.join('; ') }
+}
+
+function handleUpdateRules(
+  request: FastifyRequest<{ Body: Partial<RulesConfig> }>,
+  reply: FastifyReply
+): void {
+  const rules = parseRules(request.body ?? {})
+  if (!rules.success) {
+    void reply.status(400).send({ error: 'Invalid rules', details: rules.error })
+    return
+  }
+
+  updateRulesSettings(rules.data)
+  info('Repo rules updated')
+  void reply.send({ success: true })
+}
+
+type PriorityUpdate = Omit<Partial<PriorityConfig>, 'weights'> & {
+  weights?: Partial<NonNullable<PriorityConfig['weights']>>
+}
+
+type ParsedPriority =
+  | { success: true; data: Required<PriorityConfig> }
+  | { success: false; error: string }
+
+/** Like `parseRules`, down to single weights: the ones left out keep their saved values */
+function parsePriority(body: PriorityUpdate): ParsedPriority {
+  const current = getSettings().priority
+  const parsed = PriorityConfigSchema.safeParse({
+    ...current,
+    ...body,
+    weights: { ...current.weights, ...body.weights },
+  })
+  if (parsed.success) {
+    return {
+      success: true,
+      data: { ...parsed.data, weights: parsed.data.weights ?? current.weights },
+    }
+  }
+
+  const issues = parsed.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`)
+  return { success: false, error: issues.join('; ') }
+}
+
+function handleUpdatePriority(
+  request: FastifyRequest<{ Body: PriorityUpdate }>,
+  reply: FastifyReply
+): void {
+  const priority = parsePriority(request.body ?? {})
+  if (!priority.success) {
+    void reply.status(400).send({ error: 'Invalid priority settings', details: priority.error })
+    return
+  }
+
+  updatePrioritySettings(priority.data)
+  info('Priority weights updated')
+  void reply.send({ success: true })
+}
@@ -0,0 +1,61 @@
+/** Authored PRs - reviewer verdicts, CI and merge conflicts for the PRs I opened */
+
+import type { GitHubClient } from './client.js'
+import type { GitHubPullRequest, GitHubReview } from '../../types/github.js'
+import type { MyPRState, PullRequest, ReviewerState, ReviewerStatus } from '../../types/pr.js'
+import { fetchPRChecks } from './diffFetcher.js'
+import { getCIState, getLatestVerdicts } from './prSignals.js'
+import { debug } from '../../utils/logger.js'
+
+export async function fetchAuthoredPRState(
+  client: GitHubClient,
+  pr: PullRequest
+): Promise<MyPRState> {
+  const { owner, name } = pr.repository
+  debug('Fetching authored PR state', { prId: pr.id })
+
+  // Lists and search results leave out `mergeable`, so the PR itself is read too
+  const [reviews, checks, detail] = await Promise.all([
+    client.getAll<GitHubReview>(`/repos/${owner}/${name}/pulls/${pr.number}/reviews`),
+    fetchPRChecks(client, owner, name, pr.head.sha),
+    client.get<GitHubPullRequest>(`/repos/${owner}/${name}/pulls/${pr.number}`),
+  ])
+
+  return {
+    pr,
+    reviewers: getReviewerStatuses(pr, reviews),
+    ci: getCIState(checks),
+    mergeable: detail.mergeable ?? null,
+    headSha: pr.head.sha,
+    fetchedAt: new Date(),
+  }
+}
+
+/**
+ * Each reviewer's latest verdict, with outstanding requests as pending. Re-requesting a review
+ * puts the reviewer back in `requestedReviewers`, so that wins over their older verdict.
+ */
+export function getReviewerStatuses(pr: PullRequest, reviews: GitHubReview[]): ReviewerStatus[] {
+  const statuses = new Map<string, ReviewerStatus>()
+
+  for (const [login, verdict] of getLatestVerdicts(reviews)) {
+    if (verdict === 'APPROVED') statuses.set(login, { login, state: 'approved' })
+    if (verdict === 'CHANGES_REQUESTED') statuses.set(login, { login, state: 'changes_requested' })
+  }
+  for (const { login } of pr.requestedReviewers) {
+    statuses.set(login, { login, state: 'pending' })
+  }
+  for (const { slug } of pr.requestedTeams) {
+    statuses.set(`team:${slug}`, { login: slug, state: 'pending', team: true })
+  }
+
+  return [...statuses.values()]
+}
+
+/** One blocking review outweighs any number of approvals */
+export function summarizeReviewState(reviewers: ReviewerStatus[]): ReviewerState | 'none' {
+  if (reviewers.length === 0) return 'none'
+  if (reviewers.some((r) => r.state === 'changes_requested')) return 'changes_requested'
+  if (reviewers.some((r) => r.state === 'pending')) return 'pending'
+  return 'approved'
+}
@@ -1,16 +1,30 @@
 /** GitHub API HTTP client */
 
-import { ofetch } from 'ofetch'
+import { ofetch, type FetchContext } from 'ofetch'
 import { GitHubError } from '../../types/errors.js'
 import { withRetry, isRetryableError } from '../../utils/retry.js'
-import { debug } from '../../utils/logger.js'
+import { debug, warn } from '../../utils/logger.js'
 import type { GitHubRateLimit } from '../../types/github.js'
+import type { ResolvedGitHubConfig } from '../../types/config.js'
+import { recordRateLimit, getRetryAfterMs } from './rateLimit.js'
+import { refreshGitHubToken } from './oauth.js'
+import { GITHUB_API_BASE, getCaDispatcher, getGraphQLUrl, resolveGitHubHosts } from './hosts.js'
 
-const GITHUB_API_BASE = 'https://api.github.com'
+const PAGE_SIZE = 100
+// Guards against Link loops; the largest lists we fetch (PR files) cap out at 30 pages
+const MAX_PAGES = 100
+// Waits longer than this fail the request instead; the scheduler backs off until the reset
+const MAX_RATE_LIMIT_WAIT_MS = 60000
+// Conditional requests answered with 304 don't count against the rate limit
+const MAX_CACHE_ENTRIES = 200
 
 export interface GitHubClientConfig {
   token: string
   baseUrl?: string
+  /** PEM file with extra certificates to trust, for GHES behind a private CA */
+  caBundlePath?: string
+  /** Get a new token when GitHub rejects the current one; the request is then retried once */
+  refreshToken?: () => Promise<string>
 }
 
 export interface RequestOptions {
@@ -20,6 +34,10 @@ export interface RequestOptions {
 export interface GitHubClient {
   get: <T>(path: string, options?: RequestOptions) => Promise<T>
   post: <T>(path: string, body?: unknown, options?: RequestOptions) => Promise<T>
+  /** Yield each page of a list endpoint, following `Link: rel="next"` */
+  paginate: <T>(path: string, options?: RequestOptions) => AsyncGenerator<T>
+  /** Fetch every page of an endpoint that returns an array */
+  getAll: <T>(path: string, options?: RequestOptions) => Promise<T[]>
   getRateLimit: () => Promise<GitHubRateLimit>
 }
 
@@ -31,11 +49,57 @@ function createHeaders(token: string): Record<string, string> {
   }
 }
 
+interface CacheEntry {
+  etag?: string
+  lastModified?: string
+  data: unknown
+  next: string | null
+}
+
+function getErrorResponse(error: unknown): Response | undefined {
+  if (error && typeof error === 'object' && 'response' in error) {
+    return (error as { response?: Response }).response
+  }
+  return undefined
+}
+
+/** Wait before retrying a primary or secondary rate limit response, if it is one */
+function getRateLimitRetryMs(error: unknown): number | undefined {
+  const response = getErrorResponse(error)
+  if (!response || (response.status !== 403 && response.status !== 429)) return undefined
+  return getRetryAfterMs(response.headers)
+}
+
+function getCacheKey(url: string, query?: RequestOptions['query']): string {
+  if (!query) return url
+  const params = new URLSearchParams(Object.entries(query).map(([k, v]) => [k, String(v)]))
+  return `${url}?${params.toString()}`
+}
+
+function createConditionalHeaders(entry?: CacheEntry): Record<string, string> {
+  if (!entry) return {}
+  if (entry.etag) return { 'If-None-Match': entry.etag }
+  if (entry.lastModified) return { 'If-Modified-Since': entry.lastModified }
+  return {}
+}
+
 function handleGitHubError(error: unknown, path: string): never {
+  // Failed token refreshes are already reported in GitHub terms
+  if (error instanceof GitHubError) throw error
+
   if (error && typeof error === 'object' && 'status' in error) {
     const status = (error as { status: number }).status
     const message = (error as { message?: string }).message ?? 'GitHub API error'
 
+    const retryAfterMs = getRateLimitRetryMs(error)
+    if (retryAfterMs !== undefined) {
+      throw new GitHubError(
+        'GitHub API rate limit exceeded',
+        status,
+        new Date(Date.now() + retryAfterMs)
+      )
+    }
+
     if (status === 401) {
       throw new GitHubError('Invalid GitHub token', status)
     }
@@ -55,9 +119,78 @@ function handleGitHubError(error: unknown, path: string): never {
   throw new GitHubError(String(error))
 }
 
+/** Extract the `rel="next"` URL from a GitHub `Link` header */
+export function parseNextLink(header: string | null): string | null {
+  if (!header) return null
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/)
+    if (match) return match[1]
+  }
+
+  return null
+}
+
 export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
   const baseUrl = config.baseUrl ?? GITHUB_API_BASE
-  const headers = createHeaders(config.token)
+  const graphqlUrl = getGraphQLUrl(baseUrl)
+  let headers = createHeaders(config.token)
+  let refreshing: Promise<string> | null = null
+  const cache = new Map<string, CacheEntry>()
+
+  const dispatcher = config.caBundlePath ? getCaDispatcher(config.caBundlePath) : undefined
+
+  // `/graphql` isn't under the REST base on GHES
+  const resolveUrl = (path: string): string =>
+    path === '/graphql' ? graphqlUrl : `${baseUrl}${path}`
+
+  const retryOptions = {
+    maxRetries: 3,
+    shouldRetry: (err: unknown) => {
+      const retryAfterMs = getRateLimitRetryMs(err)
+      if (retryAfterMs !== undefined) {
+        return retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS
+      }
+      return isRetryableError(err)
+    },
+    getDelayMs: getRateLimitRetryMs,
+  }
+
+  // Requests that fail together share one refresh, since each refresh token only works once
+  const withTokenRefresh = async <T>(send: () => Promise<T>): Promise<T> => {
+    const sentHeaders = headers
+    try {
+      return await send()
+    } catch (error) {
+      if (!config.refreshToken || getErrorResponse(error)?.status !== 401) throw error
+
+      if (headers === sentHeaders) {
+        refreshing ??= config.refreshToken().finally(() => {
+          refreshing = null
+        })
+        headers = createHeaders(await refreshing)
+        debug('GitHub token refreshed, retrying request')
+      }
+      return send()
+    }
+  }
+
+  const onResponse = ({ response }: FetchContext): void => {
+    if (response) recordRateLimit(response.headers)
+  }
+
+  const storeInCache = (key: string, response: Response, data: unknown, next: string | null) => {
+    const etag = response.headers.get('etag') ?? undefined
+    const lastModified = response.headers.get('last-modified') ?? undefined
+    if (!etag && !lastModified) return
+
+    // Re-inserting keeps the map ordered by last use, so the oldest entry is evicted first
+    cache.delete(key)
+    cache.set(key, { etag, lastModified, data, next })
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value as string)
+    }
+  }
 
   const request = async <T>(
     method: 'GET' | 'POST',
@@ -65,37 +198,111 @@ export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
     body?: unknown,
     options?: RequestOptions
   ): Promise<T> => {
-    const url = `${baseUrl}${path}`
+    const url = resolveUrl(path)
+    const cacheKey = method === 'GET' ? getCacheKey(url, options?.query) : null
+    const cached = cacheKey ? cache.get(cacheKey) : undefined
+    const last: { response?: Response } = {}
     debug(`GitHub ${method} ${path}`)
 
     try {
-      return await withRetry(
-        () =>
-          ofetch<T>(url, {
-            method,
-            headers,
-            body: body ? JSON.stringify(body) : undefined,
-            query: options?.query,
-          }),
-        {
-          maxRetries: 3,
-          shouldRetry: (err) => {
-            if (err instanceof GitHubError && err.statusCode === 429) {
-              return true
-            }
-            return isRetryableError(err)
-          },
-        }
+      const data = await withTokenRefresh(() =>
+        withRetry(
+          () =>
+            ofetch<T>(url, {
+              method,
+              headers: { ...headers, ...createConditionalHeaders(cached) },
+              body: body ? JSON.stringify(body) : undefined,
+              query: options?.query,
+              dispatcher,
+              onResponse: (context) => {
+                last.response = context.response
+                onResponse(context)
+              },
+            }),
+          retryOptions
+        )
       )
+
+      if (last.response?.status === 304 && cached) {
+        debug(`GitHub ${path} not modified`)
+        return cached.data as T
+      }
+      if (cacheKey && last.response) storeInCache(cacheKey, last.response, data, null)
+      return data
     } catch (error) {
       handleGitHubError(error, path)
     }
   }
 
+  const requestPage = async <T>(
+    url: string,
+    path: string,
+    query?: RequestOptions['query']
+  ): Promise<{ data: T; next: string | null }> => {
+    const cacheKey = getCacheKey(url, query)
+    const cached = cache.get(cacheKey)
+    debug(`GitHub GET ${path} (page)`)
+
+    try {
+      const response = await withTokenRefresh(() =>
+        withRetry(
+          () =>
+            ofetch.raw<T>(url, {
+              method: 'GET',
+              headers: { ...headers, ...createConditionalHeaders(cached) },
+              query,
+              dispatcher,
+              onResponse,
+            }),
+          retryOptions
+        )
+      )
+
+      if (response.status === 304 && cached) {
+        debug(`GitHub ${path} page not modified`)
+        return { data: cached.data as T, next: cached.next }
+      }
+
+      const next = parseNextLink(response.headers.get('link'))
+      storeInCache(cacheKey, response, response._data, next)
+      return { data: response._data as T, next }
+    } catch (error) {
+      handleGitHubError(error, path)
+    }
+  }
+
+  async function* paginate<T>(path: string, options?: RequestOptions): AsyncGenerator<T> {
+    // The next link already carries the query, including page and per_page
+    let page = await requestPage<T>(resolveUrl(path), path, {
+      per_page: PAGE_SIZE,
+      ...options?.query,
+    })
+    yield page.data
+
+    for (let count = 1; page.next; count++) {
+      if (count >= MAX_PAGES) {
+        warn(`GitHub pagination stopped after ${MAX_PAGES} pages`, { path })
+        return
+      }
+      page = await requestPage<T>(page.next, path)
+      yield page.data
+    }
+  }
+
   return {
     get: <T>(path: string, options?: RequestOptions) =>
       request<T>('GET', path, undefined, options),
 
+    paginate,
+
+    getAll: async <T>(path: string, options?: RequestOptions): Promise<T[]> => {
+      const items: T[] = []
+      for await (const page of paginate<T[]>(path, options)) {
+        items.push(...page)
+      }
+      return items
+    },
+
     post: <T>(path: string, body?: unknown, options?: RequestOptions) =>
       request<T>('POST', path, body, options),
 
@@ -105,3 +312,18 @@ export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
     },
   }
 }
+
+/**
+ * Client for the configured host: github.com, or a GHES instance when its URLs are set. Tokens
+ * from a device-flow sign-in are refreshed when they expire.
+ */
+export function createConfiguredGitHubClient(
+  config: Pick<ResolvedGitHubConfig, 'pat' | 'authMethod' | 'apiUrl' | 'webUrl' | 'caBundlePath'>
+): GitHubClient {
+  return createGitHubClient({
+    token: config.pat.resolve(),
+    baseUrl: resolveGitHubHosts(config).apiUrl,
+    caBundlePath: config.caBundlePath,
+    refreshToken: config.authMethod === 'oauth' ? refreshGitHubToken : undefined,
+  })
+}
@@ -1,10 +1,14 @@
 /** Diff fetching service - fetches PR diffs and file changes */
 
 import type { GitHubClient } from './client.js'
-import type { GitHubFile, GitHubCheckRun } from '../../types/github.js'
+import type { GitHubFile, GitHubCheckRun, GitHubCompare } from '../../types/github.js'
 import type { PRFile, PRCheck } from '../../types/pr.js'
+import { GitHubError } from '../../types/errors.js'
 import { debug } from '../../utils/logger.js'
 
+// Compare lists at most this many files, with no way to page through the rest
+const MAX_COMPARE_FILES = 300
+
 export async function fetchPRDiff(
   client: GitHubClient,
   owner: string,
@@ -27,10 +31,41 @@ export async function fetchPRFiles(
 ): Promise<PRFile[]> {
   debug('Fetching PR files', { owner, repo, prNumber })
 
-  const files = await client.get<GitHubFile[]>(
-    `/repos/${owner}/${repo}/pulls/${prNumber}/files`
+  const files = await client.getAll<GitHubFile>(`/repos/${owner}/${repo}/pulls/${prNumber}/files`)
+
+  return files.map(mapGitHubFileToPRFile)
+}
+
+/**
+ * Fetch the files changed between two commits, e.g. the previously reviewed head and the current
+ * head. Throws when that isn't the full change since `base`: `head` no longer descends from it
+ * after a force push or rebase, or the file list was cut off.
+ */
+export async function fetchCompareFiles(
+  client: GitHubClient,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<PRFile[]> {
+  debug('Fetching compare files', { owner, repo, base, head })
+
+  // Compare pages through commits, not files, so a single request returns every file it lists
+  const response = await client.get<GitHubCompare>(
+    `/repos/${owner}/${repo}/compare/${base}...${head}`
   )
 
+  if (response.status !== 'ahead' && response.status !== 'identical') {
+    throw new GitHubError(`${head} is ${response.status} from ${base}, not ahead of it`)
+  }
+
+  const files = response.files ?? []
+  if (files.length >= MAX_COMPARE_FILES) {
+    throw new GitHubError(
+      `Compare of ${base}...${head} lists ${files.length} files and may be cut off`
+    )
+  }
+
   return files.map(mapGitHubFileToPRFile)
 }
 
@@ -42,11 +77,15 @@ export async function fetchPRChecks(
 ): Promise<PRCheck[]> {
   debug('Fetching PR checks', { owner, repo, ref })
 
-  const response = await client.get<{ check_runs: GitHubCheckRun[] }>(
+  const checks: PRCheck[] = []
+  const pages = client.paginate<{ check_runs: GitHubCheckRun[] }>(
     `/repos/${owner}/${repo}/commits/${ref}/check-runs`
   )
+  for await (const page of pages) {
+    checks.push(...page.check_runs.map(mapGitHubCheckToPRCheck))
+  }
 
-  return response.check_runs.map(mapGitHubCheckToPRCheck)
+  return checks
 }
 
 function mapGitHubFileToPRFile(file: GitHubFile): PRFile {
@@ -67,7 +106,7 @@ function mapGitHubCheckToPRCheck(check: GitHubCheckRun): PRCheck {
   }
 }
 
-function formatFilesAsDiff(files: PRFile[]): string {
+export function formatFilesAsDiff(files: PRFile[]): string {
   return files
     .filter((f) => f.patch)
     .map((f) => `--- a/${f.filename}\n+++ b/${f.filename}\n${f.patch}`)
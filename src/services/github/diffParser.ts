@@ -1,8 +1,15 @@
 /** Diff parser - extracts valid line numbers from diff patches */
 
+import type { DiffSide } from '../../types/review.js'
+
 export interface DiffLineInfo {
+  /** New-file line; for deleted lines, the new-file line they were removed before */
   lineNumber: number
+  /** Old-file line; for added lines, the old-file line they were inserted before */
+  oldLineNumber: number
   type: 'add' | 'delete' | 'context' | 'hunk'
+  /** Line text without the diff marker; empty for hunk headers */
+  content: string
 }
 
 export interface LineValidation {
@@ -19,12 +26,14 @@ export function parseDiffPatch(patch: string): DiffLineInfo[] {
   const lines = patch.split('\n')
   const result: DiffLineInfo[] = []
   let newLine = 0
+  let oldLine = 0
 
   for (const line of lines) {
-    const parsed = parseSingleLine(line, newLine)
+    const parsed = parseSingleLine(line, newLine, oldLine)
     if (parsed) {
       result.push(parsed.info)
       newLine = parsed.nextNewLine
+      oldLine = parsed.nextOldLine
     }
   }
 
@@ -34,49 +43,190 @@ export function parseDiffPatch(patch: string): DiffLineInfo[] {
 interface ParsedLine {
   info: DiffLineInfo
   nextNewLine: number
+  nextOldLine: number
 }
 
-function parseSingleLine(line: string, currentNewLine: number): ParsedLine | null {
+function parseSingleLine(
+  line: string,
+  currentNewLine: number,
+  currentOldLine: number
+): ParsedLine | null {
+  const info = (type: DiffLineInfo['type']): DiffLineInfo => ({
+    lineNumber: currentNewLine,
+    oldLineNumber: currentOldLine,
+    type,
+    content: line.slice(1),
+  })
+
   // Hunk header: @@ -10,6 +20,8 @@
   if (line.startsWith('@@')) {
-    const match = line.match(/@@ -\d+,?\d* \+(\d+),?\d* @@/)
-    const newStart = match ? parseInt(match[1], 10) : currentNewLine
-    return { info: { lineNumber: newStart, type: 'hunk' }, nextNewLine: newStart }
+    const match = line.match(/@@ -(\d+),?\d* \+(\d+),?\d* @@/)
+    const oldStart = match ? parseInt(match[1], 10) : currentOldLine
+    const newStart = match ? parseInt(match[2], 10) : currentNewLine
+    return {
+      info: { lineNumber: newStart, oldLineNumber: oldStart, type: 'hunk', content: '' },
+      nextNewLine: newStart,
+      nextOldLine: oldStart,
+    }
   }
 
   // Skip file headers
   if (line.startsWith('---') || line.startsWith('+++')) return null
   if (line.startsWith('\\')) return null // "No newline at end of file"
 
-  // Added line
+  // Added line (only exists in the new file)
   if (line.startsWith('+')) {
-    return {
-      info: { lineNumber: currentNewLine, type: 'add' },
-      nextNewLine: currentNewLine + 1,
-    }
+    return { info: info('add'), nextNewLine: currentNewLine + 1, nextOldLine: currentOldLine }
   }
 
-  // Deleted line (doesn't increment new line counter)
+  // Deleted line (only exists in the old file)
   if (line.startsWith('-')) {
-    return {
-      info: { lineNumber: currentNewLine, type: 'delete' },
-      nextNewLine: currentNewLine,
-    }
+    return { info: info('delete'), nextNewLine: currentNewLine, nextOldLine: currentOldLine + 1 }
   }
 
   // Context line
   return {
-    info: { lineNumber: currentNewLine, type: 'context' },
+    info: info('context'),
     nextNewLine: currentNewLine + 1,
+    nextOldLine: currentOldLine + 1,
+  }
+}
+
+/**
+ * Get all valid line numbers for inline comments: add + context lines on the RIGHT (new file),
+ * delete + context lines on the LEFT (old file)
+ */
+export function getValidLineNumbers(patch: string, side: DiffSide = 'RIGHT'): number[] {
+  return parseDiffPatch(patch).flatMap((l) => {
+    const lineNumber = getSideLineNumber(l, side)
+    return lineNumber === null ? [] : [lineNumber]
+  })
+}
+
+/** The line's number in the file `side` shows, or null when it isn't on that side */
+function getSideLineNumber(line: DiffLineInfo, side: DiffSide): number | null {
+  if (line.type === 'hunk') return null
+  if (side === 'LEFT') return line.type === 'add' ? null : line.oldLineNumber
+  return line.type === 'delete' ? null : line.lineNumber
+}
+
+export interface HunkRange {
+  start: number
+  end: number
+}
+
+interface SideLine {
+  lineNumber: number
+  content: string
+}
+
+/** Lines of each hunk on one side of the diff, numbered in that side's file */
+function getSideHunks(patch: string, side: DiffSide): SideLine[][] {
+  const hunks: SideLine[][] = []
+  let current: SideLine[] | null = null
+
+  for (const line of parseDiffPatch(patch)) {
+    if (line.type === 'hunk') {
+      current = null
+      continue
+    }
+
+    const lineNumber = getSideLineNumber(line, side)
+    if (lineNumber === null) continue
+    if (!current) {
+      current = []
+      hunks.push(current)
+    }
+    current.push({ lineNumber, content: line.content })
   }
+
+  return hunks
+}
+
+/** First and last line of each hunk on one side of the diff */
+export function getHunkRanges(patch: string, side: DiffSide = 'RIGHT'): HunkRange[] {
+  return getSideHunks(patch, side).map((lines) => ({
+    start: lines[0].lineNumber,
+    end: lines[lines.length - 1].lineNumber,
+  }))
+}
+
+/** Whether lines `start` through `end` all fall in one hunk, as a multi-line comment needs */
+export function isRangeInOneHunk(
+  start: number,
+  end: number,
+  patch: string,
+  side: DiffSide = 'RIGHT'
+): boolean {
+  if (end < start) return false
+  return getHunkRanges(patch, side).some((hunk) => hunk.start <= start && end <= hunk.end)
+}
+
+export interface AnchorMatch {
+  /** Line the first line of the anchor matched */
+  line: number
+  /** Index of the hunk in `getHunkRanges()` */
+  hunk: number
+  /** 0-1 similarity between the anchor and the diff lines it matched */
+  confidence: number
+}
+
+/**
+ * Score every line on one side of the diff as the start of an anchor snippet, ignoring
+ * whitespace differences. A multi-line anchor must fit in one hunk to score fully.
+ */
+export function findAnchorMatches(
+  anchor: string,
+  patch: string,
+  side: DiffSide = 'RIGHT'
+): AnchorMatch[] {
+  const anchorLines = anchor.split('\n').map(normalizeCode).filter(Boolean)
+  if (anchorLines.length === 0) return []
+
+  return getSideHunks(patch, side).flatMap((lines, hunk) =>
+    lines.map((line, i) => {
+      const total = anchorLines.reduce(
+        (sum, anchorLine, j) => sum + scoreLine(anchorLine, normalizeCode(lines[i + j]?.content)),
+        0
+      )
+      const confidence = Math.round((total / anchorLines.length) * 100) / 100
+      return { line: line.lineNumber, hunk, confidence }
+    })
+  )
+}
+
+function normalizeCode(code: string | undefined): string {
+  return (code ?? '').trim().replace(/\s+/g, ' ')
 }
 
-/** Get all valid line numbers for inline comments (add + context lines only) */
-export function getValidLineNumbers(patch: string): number[] {
-  const lines = parseDiffPatch(patch)
-  return lines
-    .filter((l) => l.type === 'add' || l.type === 'context')
-    .map((l) => l.lineNumber)
+/** 1 for the same code, high for a fragment of the line, otherwise shared character pairs */
+function scoreLine(anchor: string, line: string): number {
+  if (!line) return 0
+  if (anchor === line) return 1
+  if (line.includes(anchor)) return 0.8 + (0.2 * anchor.length) / line.length
+  return diceCoefficient(anchor, line)
+}
+
+function diceCoefficient(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return 0
+
+  const pairs = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const pair = a.slice(i, i + 2)
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1)
+  }
+
+  let shared = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2)
+    const count = pairs.get(pair) ?? 0
+    if (count > 0) {
+      pairs.set(pair, count - 1)
+      shared++
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length - 2)
 }
 
 /** Find the closest valid line at or before the requested line */
@@ -87,8 +237,12 @@ export function findClosestLineBefore(line: number, validLines: number[]): numbe
 }
 
 /** Validate a line number against a diff patch */
-export function validateLine(line: number, patch: string): LineValidation {
-  const validLines = getValidLineNumbers(patch)
+export function validateLine(
+  line: number,
+  patch: string,
+  side: DiffSide = 'RIGHT'
+): LineValidation {
+  const validLines = getValidLineNumbers(patch, side)
 
   // Exact match
   if (validLines.includes(line)) {
@@ -0,0 +1,94 @@
+/** GitHub hosts - API, GraphQL and web URLs for github.com or a GitHub Enterprise Server */
+
+import { readFileSync } from 'node:fs'
+import tls from 'node:tls'
+import { Agent, type Dispatcher } from 'undici'
+import type { GitHubConfig } from '../../types/config.js'
+import { ConfigError } from '../../types/errors.js'
+import { debug } from '../../utils/logger.js'
+
+export const GITHUB_API_BASE = 'https://api.github.com'
+export const GITHUB_WEB_BASE = 'https://github.com'
+
+// GHES serves REST under /api/v3 and GraphQL under /api/graphql on the web host
+const GHES_REST_PATH = '/api/v3'
+const GHES_GRAPHQL_PATH = '/api/graphql'
+
+export interface GitHubHosts {
+  apiUrl: string
+  webUrl: string
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+function isDotCom(url: string): boolean {
+  const host = new URL(url).hostname
+  return host === 'github.com' || host === 'api.github.com'
+}
+
+/**
+ * Fill in whichever of the API and web URLs is missing from the other, so a GHES user only has
+ * to enter the address they open in the browser.
+ */
+export function resolveGitHubHosts(config: Pick<GitHubConfig, 'apiUrl' | 'webUrl'>): GitHubHosts {
+  const apiUrl = config.apiUrl ? trimTrailingSlash(config.apiUrl) : undefined
+  const webUrl = config.webUrl ? trimTrailingSlash(config.webUrl) : undefined
+
+  if (apiUrl && webUrl) return { apiUrl, webUrl }
+
+  if (webUrl) {
+    return { apiUrl: isDotCom(webUrl) ? GITHUB_API_BASE : `${webUrl}${GHES_REST_PATH}`, webUrl }
+  }
+
+  if (apiUrl) {
+    const derived = isDotCom(apiUrl)
+      ? GITHUB_WEB_BASE
+      : apiUrl.endsWith(GHES_REST_PATH)
+        ? apiUrl.slice(0, -GHES_REST_PATH.length)
+        : new URL(apiUrl).origin
+    return { apiUrl, webUrl: derived }
+  }
+
+  return { apiUrl: GITHUB_API_BASE, webUrl: GITHUB_WEB_BASE }
+}
+
+/** GraphQL lives beside the REST API on github.com but not under /api/v3 on GHES */
+export function getGraphQLUrl(apiUrl: string): string {
+  const base = trimTrailingSlash(apiUrl)
+  if (base.endsWith(GHES_REST_PATH)) {
+    return `${base.slice(0, -GHES_REST_PATH.length)}${GHES_GRAPHQL_PATH}`
+  }
+  return `${base}/graphql`
+}
+
+const caDispatchers = new Map<string, Dispatcher>()
+
+/**
+ * Connection pool that trusts the certificates in a PEM bundle on top of the usual roots, for
+ * GHES instances signed by a private CA. Requests are given it as their `dispatcher`; the
+ * process-wide CA store can't be changed after startup on the runtimes we support.
+ */
+export function getCaDispatcher(path: string): Dispatcher {
+  const existing = caDispatchers.get(path)
+  if (existing) return existing
+
+  let pem: string
+  try {
+    pem = readFileSync(path, 'utf-8')
+  } catch (error) {
+    throw new ConfigError(`Cannot read CA bundle: ${path}`, String(error))
+  }
+
+  const certs = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? []
+  if (certs.length === 0) {
+    throw new ConfigError(`No certificates found in CA bundle: ${path}`)
+  }
+
+  // `ca` replaces the default roots, so they are passed along to keep github.com working
+  const dispatcher = new Agent({ connect: { ca: [...tls.rootCertificates, ...certs] } })
+  caDispatchers.set(path, dispatcher)
+  debug(`Loaded ${certs.length} certificate(s) from CA bundle`, { path })
+  return dispatcher
+}
@@ -1,8 +1,17 @@
 /** GitHub services barrel export */
 
 export * from './client.js'
+export * from './oauth.js'
+export * from './hosts.js'
+export * from './rateLimit.js'
 export * from './teamDetector.js'
 export * from './prFetcher.js'
+export * from './prSources.js'
+export * from './prSearch.js'
 export * from './diffFetcher.js'
 export * from './reviewFilter.js'
+export * from './prSignals.js'
+export * from './priority.js'
+export * from './authoredPRs.js'
+export * from './repoRules.js'
 export * from './reviewPoster.js'
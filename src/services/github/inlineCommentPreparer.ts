@@ -1,8 +1,18 @@
 /** Inline comment preparer - validates AI issues against diff and prepares InlineCommentState[] */
 
 import type { PRFile } from '../../types/pr.js'
-import type { ReviewIssue, InlineCommentState } from '../../types/review.js'
-import { validateLine } from './diffParser.js'
+import type { DiffSide, ReviewIssue, InlineCommentState } from '../../types/review.js'
+import {
+  findAnchorMatches,
+  getHunkRanges,
+  isRangeInOneHunk,
+  validateLine,
+  type AnchorMatch,
+  type LineValidation,
+} from './diffParser.js'
+
+/** Anchor matches weaker than this are not trusted to place a comment */
+const MIN_ANCHOR_CONFIDENCE = 0.85
 
 /** Prepare inline comments from AI review issues */
 export function prepareInlineComments(
@@ -40,19 +50,174 @@ function prepareComment(
     return createInvalidComment(issue, issueIndex, 'Binary file, no diff available')
   }
 
-  // Validate line against diff
-  const validation = validateLine(issue.line, file.patch)
+  // Place the comment by its anchor snippet, or else by line number
+  const side = issue.side ?? 'RIGHT'
+  const placement = placeComment(issue.line, issue.anchor, file.patch, side)
 
-  return {
+  const comment: InlineCommentState = {
     issue,
     file: issue.file,
     requestedLine: issue.line,
-    actualLine: validation.actualLine,
-    isValid: validation.isValid,
-    warning: validation.warning,
-    selected: validation.isValid, // Only pre-select valid comments
+    actualLine: placement.actualLine,
+    isValid: placement.isValid,
+    warning: placement.warning,
+    // Only pre-select valid comments that stayed with the code they were raised on
+    selected: placement.isValid && !placement.snapped,
     issueIndex,
   }
+  if (placement.confidence !== undefined) comment.confidence = placement.confidence
+
+  if (placement.isValid && issue.endLine && issue.endLine > issue.line) {
+    // A range moves along with the anchor that placed its first line
+    const endLine = issue.endLine + placement.actualLine - issue.line
+    applyRange(comment, endLine, file.patch, side, placement.onTarget)
+  }
+
+  if (placement.isValid && issue.replacement !== undefined) {
+    applySuggestion(comment, placement.onTarget)
+  }
+
+  return comment
+}
+
+interface Placement extends LineValidation {
+  /** The comment is on the line the AI meant: its own line, or where its anchor matched */
+  onTarget: boolean
+  confidence?: number
+  /** Moved by line number alone to the closest earlier diff line, which is in another hunk */
+  snapped?: boolean
+}
+
+/**
+ * Put the comment where its anchor matches best within the hunk of the requested line. A match
+ * only found in another hunk is reported rather than followed, since the line number and the
+ * snippet disagree about which change the issue is about.
+ */
+function placeComment(
+  line: number,
+  anchor: string | undefined,
+  patch: string,
+  side: DiffSide
+): Placement {
+  const validation = snapLine(line, patch, side)
+  const onLine = validation.isValid && validation.actualLine === line
+  if (!anchor) return { ...validation, onTarget: onLine }
+
+  const matches = findAnchorMatches(anchor, patch, side)
+  const hunk = getHunkRanges(patch, side).findIndex((h) => h.start <= line && line <= h.end)
+  const best = pickBestMatch(
+    matches.filter((m) => hunk === -1 || m.hunk === hunk),
+    line
+  )
+
+  if (best && best.confidence >= MIN_ANCHOR_CONFIDENCE) {
+    return {
+      requestedLine: line,
+      isValid: true,
+      actualLine: best.line,
+      onTarget: true,
+      confidence: best.confidence,
+      warning:
+        best.line === line ? undefined : `Line ${line} moved to line ${best.line} by snippet`,
+    }
+  }
+
+  const elsewhere = hunk === -1 ? null : pickBestMatch(matches, line)
+  if (elsewhere && elsewhere.confidence >= MIN_ANCHOR_CONFIDENCE) {
+    return {
+      requestedLine: line,
+      isValid: false,
+      actualLine: line,
+      onTarget: false,
+      confidence: elsewhere.confidence,
+      warning: `Snippet matches line ${elsewhere.line} in another hunk, not moved there`,
+    }
+  }
+
+  // No usable match: keep the line-based placement, scored by how well the snippet fits there
+  const here = matches.find((m) => m.line === validation.actualLine)
+  const confidence = here?.confidence ?? 0
+  return {
+    ...validation,
+    onTarget: onLine && confidence >= MIN_ANCHOR_CONFIDENCE,
+    confidence,
+  }
+}
+
+/**
+ * Hunks cover unbroken runs of lines, so a line outside the diff can only be moved to the end of
+ * an earlier hunk, about different code. Such a comment is kept for review but not pre-selected.
+ */
+function snapLine(
+  line: number,
+  patch: string,
+  side: DiffSide
+): LineValidation & Pick<Placement, 'snapped'> {
+  const validation = validateLine(line, patch, side)
+  if (!validation.isValid || validation.actualLine === line) return validation
+
+  return {
+    ...validation,
+    snapped: true,
+    warning: `Line ${line} not in diff, closest earlier line ${validation.actualLine} is in another hunk`,
+  }
+}
+
+/** Highest confidence wins; ties go to the match nearest the requested line */
+function pickBestMatch(matches: AnchorMatch[], line: number): AnchorMatch | null {
+  let best: AnchorMatch | null = null
+
+  for (const match of matches) {
+    if (
+      !best ||
+      match.confidence > best.confidence ||
+      (match.confidence === best.confidence &&
+        Math.abs(match.line - line) < Math.abs(best.line - line))
+    ) {
+      best = match
+    }
+  }
+
+  return best
+}
+
+/** GitHub only accepts a multi-line comment when both ends are in the same hunk */
+function applyRange(
+  comment: InlineCommentState,
+  endLine: number,
+  patch: string,
+  side: DiffSide,
+  onTarget: boolean
+): void {
+  if (!onTarget || !isRangeInOneHunk(comment.actualLine, endLine, patch, side)) {
+    comment.warning ??= `Lines ${comment.requestedLine}-${comment.issue.endLine} are not in one diff hunk, commenting on line ${comment.actualLine} only`
+    return
+  }
+
+  comment.endLine = endLine
+}
+
+/**
+ * A suggested change replaces exactly the lines it is anchored to, so it is only posted when
+ * the comment covers all the lines the AI meant; otherwise the replacement goes out as a plain
+ * code block.
+ */
+function applySuggestion(comment: InlineCommentState, onTarget: boolean): void {
+  const { issue } = comment
+
+  // Suggestions edit the new file, so there's nothing to apply them to on the old side
+  if (issue.side === 'LEFT') {
+    comment.warning ??= 'Suggested change is on removed lines, posted as a code block'
+    return
+  }
+
+  const isRange = Boolean(issue.endLine && issue.line && issue.endLine > issue.line)
+  if (!onTarget || (isRange && comment.endLine === undefined)) {
+    comment.warning ??= 'Suggested change spans lines outside the diff, posted as a code block'
+    return
+  }
+
+  comment.postSuggestion = true
 }
 
 function createInvalidComment(
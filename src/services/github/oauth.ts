@@ -0,0 +1,212 @@
+/** GitHub OAuth - device-flow sign-in, and refreshing the expiring user token it yields */
+
+import { ofetch } from 'ofetch'
+import type { Dispatcher } from 'undici'
+import type { GitHubHostConfig, ResolvedGitHubConfig } from '../../types/config.js'
+import type { OAuthTokens } from '../../types/github.js'
+import { GitHubError } from '../../types/errors.js'
+import { getOAuthClientSecret } from '../../config/env.js'
+import { getSettings, updateGitHubTokens } from '../state/settingsStore.js'
+import { getCaDispatcher, resolveGitHubHosts } from './hosts.js'
+import { debug, info } from '../../utils/logger.js'
+
+// OAuth Apps grant these scopes; GitHub Apps ignore them and use the app's permissions
+const DEVICE_FLOW_SCOPES = 'repo read:org'
+const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code'
+
+export interface DeviceFlowPrompt {
+  userCode: string
+  verificationUri: string
+  expiresAt: string
+  /** Seconds to wait between polls */
+  interval: number
+}
+
+export type DeviceFlowStatus = 'pending' | 'complete' | 'expired' | 'denied'
+
+export interface DeviceFlowResult {
+  clientId: string
+  tokens: OAuthTokens
+}
+
+/** Where sign-in requests go, and how to reach a GHES behind a private CA */
+interface OAuthHost {
+  webUrl: string
+  dispatcher?: Dispatcher
+}
+
+interface DeviceFlow {
+  clientId: string
+  host: OAuthHost
+  deviceCode: string
+  intervalMs: number
+  expiresAt: number
+  nextPollAt: number
+  tokens?: OAuthTokens
+}
+
+interface DeviceCodeResponse {
+  device_code: string
+  user_code: string
+  verification_uri: string
+  expires_in: number
+  interval: number
+}
+
+interface TokenResponse {
+  access_token?: string
+  refresh_token?: string
+  error?: string
+  error_description?: string
+  /** Sent with `slow_down` */
+  interval?: number
+}
+
+// Onboarding runs one sign-in at a time; its tokens stay here until setup is saved
+let activeFlow: DeviceFlow | null = null
+
+function resolveOAuthHost(host: GitHubHostConfig): OAuthHost {
+  return {
+    webUrl: resolveGitHubHosts(host).webUrl,
+    dispatcher: host.caBundlePath ? getCaDispatcher(host.caBundlePath) : undefined,
+  }
+}
+
+function postOAuth<T>(host: OAuthHost, path: string, body: Record<string, string>): Promise<T> {
+  return ofetch<T>(`${host.webUrl}${path}`, {
+    method: 'POST',
+    headers: { Accept: 'application/json' },
+    body,
+    dispatcher: host.dispatcher,
+  })
+}
+
+function toTokens(response: TokenResponse): OAuthTokens {
+  return { accessToken: response.access_token!, refreshToken: response.refresh_token }
+}
+
+/** Ask GitHub for a code the user enters at `verificationUri` to approve this app */
+export async function startDeviceFlow(
+  clientId: string,
+  host: GitHubHostConfig
+): Promise<DeviceFlowPrompt> {
+  const oauthHost = resolveOAuthHost(host)
+
+  const response = await postOAuth<DeviceCodeResponse>(oauthHost, '/login/device/code', {
+    client_id: clientId,
+    scope: DEVICE_FLOW_SCOPES,
+  })
+
+  const now = Date.now()
+  activeFlow = {
+    clientId,
+    host: oauthHost,
+    deviceCode: response.device_code,
+    intervalMs: response.interval * 1000,
+    expiresAt: now + response.expires_in * 1000,
+    nextPollAt: now + response.interval * 1000,
+  }
+  info('Device sign-in started', { webUrl: oauthHost.webUrl })
+
+  return {
+    userCode: response.user_code,
+    verificationUri: response.verification_uri,
+    expiresAt: new Date(activeFlow.expiresAt).toISOString(),
+    interval: response.interval,
+  }
+}
+
+/**
+ * Check whether the user has approved the sign-in. Calls that come sooner than GitHub allows
+ * report `pending` without asking it, so clients can poll on their own schedule.
+ */
+export async function pollDeviceFlow(): Promise<DeviceFlowStatus> {
+  const flow = activeFlow
+  if (!flow) throw new GitHubError('No device sign-in in progress')
+  if (flow.tokens) return 'complete'
+
+  const now = Date.now()
+  if (now >= flow.expiresAt) {
+    activeFlow = null
+    return 'expired'
+  }
+  if (now < flow.nextPollAt) return 'pending'
+
+  const response = await postOAuth<TokenResponse>(flow.host, '/login/oauth/access_token', {
+    client_id: flow.clientId,
+    device_code: flow.deviceCode,
+    grant_type: DEVICE_CODE_GRANT,
+  })
+
+  switch (response.error) {
+    case undefined:
+      flow.tokens = toTokens(response)
+      info('Device sign-in approved')
+      return 'complete'
+    case 'slow_down':
+      flow.intervalMs = (response.interval ?? flow.intervalMs / 1000 + 5) * 1000
+      flow.nextPollAt = now + flow.intervalMs
+      return 'pending'
+    case 'authorization_pending':
+      flow.nextPollAt = now + flow.intervalMs
+      return 'pending'
+    case 'expired_token':
+      activeFlow = null
+      return 'expired'
+    case 'access_denied':
+      activeFlow = null
+      return 'denied'
+    default:
+      activeFlow = null
+      throw new GitHubError(response.error_description ?? response.error)
+  }
+}
+
+/** Tokens from an approved sign-in, or null before approval */
+export function getDeviceFlowResult(): DeviceFlowResult | null {
+  if (!activeFlow?.tokens) return null
+  return { clientId: activeFlow.clientId, tokens: activeFlow.tokens }
+}
+
+export function clearDeviceFlow(): void {
+  activeFlow = null
+}
+
+/**
+ * Trade the saved refresh token for a new token pair and save both; GitHub refresh tokens are
+ * single-use. Throws the same error as a rejected token when there is nothing to refresh with.
+ */
+export async function refreshGitHubToken(): Promise<string> {
+  const { github } = getSettings()
+  const refreshToken = github.authMethod === 'oauth' ? readRefreshToken(github) : null
+  if (!github.oauthClientId || !refreshToken) {
+    throw new GitHubError('Invalid GitHub token', 401)
+  }
+
+  const clientSecret = getOAuthClientSecret()
+  const host = resolveOAuthHost(github)
+  const response = await postOAuth<TokenResponse>(host, '/login/oauth/access_token', {
+    client_id: github.oauthClientId,
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    ...(clientSecret ? { client_secret: clientSecret } : {}),
+  })
+
+  if (response.error || !response.access_token) {
+    debug('GitHub token refresh rejected', { error: response.error })
+    throw new GitHubError('GitHub sign-in expired - sign in again', 401)
+  }
+
+  updateGitHubTokens(toTokens(response))
+  info('GitHub token refreshed')
+  return response.access_token
+}
+
+function readRefreshToken(github: ResolvedGitHubConfig): string | null {
+  try {
+    return github.refreshToken?.resolve() ?? null
+  } catch {
+    // Apps whose tokens don't expire never issue one
+    return null
+  }
+}
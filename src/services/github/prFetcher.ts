@@ -9,6 +9,8 @@ import { debug, info } from '../../utils/logger.js'
 export interface FetchPRsOptions {
   org: string
   perPage?: number
+  /** Skip repos up front so excluded ones cost no requests */
+  includeRepo?: (fullName: string) => boolean
 }
 
 export async function fetchOrgRepos(
@@ -16,8 +18,8 @@ export async function fetchOrgRepos(
   org: string
 ): Promise<GitHubRepository[]> {
   debug('Fetching org repos', { org })
-  return client.get<GitHubRepository[]>(`/orgs/${org}/repos`, {
-    query: { per_page: 100, sort: 'updated', direction: 'desc' },
+  return client.getAll<GitHubRepository>(`/orgs/${org}/repos`, {
+    query: { sort: 'updated', direction: 'desc' },
   })
 }
 
@@ -27,8 +29,8 @@ export async function fetchRepoPRs(
   repo: string
 ): Promise<GitHubPullRequest[]> {
   debug('Fetching repo PRs', { owner, repo })
-  return client.get<GitHubPullRequest[]>(`/repos/${owner}/${repo}/pulls`, {
-    query: { state: 'open', per_page: 100 },
+  return client.getAll<GitHubPullRequest>(`/repos/${owner}/${repo}/pulls`, {
+    query: { state: 'open' },
   })
 }
 
@@ -36,10 +38,11 @@ export async function fetchAllOrgPRs(
   client: GitHubClient,
   options: FetchPRsOptions
 ): Promise<PullRequest[]> {
-  const { org } = options
+  const { org, includeRepo } = options
   info(`Fetching all open PRs from ${org}`)
 
-  const repos = await fetchOrgRepos(client, org)
+  const allRepos = await fetchOrgRepos(client, org)
+  const repos = includeRepo ? allRepos.filter((repo) => includeRepo(repo.full_name)) : allRepos
   const prPromises = repos.map((repo) => fetchRepoPRs(client, org, repo.name))
   const prArrays = await Promise.all(prPromises)
   const allPRs = prArrays.flat()
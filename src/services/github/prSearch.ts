@@ -0,0 +1,212 @@
+/** PR search service - lists each source's open PRs with one GraphQL search */
+
+import type { GitHubClient } from './client.js'
+import { formatPRSource, type PRSource } from './prSources.js'
+import type {
+  GitHubGraphQLResponse,
+  GitHubPullRequest,
+  GitHubRepository,
+  GitHubUser,
+  GitHubTeam,
+  GraphQLActor,
+  GraphQLPullRequest,
+  GraphQLRepository,
+  GraphQLSearchResult,
+} from '../../types/github.js'
+import type { PullRequest } from '../../types/pr.js'
+import { mapGitHubPRToPullRequest } from '../../types/pr.js'
+import { GitHubError } from '../../types/errors.js'
+import { debug, info } from '../../utils/logger.js'
+
+// GitHub stops returning search results after 1000 matches
+const MAX_SEARCH_RESULTS = 1000
+const MAX_SEARCH_PAGES = MAX_SEARCH_RESULTS / 100
+
+const SEARCH_PRS_QUERY = `
+query SearchPullRequests($query: String!, $cursor: String) {
+  search(query: $query, type: ISSUE, first: 100, after: $cursor) {
+    issueCount
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      ... on PullRequest {
+        databaseId number title body state isDraft url
+        createdAt updatedAt mergedAt additions deletions changedFiles
+        headRefName headRefOid baseRefName baseRefOid
+        author { __typename login avatarUrl url ... on User { databaseId } }
+        repository {
+          databaseId name nameWithOwner url description isPrivate
+          owner { login avatarUrl url }
+          defaultBranchRef { name }
+        }
+        labels(first: 50) { nodes { name color description } }
+        reviewRequests(first: 50) {
+          nodes {
+            requestedReviewer {
+              __typename
+              ... on User { login databaseId avatarUrl url }
+              ... on Team {
+                databaseId name slug description url
+                organization { login databaseId }
+              }
+            }
+          }
+        }
+        comments { totalCount }
+        reviewThreads { totalCount }
+      }
+    }
+  }
+}`
+
+/**
+ * Every open PR of the source, the same set the REST strategy lists, so the all-PRs view doesn't
+ * depend on the strategy and a withdrawn review request doesn't look like a closed PR.
+ */
+export function buildSourceSearchQuery(source: PRSource): string {
+  const scope = source.type === 'org' ? `org:${source.org}` : `repo:${formatPRSource(source)}`
+  return `is:pr is:open archived:false ${scope}`
+}
+
+/**
+ * Search the open PRs of every source. A source with more than the search can return throws, so
+ * the poll falls back to REST instead of dropping the PRs past the limit as closed.
+ */
+export async function searchOpenPRs(
+  client: GitHubClient,
+  sources: PRSource[]
+): Promise<PullRequest[]> {
+  info(`Searching open PRs in ${sources.map(formatPRSource).join(', ')} with GraphQL`)
+
+  const byId = new Map<string, PullRequest>()
+  for (const source of sources) {
+    for (const node of await searchPullRequests(client, buildSourceSearchQuery(source))) {
+      const pr = mapGitHubPRToPullRequest(mapGraphQLPullRequest(node))
+      byId.set(pr.id, pr)
+    }
+  }
+
+  info(`Found ${byId.size} open PRs via search`)
+  return [...byId.values()]
+}
+
+async function searchPullRequests(
+  client: GitHubClient,
+  query: string
+): Promise<GraphQLPullRequest[]> {
+  debug('Running PR search', { query })
+
+  const results: GraphQLPullRequest[] = []
+  let cursor: string | null = null
+
+  for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+    const response: GitHubGraphQLResponse<GraphQLSearchResult> = await client.post('/graphql', {
+      query: SEARCH_PRS_QUERY,
+      variables: { query, cursor },
+    })
+
+    // GraphQL reports failures in the body with a 200 status
+    if (response.errors?.length || !response.data) {
+      throw new GitHubError(response.errors?.[0]?.message ?? 'GraphQL search failed')
+    }
+
+    const { issueCount, nodes, pageInfo } = response.data.search
+    if (issueCount > MAX_SEARCH_RESULTS) {
+      throw new GitHubError(
+        `Search "${query}" matches ${issueCount} PRs, more than the ${MAX_SEARCH_RESULTS} it returns`
+      )
+    }
+    results.push(...nodes.filter(isPullRequestNode))
+
+    if (!pageInfo.hasNextPage) break
+    cursor = pageInfo.endCursor
+  }
+
+  return results
+}
+
+function isPullRequestNode(
+  node: GraphQLPullRequest | Record<string, never>
+): node is GraphQLPullRequest {
+  return 'number' in node
+}
+
+/** Reshape a GraphQL node into the REST response so the usual mapper applies */
+function mapGraphQLPullRequest(node: GraphQLPullRequest): GitHubPullRequest {
+  const repo = mapGraphQLRepository(node.repository)
+  const requested = node.reviewRequests.nodes.map((r) => r.requestedReviewer)
+
+  return {
+    id: node.databaseId,
+    number: node.number,
+    title: node.title,
+    body: node.body || null,
+    state: node.state === 'OPEN' ? 'open' : 'closed',
+    draft: node.isDraft,
+    html_url: node.url,
+    user: node.author ? mapGraphQLActor(node.author) : getGhostUser(node.repository.url),
+    head: { ref: node.headRefName, sha: node.headRefOid, repo },
+    base: { ref: node.baseRefName, sha: node.baseRefOid, repo },
+    // Only label names are used downstream
+    labels: node.labels.nodes.map((l) => ({ id: 0, ...l })),
+    requested_reviewers: requested.flatMap((r) =>
+      r?.__typename === 'User' ? [mapGraphQLActor(r)] : []
+    ),
+    requested_teams: requested.flatMap((r): GitHubTeam[] =>
+      r?.__typename === 'Team'
+        ? [
+            {
+              id: r.databaseId,
+              name: r.name,
+              slug: r.slug,
+              description: r.description,
+              permission: '',
+              html_url: r.url,
+              organization: { login: r.organization.login, id: r.organization.databaseId },
+            },
+          ]
+        : []
+    ),
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    merged_at: node.mergedAt,
+    comments: node.comments.totalCount,
+    // GraphQL has no review comment count; threads are the closest match
+    review_comments: node.reviewThreads.totalCount,
+    additions: node.additions,
+    deletions: node.deletions,
+    changed_files: node.changedFiles,
+  }
+}
+
+/** Stand-in for deleted accounts, on the same host as the repository (github.com or GHES) */
+function getGhostUser(repoUrl: string): GitHubUser {
+  return {
+    login: 'ghost',
+    id: 0,
+    avatar_url: '',
+    html_url: `${new URL(repoUrl).origin}/ghost`,
+  }
+}
+
+function mapGraphQLActor(actor: GraphQLActor): GitHubUser {
+  return {
+    login: actor.login,
+    id: actor.databaseId ?? 0,
+    avatar_url: actor.avatarUrl,
+    html_url: actor.url,
+    type: actor.__typename,
+  }
+}
+
+function mapGraphQLRepository(repo: GraphQLRepository): GitHubRepository {
+  return {
+    id: repo.databaseId,
+    name: repo.name,
+    full_name: repo.nameWithOwner,
+    owner: mapGraphQLActor(repo.owner),
+    html_url: repo.url,
+    description: repo.description,
+    private: repo.isPrivate,
+    default_branch: repo.defaultBranchRef?.name ?? 'main',
+  }
+}
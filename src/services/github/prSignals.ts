@@ -0,0 +1,80 @@
+/** PR signals - approvals, CI state and review request time, for ranking the review queue */
+
+import type { GitHubClient } from './client.js'
+import type { GitHubIssueEvent, GitHubReview } from '../../types/github.js'
+import type { CIState, PRCheck, PRSignals, PullRequest } from '../../types/pr.js'
+import { fetchPRChecks } from './diffFetcher.js'
+import { getTeamKey } from './teamDetector.js'
+import { debug } from '../../utils/logger.js'
+
+const PASSING_CONCLUSIONS: PRCheck['conclusion'][] = ['success', 'neutral', 'skipped']
+
+export interface SignalsReviewer {
+  username: string
+  teamKeys: string[]
+}
+
+export async function fetchPRSignals(
+  client: GitHubClient,
+  pr: PullRequest,
+  reviewer: SignalsReviewer
+): Promise<PRSignals> {
+  const { owner, name } = pr.repository
+  debug('Fetching PR signals', { prId: pr.id })
+
+  const [reviews, checks, events] = await Promise.all([
+    client.getAll<GitHubReview>(`/repos/${owner}/${name}/pulls/${pr.number}/reviews`),
+    fetchPRChecks(client, owner, name, pr.head.sha),
+    client.getAll<GitHubIssueEvent>(`/repos/${owner}/${name}/issues/${pr.number}/events`),
+  ])
+
+  return {
+    reviewRequestedAt: findReviewRequestedAt(events, reviewer, owner),
+    approvals: countApprovals(reviews),
+    ci: getCIState(checks),
+    headSha: pr.head.sha,
+    fetchedAt: new Date(),
+  }
+}
+
+/** Failing wins over pending, so one broken check is enough to call it failing */
+export function getCIState(checks: PRCheck[]): CIState {
+  if (checks.length === 0) return 'none'
+  if (checks.some((c) => c.status === 'completed' && !PASSING_CONCLUSIONS.includes(c.conclusion))) {
+    return 'failing'
+  }
+  return checks.every((c) => c.status === 'completed') ? 'passing' : 'pending'
+}
+
+/** Reviewers whose latest approve or request-changes review is an approval */
+export function countApprovals(reviews: GitHubReview[]): number {
+  return [...getLatestVerdicts(reviews).values()].filter((state) => state === 'APPROVED').length
+}
+
+/** Each reviewer's latest verdict: approved, changes requested or dismissed */
+export function getLatestVerdicts(reviews: GitHubReview[]): Map<string, GitHubReview['state']> {
+  const latest = new Map<string, GitHubReview['state']>()
+  for (const review of reviews) {
+    // Comments don't change a reviewer's verdict; reviews come oldest first
+    if (review.state === 'COMMENTED' || review.state === 'PENDING') continue
+    latest.set(review.user.login, review.state)
+  }
+  return latest
+}
+
+/** When my review, or one of my teams' in the `owner` org, was last requested */
+export function findReviewRequestedAt(
+  events: GitHubIssueEvent[],
+  { username, teamKeys }: SignalsReviewer,
+  owner: string
+): Date | undefined {
+  const requests = events.filter(
+    (e) =>
+      e.event === 'review_requested' &&
+      (e.requested_reviewer?.login.toLowerCase() === username.toLowerCase() ||
+        (e.requested_team !== undefined &&
+          teamKeys.includes(getTeamKey(owner, e.requested_team.slug))))
+  )
+  const last = requests.at(-1)
+  return last ? new Date(last.created_at) : undefined
+}
@@ -0,0 +1,120 @@
+/** PR sources - the orgs and individual repos whose open PRs are polled */
+
+import type { GitHubClient } from './client.js'
+import type { GitHubConfig } from '../../types/config.js'
+import type { PullRequest } from '../../types/pr.js'
+import { mapGitHubPRToPullRequest } from '../../types/pr.js'
+import { fetchAllOrgPRs, fetchRepoPRs, type FetchPRsOptions } from './prFetcher.js'
+import { info, warn } from '../../utils/logger.js'
+
+export type PRSource = { type: 'org'; org: string } | { type: 'repo'; owner: string; name: string }
+
+/** `acme` is an org, `octocat/dotfiles` a single repo */
+export function parsePRSource(value: string): PRSource {
+  const [owner, name] = value.trim().split('/')
+  if (name) return { type: 'repo', owner: owner!, name }
+  return { type: 'org', org: owner! }
+}
+
+export function formatPRSource(source: PRSource): string {
+  return source.type === 'org' ? source.org : `${source.owner}/${source.name}`
+}
+
+/** The account that owns a source: its org, or the owner of the repo */
+export function getSourceOwner(source: PRSource): string {
+  return source.type === 'org' ? source.org : source.owner
+}
+
+/** The primary org followed by any extra sources, without duplicates */
+export function getPRSources(config: Pick<GitHubConfig, 'org' | 'sources'>): PRSource[] {
+  const seen = new Set<string>()
+  const sources: PRSource[] = []
+
+  for (const value of [config.org, ...(config.sources ?? [])]) {
+    if (!value) continue
+    const source = parsePRSource(value)
+    const key = formatPRSource(source).toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    sources.push(source)
+  }
+
+  return sources
+}
+
+/** Owners to detect teams in; personal accounts simply have none */
+export function getSourceOwners(sources: PRSource[]): string[] {
+  const owners = new Map<string, string>()
+  for (const source of sources) {
+    const owner = getSourceOwner(source)
+    owners.set(owner.toLowerCase(), owner)
+  }
+  return [...owners.values()]
+}
+
+/** Whether a PR belongs to a source: a repo of its org, or the repo itself */
+export function isPRFromSource(pr: PullRequest, source: PRSource): boolean {
+  const { owner, fullName } = pr.repository
+  return source.type === 'org'
+    ? owner.toLowerCase() === source.org.toLowerCase()
+    : fullName.toLowerCase() === formatPRSource(source).toLowerCase()
+}
+
+export type FetchSourceOptions = Pick<FetchPRsOptions, 'includeRepo'>
+
+export interface SourcePRs {
+  prs: PullRequest[]
+  /** Sources that couldn't be fetched; their PRs are missing from `prs`, not closed */
+  failedSources: PRSource[]
+}
+
+export async function fetchSourcePRs(
+  client: GitHubClient,
+  source: PRSource,
+  options: FetchSourceOptions = {}
+): Promise<PullRequest[]> {
+  if (source.type === 'org') {
+    return fetchAllOrgPRs(client, { org: source.org, includeRepo: options.includeRepo })
+  }
+
+  if (options.includeRepo && !options.includeRepo(formatPRSource(source))) return []
+
+  const prs = await fetchRepoPRs(client, source.owner, source.name)
+  return prs.map(mapGitHubPRToPullRequest)
+}
+
+/**
+ * Fetch every source and merge the results. A failing source is logged and reported in
+ * `failedSources` so one unreachable org doesn't empty the list; if every source fails the first
+ * error is thrown.
+ */
+export async function fetchAllSourcePRs(
+  client: GitHubClient,
+  sources: PRSource[],
+  options: FetchSourceOptions = {}
+): Promise<SourcePRs> {
+  const results = await Promise.allSettled(
+    sources.map((source) => fetchSourcePRs(client, source, options))
+  )
+
+  const byId = new Map<string, PullRequest>()
+  const errors: unknown[] = []
+  const failedSources: PRSource[] = []
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      warn(`Failed to fetch PRs from ${formatPRSource(sources[index]!)}`, {
+        error: String(result.reason),
+      })
+      errors.push(result.reason)
+      failedSources.push(sources[index]!)
+      return
+    }
+    for (const pr of result.value) byId.set(pr.id, pr)
+  })
+
+  if (sources.length > 0 && errors.length === sources.length) throw errors[0]
+
+  info(`Found ${byId.size} open PRs across ${sources.length} source(s)`)
+  return { prs: [...byId.values()], failedSources }
+}
@@ -0,0 +1,92 @@
+/** Priority scoring - ranks the review queue by what to review next */
+
+import type { PriorityConfig } from '../../types/config.js'
+import type { PRPriority, PRSignals, PriorityFactor, PullRequest } from '../../types/pr.js'
+import { isRequestedFromTeams } from './teamDetector.js'
+
+// A request this old gets the full age weight
+const FULL_AGE_HOURS = 72
+// PRs with this many changed lines or more get no size points
+const LARGE_PR_LINES = 1000
+// Approvals after which a PR gets no approval points
+const ENOUGH_APPROVALS = 2
+// Stands in for CI state and approvals on PRs whose signals haven't been fetched, and for the
+// size of PRs from the REST list, which leaves line counts out
+const UNKNOWN_SIGNAL = 0.5
+
+const CI_VALUES: Record<PRSignals['ci'], number> = {
+  passing: 1,
+  none: 1,
+  pending: 0.5,
+  failing: 0,
+}
+
+export interface PriorityContext {
+  username: string
+  teamKeys: string[]
+  now?: Date
+}
+
+/**
+ * Each factor scales from 0 to 1 and is multiplied by its weight, so with the default weights
+ * a score runs from 0 to 100
+ */
+export function scorePRPriority(
+  pr: PullRequest,
+  signals: PRSignals | undefined,
+  config: Required<PriorityConfig>,
+  context: PriorityContext
+): PRPriority {
+  const values: Record<PriorityFactor, number> = {
+    age: getAgeValue(signals?.reviewRequestedAt ?? pr.createdAt, context.now ?? new Date()),
+    request: getRequestValue(pr, context),
+    size: getSizeValue(pr),
+    labels: hasUrgentLabel(pr, config.urgentLabels) ? 1 : 0,
+    ci: signals ? CI_VALUES[signals.ci] : UNKNOWN_SIGNAL,
+    approvals: signals ? 1 - Math.min(signals.approvals / ENOUGH_APPROVALS, 1) : UNKNOWN_SIGNAL,
+  }
+
+  const breakdown = {} as Record<PriorityFactor, number>
+  let score = 0
+  for (const factor of Object.keys(values) as PriorityFactor[]) {
+    breakdown[factor] = round(values[factor] * config.weights[factor])
+    score += breakdown[factor]
+  }
+
+  return { score: round(score), breakdown }
+}
+
+/** Highest score first; ties go to the most recently updated PR */
+export function sortByPriority<T extends { priority: PRPriority; updatedAt: Date }>(
+  items: T[]
+): T[] {
+  return [...items].sort(
+    (a, b) => b.priority.score - a.priority.score || b.updatedAt.getTime() - a.updatedAt.getTime()
+  )
+}
+
+function getAgeValue(since: Date, now: Date): number {
+  const hours = (now.getTime() - since.getTime()) / (60 * 60 * 1000)
+  return Math.min(Math.max(hours, 0) / FULL_AGE_HOURS, 1)
+}
+
+function getSizeValue({ stats }: PullRequest): number {
+  if (stats.additions === undefined || stats.deletions === undefined) return UNKNOWN_SIGNAL
+  return 1 - Math.min((stats.additions + stats.deletions) / LARGE_PR_LINES, 1)
+}
+
+function getRequestValue(pr: PullRequest, { username, teamKeys }: PriorityContext): number {
+  const login = username.toLowerCase()
+  if (pr.requestedReviewers.some((r) => r.login.toLowerCase() === login)) return 1
+  if (isRequestedFromTeams(pr, teamKeys)) return 0.5
+  return 0
+}
+
+function hasUrgentLabel(pr: PullRequest, urgentLabels: string[]): boolean {
+  const urgent = urgentLabels.map((l) => l.toLowerCase())
+  return pr.labels.some((label) => urgent.includes(label.toLowerCase()))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
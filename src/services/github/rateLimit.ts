@@ -0,0 +1,82 @@
+/** Rate limit tracker - remaining GitHub API budget from response headers */
+
+import { debug, warn } from '../../utils/logger.js'
+
+export interface RateLimitBudget {
+  resource: string
+  limit: number
+  remaining: number
+  used: number
+  reset: Date
+  updatedAt: Date
+}
+
+// Below this share of the hourly limit the scheduler starts stretching its interval
+const LOW_BUDGET_RATIO = 0.1
+const LOW_BUDGET_MIN = 100
+
+// REST and GraphQL have separate budgets, reported via `X-RateLimit-Resource`
+const budgets = new Map<string, RateLimitBudget>()
+
+export function recordRateLimit(headers: Headers): void {
+  const limit = headers.get('x-ratelimit-limit')
+  const remaining = headers.get('x-ratelimit-remaining')
+  const reset = headers.get('x-ratelimit-reset')
+  if (limit === null || remaining === null || reset === null) return
+
+  const budget: RateLimitBudget = {
+    resource: headers.get('x-ratelimit-resource') ?? 'core',
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(headers.get('x-ratelimit-used') ?? Number(limit) - Number(remaining)),
+    reset: new Date(Number(reset) * 1000),
+    updatedAt: new Date(),
+  }
+
+  const previous = budgets.get(budget.resource)
+  budgets.set(budget.resource, budget)
+
+  if (isBudgetLow(budget) && !(previous && isBudgetLow(previous))) {
+    warn(`GitHub ${budget.resource} rate limit budget is low`, {
+      remaining: budget.remaining,
+      limit: budget.limit,
+      reset: budget.reset.toISOString(),
+    })
+  }
+}
+
+export function getRateLimitBudgets(): RateLimitBudget[] {
+  return [...budgets.values()]
+}
+
+export function isBudgetLow(budget: RateLimitBudget): boolean {
+  if (budget.reset.getTime() <= Date.now()) return false
+  return budget.remaining < Math.max(LOW_BUDGET_MIN, budget.limit * LOW_BUDGET_RATIO)
+}
+
+/** The tightest budget that is currently low, if any */
+export function getLowRateLimitBudget(): RateLimitBudget | undefined {
+  return getRateLimitBudgets()
+    .filter(isBudgetLow)
+    .sort((a, b) => a.remaining - b.remaining)[0]
+}
+
+/** How long to wait before retrying a rate-limited response, from `Retry-After` or the reset */
+export function getRetryAfterMs(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after')
+  if (retryAfter !== null && !isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000
+  }
+
+  const reset = headers.get('x-ratelimit-reset')
+  if (headers.get('x-ratelimit-remaining') === '0' && reset !== null) {
+    return Math.max(Number(reset) * 1000 - Date.now(), 0)
+  }
+
+  return undefined
+}
+
+export function clearRateLimits(): void {
+  budgets.clear()
+  debug('Rate limit budgets cleared')
+}
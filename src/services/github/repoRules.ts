@@ -0,0 +1,55 @@
+/** Repo rules - config-driven PR filtering and per-repo review policies */
+
+import type { GitHubUser } from '../../types/github.js'
+import type { PullRequest } from '../../types/pr.js'
+import type { RepoPolicy, RulesConfig } from '../../types/config.js'
+import { matchesGlob, matchesAnyGlob } from '../../utils/glob.js'
+
+export type RepoReviewPolicy = Omit<RepoPolicy, 'repos'>
+
+/** Patterns with a slash match `owner/repo`; bare patterns match the repo name in any owner */
+export function matchesRepo(fullName: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? fullName : (fullName.split('/')[1] ?? fullName)
+  return matchesGlob(target, pattern)
+}
+
+export function isRepoIncluded(fullName: string, rules: RulesConfig): boolean {
+  if (rules.excludeRepos.some((pattern) => matchesRepo(fullName, pattern))) return false
+  if (rules.includeRepos.length === 0) return true
+  return rules.includeRepos.some((pattern) => matchesRepo(fullName, pattern))
+}
+
+/** App accounts report `type: Bot` on REST and carry a `[bot]` suffix in their login */
+export function isBotAuthor(user: GitHubUser): boolean {
+  return user.type === 'Bot' || user.login.endsWith('[bot]')
+}
+
+/** Why the rules drop a PR, or null when it is kept */
+export function getIgnoreReason(pr: PullRequest, rules: RulesConfig): string | null {
+  if (!isRepoIncluded(pr.repository.fullName, rules)) return 'repo excluded'
+
+  const label = pr.labels.find((name) => matchesAnyGlob(name, rules.ignoreLabels))
+  if (label) return `label ${label}`
+
+  if (rules.ignoreBots && isBotAuthor(pr.author)) return 'bot author'
+  if (matchesAnyGlob(pr.author.login, rules.ignoreAuthors)) return `author ${pr.author.login}`
+
+  if (matchesAnyGlob(pr.base.ref, rules.ignoreBaseBranches)) {
+    return `base branch ${pr.base.ref}`
+  }
+
+  return null
+}
+
+/** Every policy matching the repo, merged in order so later entries win field by field */
+export function getRepoPolicy(fullName: string, rules: RulesConfig): RepoReviewPolicy {
+  const policy: RepoReviewPolicy = {}
+
+  for (const { repos, agentId, reviewFormat } of rules.repoPolicies) {
+    if (!matchesRepo(fullName, repos)) continue
+    if (agentId) policy.agentId = agentId
+    if (reviewFormat) policy.reviewFormat = { ...policy.reviewFormat, ...reviewFormat }
+  }
+
+  return policy
+}
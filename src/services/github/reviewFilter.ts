@@ -1,13 +1,16 @@
 /** Review filter - filters PRs requesting review from user or team */
 
 import type { PullRequest } from '../../types/pr.js'
-import type { UserTeams } from './teamDetector.js'
+import { isRequestedFromTeams, type UserTeams } from './teamDetector.js'
+import type { RulesConfig } from '../../types/config.js'
+import { getIgnoreReason, isRepoIncluded } from './repoRules.js'
 import { debug } from '../../utils/logger.js'
 
 export interface FilterConfig {
   username: string
   userTeams: UserTeams
   showAllPRs?: boolean // If true, show all PRs not authored by user
+  rules?: RulesConfig
 }
 
 export function filterPRsForReview(
@@ -20,9 +23,10 @@ export function filterPRsForReview(
 }
 
 function shouldShowPR(pr: PullRequest, config: FilterConfig): boolean {
-  // Never show your own PRs or drafts
+  // Never show drafts, or your own PRs: those are tracked by `filterAuthoredPRs`
   if (isAuthor(pr, config.username)) return false
   if (pr.draft) return false
+  if (config.rules && getIgnoreReason(pr, config.rules)) return false
 
   // If showAllPRs is enabled, show all non-draft PRs from others
   if (config.showAllPRs) return true
@@ -31,6 +35,17 @@ function shouldShowPR(pr: PullRequest, config: FilterConfig): boolean {
   return isUserRequested(pr, config.username) || isTeamRequested(pr, config.userTeams)
 }
 
+/** My own open PRs, drafts included; repo rules still apply but ignore rules for review don't */
+export function filterAuthoredPRs(
+  prs: PullRequest[],
+  username: string,
+  rules?: RulesConfig
+): PullRequest[] {
+  return prs.filter(
+    (pr) => isAuthor(pr, username) && (!rules || isRepoIncluded(pr.repository.fullName, rules))
+  )
+}
+
 export function isReviewRequestedFromUser(
   pr: PullRequest,
   config: FilterConfig
@@ -48,8 +63,7 @@ function isUserRequested(pr: PullRequest, username: string): boolean {
 }
 
 function isTeamRequested(pr: PullRequest, userTeams: UserTeams): boolean {
-  const requestedSlugs = pr.requestedTeams.map((t) => t.slug)
-  return requestedSlugs.some((slug) => userTeams.teamSlugs.includes(slug))
+  return isRequestedFromTeams(pr, userTeams.teamKeys)
 }
 
 export function groupPRsByRepo(
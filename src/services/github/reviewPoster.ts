@@ -72,12 +72,16 @@ function buildGitHubComments(
 
   return inlineComments
     .filter((c, i) => c.isValid && selectedIndices.includes(i))
-    .map((c) => ({
-      path: c.file,
-      line: c.actualLine,
-      side: 'RIGHT' as const,
-      body: formatInlineComment(c.issue),
-    }))
+    .map((c) => {
+      const side = c.issue.side ?? 'RIGHT'
+      return {
+        path: c.file,
+        line: c.endLine ?? c.actualLine,
+        side,
+        ...(c.endLine ? { start_line: c.actualLine, start_side: side } : {}),
+        body: formatInlineComment(c),
+      }
+    })
 }
 
 function getInvalidComments(
@@ -101,7 +105,11 @@ function buildReviewBody(
   if (invalidComments && invalidComments.length > 0) {
     body += '\n\n---\n**Additional comments (could not be posted inline):**\n'
     invalidComments.forEach((c) => {
-      const loc = `\`${c.file}:${c.requestedLine}\``
+      const lines =
+        c.issue.endLine && c.issue.endLine > c.requestedLine
+          ? `${c.requestedLine}-${c.issue.endLine}`
+          : c.requestedLine
+      const loc = `\`${c.file}:${lines}\``
       body += `\n- ${loc}: ${c.issue.message}`
       if (c.warning) body += ` *(${c.warning})*`
     })
@@ -119,7 +127,7 @@ function mapVerdictToEvent(verdict: ReviewVerdict): CreateReviewRequest['event']
   return mapping[verdict]
 }
 
-function formatInlineComment(issue: ReviewIssue): string {
+function formatInlineComment({ issue, postSuggestion }: InlineCommentState): string {
   const emoji = getSeverityEmoji(issue.severity)
   const label = getSeverityLabel(issue.severity)
   let body = `${emoji} **${label}**: ${issue.message}`
@@ -128,9 +136,22 @@ function formatInlineComment(issue: ReviewIssue): string {
     body += `\n\n**Suggestion:**\n${issue.suggestion}`
   }
 
+  if (issue.replacement !== undefined) {
+    body += postSuggestion
+      ? `\n\n${formatCodeBlock(issue.replacement, 'suggestion')}`
+      : `\n\n**Suggested code:**\n${formatCodeBlock(issue.replacement)}`
+  }
+
   return body
 }
 
+/** Fence code with more backticks than it contains in a row, so it can't close the block early */
+function formatCodeBlock(code: string, info = ''): string {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  return `${fence}${info}\n${code}\n${fence}`
+}
+
 function getSeverityEmoji(severity: ReviewIssue['severity']): string {
   const map = { critical: '🔴', warning: '🟠', info: '🟡' }
   return map[severity]
@@ -1,39 +1,54 @@
-/** Team detection service - discovers user's teams in an organization */
+/** Team detection service - discovers user's teams in the polled organizations */
 
 import type { GitHubClient } from './client.js'
 import type { GitHubTeam } from '../../types/github.js'
+import type { PullRequest } from '../../types/pr.js'
 import { debug, info } from '../../utils/logger.js'
 
 export interface UserTeams {
   teams: GitHubTeam[]
-  teamSlugs: string[]
+  /** `org/slug`, since two orgs can each have a team with the same slug */
+  teamKeys: string[]
 }
 
 export async function detectUserTeams(
   client: GitHubClient,
-  org: string
+  orgs: string | string[]
 ): Promise<UserTeams> {
-  debug('Detecting user teams', { org })
+  const orgList = Array.isArray(orgs) ? orgs : [orgs]
+  debug('Detecting user teams', { orgs: orgList })
 
-  const teams = await client.get<GitHubTeam[]>('/user/teams')
-  const orgTeams = filterOrgTeams(teams, org)
-
-  info(`Found ${orgTeams.length} teams in ${org}`)
+  // One listing covers every org; each source then gets the teams of its own owner
+  const teams = await client.getAll<GitHubTeam>('/user/teams')
+  const orgTeams = orgList.flatMap((org) => {
+    const found = filterOrgTeams(teams, org)
+    info(`Found ${found.length} teams in ${org}`)
+    return found
+  })
 
   return {
     teams: orgTeams,
-    teamSlugs: orgTeams.map((t) => t.slug),
+    teamKeys: [...new Set(orgTeams.map((t) => getTeamKey(t.organization.login, t.slug)))],
   }
 }
 
-function filterOrgTeams(teams: GitHubTeam[], org: string): GitHubTeam[] {
+export function filterOrgTeams(teams: GitHubTeam[], org: string): GitHubTeam[] {
   return teams.filter((t) => t.organization.login.toLowerCase() === org.toLowerCase())
 }
 
-export function isTeamMember(userTeams: UserTeams, teamSlug: string): boolean {
-  return userTeams.teamSlugs.includes(teamSlug)
+export function getTeamKey(org: string, slug: string): string {
+  return `${org}/${slug}`.toLowerCase()
+}
+
+export function isTeamMember(userTeams: UserTeams, org: string, teamSlug: string): boolean {
+  return userTeams.teamKeys.includes(getTeamKey(org, teamSlug))
+}
+
+export function hasAnyTeam(userTeams: UserTeams, teamKeys: string[]): boolean {
+  return teamKeys.some((key) => userTeams.teamKeys.includes(key.toLowerCase()))
 }
 
-export function hasAnyTeam(userTeams: UserTeams, teamSlugs: string[]): boolean {
-  return teamSlugs.some((slug) => userTeams.teamSlugs.includes(slug))
+/** Requested teams carry no org, but a PR can only request teams of its repo's owner */
+export function isRequestedFromTeams(pr: PullRequest, teamKeys: string[]): boolean {
+  return pr.requestedTeams.some((t) => teamKeys.includes(getTeamKey(pr.repository.owner, t.slug)))
 }
@@ -4,8 +4,9 @@ import { Notification, nativeImage, app } from 'electron'
 import { join, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { existsSync } from 'node:fs'
-import type { PullRequest } from '../../types/pr.js'
+import type { PRActivity, PullRequest, ReviewerState } from '../../types/pr.js'
 import type { ReviewResult } from '../../types/review.js'
+import { describeActivity } from '../state/prActivity.js'
 import { debug } from '../../utils/logger.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
@@ -69,6 +70,39 @@ export function notifyNewPR(pr: PullRequest, options: NotificationOptions): void
   notification.show()
 }
 
+/** Something happened on a PR I'd already seen; the latest activity is the title */
+export function notifyPRActivity(
+  pr: PullRequest,
+  activity: PRActivity[],
+  options: NotificationOptions
+): void {
+  debug(`Notifying PR activity: ${pr.id}`)
+
+  const notification = createNotification(
+    describeActivity(activity.at(-1)!),
+    formatActivityMessage(pr, activity),
+    options
+  )
+  notification.show()
+}
+
+/** A reviewer approved, or asked for changes on, one of my PRs */
+export function notifyMyPRReview(
+  pr: PullRequest,
+  reviewer: string,
+  state: Exclude<ReviewerState, 'pending'>,
+  options: NotificationOptions
+): void {
+  debug(`Notifying review on my PR: ${pr.id}`)
+
+  const notification = createNotification(
+    formatMyPRReviewTitle(reviewer, state),
+    `#${pr.number}: ${pr.title}`,
+    options
+  )
+  notification.show()
+}
+
 export function notifyMultiplePRs(count: number, options: NotificationOptions): void {
   debug(`Notifying ${count} new PRs`)
 
@@ -120,3 +154,12 @@ function getVerdictEmoji(verdict: ReviewResult['output']['verdict']): string {
 export function onNotificationClick(callback: () => void): void {
   clickCallback = callback
 }
+
+function formatActivityMessage(pr: PullRequest, activity: PRActivity[]): string {
+  const more = activity.length > 1 ? `\n+${activity.length - 1} more update(s)` : ''
+  return `#${pr.number}: ${pr.title}${more}`
+}
+
+function formatMyPRReviewTitle(reviewer: string, state: Exclude<ReviewerState, 'pending'>): string {
+  return state === 'approved' ? `✅ ${reviewer} approved` : `⚠️ ${reviewer} requested changes`
+}
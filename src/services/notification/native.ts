@@ -3,8 +3,9 @@
 import notifier from 'node-notifier'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import type { PullRequest } from '../../types/pr.js'
+import type { PRActivity, PullRequest, ReviewerState } from '../../types/pr.js'
 import type { ReviewResult } from '../../types/review.js'
+import { describeActivity } from '../state/prActivity.js'
 import { debug } from '../../utils/logger.js'
 
 // Get the path to the app icon for notifications
@@ -28,6 +29,43 @@ export function notifyNewPR(pr: PullRequest, options: NotificationOptions): void
   })
 }
 
+/** Something happened on a PR I'd already seen; the latest activity is the title */
+export function notifyPRActivity(
+  pr: PullRequest,
+  activity: PRActivity[],
+  options: NotificationOptions
+): void {
+  debug(`Notifying PR activity: ${pr.id}`)
+
+  notifier.notify({
+    title: describeActivity(activity.at(-1)!),
+    message: formatActivityMessage(pr, activity),
+    icon: iconPath,
+    sound: options.sound,
+    wait: true,
+    timeout: 10,
+  })
+}
+
+/** A reviewer approved, or asked for changes on, one of my PRs */
+export function notifyMyPRReview(
+  pr: PullRequest,
+  reviewer: string,
+  state: Exclude<ReviewerState, 'pending'>,
+  options: NotificationOptions
+): void {
+  debug(`Notifying review on my PR: ${pr.id}`)
+
+  notifier.notify({
+    title: formatMyPRReviewTitle(reviewer, state),
+    message: `#${pr.number}: ${pr.title}`,
+    icon: iconPath,
+    sound: options.sound,
+    wait: true,
+    timeout: 10,
+  })
+}
+
 export function notifyMultiplePRs(count: number, options: NotificationOptions): void {
   debug(`Notifying ${count} new PRs`)
 
@@ -86,3 +124,12 @@ function getVerdictEmoji(verdict: ReviewResult['output']['verdict']): string {
 export function onNotificationClick(callback: () => void): void {
   notifier.on('click', callback)
 }
+
+function formatActivityMessage(pr: PullRequest, activity: PRActivity[]): string {
+  const more = activity.length > 1 ? `\n+${activity.length - 1} more update(s)` : ''
+  return `#${pr.number}: ${pr.title}${more}`
+}
+
+function formatMyPRReviewTitle(reviewer: string, state: Exclude<ReviewerState, 'pending'>): string {
+  return state === 'approved' ? `✅ ${reviewer} approved` : `⚠️ ${reviewer} requested changes`
+}
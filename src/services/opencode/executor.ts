@@ -5,8 +5,8 @@ import type { ReviewAgent } from '../../types/agent.js'
 import { parseOpenCodeError, createTimeoutError } from './errorHandler.js'
 import { debug, info, error as logError } from '../../utils/logger.js'
 
-// Track running processes for cancellation
-const runningProcesses = new Map<string, ChildProcess>()
+// Track running processes for cancellation; a multi-agent review runs several per PR
+const runningProcesses = new Map<string, Set<ChildProcess>>()
 
 export interface ExecuteOptions {
   prompt: string
@@ -14,6 +14,8 @@ export interface ExecuteOptions {
   timeoutMs?: number
   model?: string
   prId?: string
+  /** Receives each stdout chunk as it arrives, before the process exits */
+  onOutput?: (chunk: string) => void
 }
 
 export interface ExecuteResult {
@@ -26,22 +28,37 @@ export interface ExecuteResult {
 const DEFAULT_TIMEOUT = 300000
 
 export function abortExecution(prId: string): boolean {
-  const proc = runningProcesses.get(prId)
-  if (proc) {
-    info(`Aborting OpenCode execution for PR: ${prId}`)
-    proc.kill('SIGTERM')
-    setTimeout(() => proc.kill('SIGKILL'), 2000)
+  const procs = runningProcesses.get(prId)
+  if (procs) {
+    info(`Aborting OpenCode execution for PR: ${prId}`, { processes: procs.size })
+    for (const proc of procs) {
+      proc.kill('SIGTERM')
+      setTimeout(() => proc.kill('SIGKILL'), 2000)
+    }
     runningProcesses.delete(prId)
     return true
   }
   return false
 }
 
+function trackProcess(prId: string, proc: ChildProcess): void {
+  const procs = runningProcesses.get(prId) ?? new Set()
+  procs.add(proc)
+  runningProcesses.set(prId, procs)
+}
+
+function untrackProcess(prId: string, proc: ChildProcess): void {
+  const procs = runningProcesses.get(prId)
+  if (!procs) return
+  procs.delete(proc)
+  if (procs.size === 0) runningProcesses.delete(prId)
+}
+
 export async function executeOpenCode(
   options: ExecuteOptions,
   opencodePath = 'opencode'
 ): Promise<ExecuteResult> {
-  const { prompt, agent, timeoutMs = DEFAULT_TIMEOUT, model, prId } = options
+  const { prompt, agent, timeoutMs = DEFAULT_TIMEOUT, model, prId, onOutput } = options
   const startTime = Date.now()
   
   const effectiveModel = model || agent.model
@@ -88,7 +105,7 @@ export async function executeOpenCode(
     })
 
     if (prId) {
-      runningProcesses.set(prId, proc)
+      trackProcess(prId, proc)
     }
 
     let stdout = ''
@@ -123,7 +140,9 @@ export async function executeOpenCode(
     }, 30000)
 
     proc.stdout.on('data', (data: Buffer) => {
-      stdout += data.toString()
+      const chunk = data.toString()
+      stdout += chunk
+      onOutput?.(chunk)
       const now = Date.now()
       // Log progress every 5 seconds to avoid spam
       if (now - lastLogTime > 5000) {
@@ -150,7 +169,7 @@ export async function executeOpenCode(
     proc.on('close', (exitCode) => {
       clearTimeout(timeoutId)
       clearInterval(statusInterval)
-      if (prId) runningProcesses.delete(prId)
+      if (prId) untrackProcess(prId, proc)
       
       const duration = Date.now() - startTime
 
@@ -202,7 +221,7 @@ export async function executeOpenCode(
     proc.on('error', (err) => {
       clearTimeout(timeoutId)
       clearInterval(statusInterval)
-      if (prId) runningProcesses.delete(prId)
+      if (prId) untrackProcess(prId, proc)
       
       if (err.message.includes('SIGTERM')) {
         cancelled = true
@@ -49,6 +49,15 @@ export async function fetchAvailableModels(
   }
 }
 
+/** Context window of a model in tokens, if OpenCode reports one */
+export async function getModelContextLimit(
+  modelId: string,
+  opencodePath = 'opencode'
+): Promise<number | undefined> {
+  const models = await fetchAvailableModels(opencodePath)
+  return models.find((m) => m.id === modelId)?.contextLimit
+}
+
 function executeModelsCommand(opencodePath: string, refresh: boolean): Promise<string> {
   return new Promise((resolve, reject) => {
     const args = ['models', '--verbose']
@@ -1,9 +1,16 @@
 /** OpenCode response parser */
 
-import type { AIReviewOutput, ReviewIssue, ReviewSuggestion } from '../../types/review.js'
+import type {
+  AIReviewOutput,
+  DiffSide,
+  ReviewIssue,
+  ReviewSuggestion,
+  PreviousIssueFollowUp,
+} from '../../types/review.js'
 import { warn, info, debug } from '../../utils/logger.js'
 
-export function parseReviewResponse(output: string): AIReviewOutput {
+/** Parse an AI response; pass the previous review's issues when parsing an incremental re-review */
+export function parseReviewResponse(output: string, previousIssues?: ReviewIssue[]): AIReviewOutput {
   // First, extract text from OpenCode JSON events if present
   const textContent = extractTextFromEvents(output)
   const contentToParse = textContent || output
@@ -29,6 +36,10 @@ export function parseReviewResponse(output: string): AIReviewOutput {
 
   // Log the parsed review nicely
   const review = validateAndNormalizeReview(json)
+  if (previousIssues) {
+    const obj = isObject(json) ? json : {}
+    review.previousIssues = normalizePreviousIssues(obj.previousIssues, previousIssues)
+  }
   logParsedReview(review)
   
   return review
@@ -82,6 +93,16 @@ function logParsedReview(review: AIReviewOutput): void {
   info('[Parser] ═══════════════════════════════════════════════════════')
 }
 
+/** Text carried by one OpenCode JSON event line, or null for other events and non-JSON lines */
+function extractEventText(line: string): string | null {
+  try {
+    const event = JSON.parse(line)
+    return event.type === 'text' && event.part?.text ? event.part.text : null
+  } catch {
+    return null
+  }
+}
+
 function extractTextFromEvents(output: string): string | null {
   // OpenCode outputs JSON events, one per line
   // We need to extract text parts from these events
@@ -89,16 +110,8 @@ function extractTextFromEvents(output: string): string | null {
   const textParts: string[] = []
   
   for (const line of lines) {
-    try {
-      const event = JSON.parse(line)
-      // Extract text from text events
-      if (event.type === 'text' && event.part?.text) {
-        textParts.push(event.part.text)
-      }
-    } catch {
-      // Not a JSON event, might be raw text
-      continue
-    }
+    const text = extractEventText(line)
+    if (text) textParts.push(text)
   }
   
   if (textParts.length > 0) {
@@ -109,6 +122,26 @@ function extractTextFromEvents(output: string): string | null {
   return null
 }
 
+/**
+ * Turn raw stdout chunks into the model's text as it streams. Chunks can split an event line, so
+ * the unfinished tail is held back until the next chunk completes it; plain lines pass through.
+ */
+export function createTextStream(onText: (text: string) => void): (chunk: string) => void {
+  let pending = ''
+
+  return (chunk) => {
+    const lines = (pending + chunk).split('\n')
+    pending = lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+      const isEvent = line.trimStart().startsWith('{')
+      const text = isEvent ? extractEventText(line) : `${line}\n`
+      if (text) onText(text)
+    }
+  }
+}
+
 function extractJson(output: string): unknown | null {
   // Try multiple strategies to extract JSON
   
@@ -248,15 +281,38 @@ function normalizeIssues(value: unknown): ReviewIssue[] {
     const endLine = getOptionalNumber(obj.endLine)
     if (endLine) issue.endLine = endLine
 
+    const side = normalizeSide(obj.side)
+    if (side) issue.side = side
+
+    const anchor = getOptionalString(obj.anchor)
+    if (anchor?.trim()) issue.anchor = anchor
+
     const suggestion = getOptionalString(obj.suggestion)
     if (suggestion) issue.suggestion = suggestion
 
+    const replacement = normalizeReplacement(obj.replacement)
+    if (replacement !== undefined) issue.replacement = replacement
+
     issues.push(issue)
   }
 
   return issues
 }
 
+function normalizeSide(value: unknown): DiffSide | undefined {
+  const str = getOptionalString(value)?.toUpperCase()
+  return str === 'LEFT' || str === 'RIGHT' ? str : undefined
+}
+
+/** Replacement code as-is, minus a wrapping code fence the model may add anyway */
+function normalizeReplacement(value: unknown): string | undefined {
+  const str = getOptionalString(value)
+  if (!str?.trim()) return undefined
+
+  const fenced = str.match(/^\s*(`{3,})[^\n]*\n([\s\S]*?)\n?\1\s*$/)
+  return (fenced ? fenced[2] : str).replace(/\n+$/, '')
+}
+
 function normalizeSuggestions(value: unknown): ReviewSuggestion[] {
   if (!Array.isArray(value)) return []
 
@@ -275,6 +331,40 @@ function normalizeSuggestions(value: unknown): ReviewSuggestion[] {
   })
 }
 
+function normalizePreviousIssues(
+  value: unknown,
+  previousIssues: ReviewIssue[]
+): PreviousIssueFollowUp[] {
+  const reported = new Map<number, Record<string, unknown>>()
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!isObject(item)) continue
+      const index = getOptionalNumber(item.index)
+      if (index) reported.set(index, item)
+    }
+  }
+
+  // Issues the AI didn't mention are conservatively treated as still open
+  return previousIssues.map((issue, i) => {
+    const entry = reported.get(i + 1)
+    const followUp: PreviousIssueFollowUp = {
+      issue,
+      status: normalizeFollowUpStatus(entry?.status),
+    }
+
+    const note = getOptionalString(entry?.note)
+    if (note) followUp.note = note
+
+    return followUp
+  })
+}
+
+function normalizeFollowUpStatus(value: unknown): PreviousIssueFollowUp['status'] {
+  const str = String(value).trim().toLowerCase()
+  return ['fixed', 'resolved', 'addressed'].includes(str) ? 'fixed' : 'open'
+}
+
 function normalizePositives(value: unknown): string[] | undefined {
   if (!Array.isArray(value)) return undefined
   return value.map((v) => String(v))
@@ -2,6 +2,7 @@
 
 import type { PullRequest } from '../../types/pr.js'
 import type { ReviewAgent, SkillId } from '../../types/agent.js'
+import type { ReviewIssue, ReviewResult, ReviewBatchInfo } from '../../types/review.js'
 import { buildSkillsPrompt, buildCustomSkillsPrompt, buildAllMemoriesPrompt } from './skills.js'
 
 export const DEFAULT_REVIEW_PROMPT = `You are an expert code reviewer. When reviewing a pull request, analyze:
@@ -47,8 +48,12 @@ Provide your review as JSON with this structure:
       "severity": "critical" | "warning" | "info",
       "file": "path/to/file.ts",
       "line": 42,
+      "endLine": 44,
+      "side": "RIGHT" | "LEFT",
+      "anchor": "Code copied from the diff at that line (optional)",
       "message": "Description of the issue",
-      "suggestion": "How to fix (optional)"
+      "suggestion": "How to fix (optional)",
+      "replacement": "Exact code replacing lines line..endLine (optional)"
     }
   ],
   "suggestions": [
@@ -59,11 +64,21 @@ Provide your review as JSON with this structure:
   "positives": ["Things done well (optional)"]
 }
 
+Line numbers refer to the new file. For an issue about removed code, set "side" to "LEFT" and
+use the old file's line numbers from the "-" lines of the diff. Give an "anchor" with the code
+of that line, copied exactly, so the comment can be placed even if the line number is off.
+
+Only give a "replacement" when the fix is a drop-in edit to lines in the diff: complete lines
+with their exact indentation, replacing "line" through "endLine" (or just "line"), without
+diff markers or code fences. It is posted as a suggested change the author can apply.
+
 Be constructive, specific, and provide code examples where helpful.`
 
 export interface PromptOptions {
   agent?: ReviewAgent
   includeMemories?: boolean
+  /** Set when the diff only holds one batch of a PR too large to review in one pass */
+  batch?: ReviewBatchInfo
 }
 
 export function buildReviewPrompt(pr: PullRequest, diff: string, options?: PromptOptions): string {
@@ -90,7 +105,7 @@ ${pr.body || 'No description provided'}
 - Files changed: ${pr.stats.changedFiles}
 - Additions: +${pr.stats.additions}
 - Deletions: -${pr.stats.deletions}
-
+${formatBatchNote(options?.batch)}
 ### Diff
 \`\`\`diff
 ${diff}
@@ -99,6 +114,80 @@ ${diff}
 Provide your review as JSON with the structure specified above.`
 }
 
+export function buildIncrementalReviewPrompt(
+  pr: PullRequest,
+  diff: string,
+  previous: ReviewResult,
+  options?: PromptOptions
+): string {
+  const basePrompt = options?.agent?.prompt || DEFAULT_REVIEW_PROMPT
+  const skillsSection = buildAgentSkillsPrompt(options?.agent)
+  const memoriesSection = buildAllMemoriesPrompt()
+  const previousSha = previous.headSha.slice(0, 7)
+  const headSha = pr.head.sha.slice(0, 7)
+
+  return `${basePrompt}${skillsSection}${memoriesSection}
+
+---
+
+Re-review this pull request. It was already reviewed at commit ${previousSha}; the diff below
+only contains the changes pushed since then (${previousSha}...${headSha}).
+${formatBatchNote(options?.batch)}
+## PR #${pr.number}: ${pr.title}
+**Author:** ${pr.author.login}
+**Repository:** ${pr.repository.fullName}
+**Base:** ${pr.base.ref} <- ${pr.head.ref}
+
+### Previous Review Summary
+${previous.output.summary}
+
+### Open Issues From Earlier Reviews
+${formatPreviousIssues(getOpenIssues(previous))}
+
+### New Changes
+\`\`\`diff
+${diff}
+\`\`\`
+
+For each previous issue, decide whether the new changes fix it and add this field to your JSON:
+"previousIssues": [{ "index": 1, "status": "fixed" | "open", "note": "Short explanation" }]
+
+Only report problems introduced by the new changes in "issues".
+Provide your review as JSON with the structure specified above.`
+}
+
+/**
+ * Issues a review leaves open: the ones it raised plus the earlier ones it judged still open, so
+ * a chain of re-reviews keeps following an issue until one of them sees it fixed.
+ */
+export function getOpenIssues(review: ReviewResult): ReviewIssue[] {
+  const carried = (review.output.previousIssues ?? [])
+    .filter((p) => p.status === 'open')
+    .map((p) => p.issue)
+  return [...carried, ...review.output.issues]
+}
+
+function formatBatchNote(batch?: ReviewBatchInfo): string {
+  if (!batch) return ''
+
+  return `
+This PR is too large to review at once. This is part ${batch.index + 1} of ${batch.total}: the diff
+below only contains some of the changed files. Only report issues in the files shown, and mark a
+previous issue as fixed only if these changes fix it.
+`
+}
+
+function formatPreviousIssues(issues: ReviewIssue[]): string {
+  if (issues.length === 0) return 'None'
+
+  return issues
+    .map((issue, i) => {
+      const loc = issue.file ? ` ${issue.file}${issue.line ? `:${issue.line}` : ''}` : ''
+      return `${i + 1}. [${issue.severity}]${loc} - ${issue.message}`
+    })
+    .join('\n')
+}
+
 function buildAgentSkillsPrompt(agent?: ReviewAgent): string {
   if (!agent?.skills || agent.skills.length === 0) return ''
 
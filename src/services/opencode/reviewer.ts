@@ -3,16 +3,21 @@
 import { randomUUID } from 'node:crypto'
 import type { PullRequest } from '../../types/pr.js'
 import type { ReviewAgent } from '../../types/agent.js'
-import type { ReviewResult, AIReviewOutput, ReviewStage } from '../../types/review.js'
+import type {
+  ReviewResult,
+  AIReviewOutput,
+  ReviewStage,
+  ReviewBatchInfo,
+} from '../../types/review.js'
 import { isOpenCodeInstalled, getOpenCodePath } from './detector.js'
 import { executeOpenCode, abortExecution } from './executor.js'
-import { buildReviewPrompt } from './prompts.js'
-import { parseReviewResponse } from './parser.js'
+import { buildReviewPrompt, buildIncrementalReviewPrompt, getOpenIssues } from './prompts.js'
+import { parseReviewResponse, createTextStream } from './parser.js'
 import { createNotInstalledError } from './errorHandler.js'
 import { info } from '../../utils/logger.js'
 
-// Track active reviews for cancellation
-const activeReviews = new Map<string, AbortController>()
+// Track active reviews for cancellation; a multi-agent review runs several per PR
+const activeReviews = new Map<string, Set<AbortController>>()
 
 export interface ReviewOptions {
   agent: ReviewAgent
@@ -20,14 +25,20 @@ export interface ReviewOptions {
   model?: string
   timeoutMs?: number
   opencodePath?: string
+  /** When set, `diff` only holds changes since this review and the prompt asks for a follow-up */
+  previousReview?: ReviewResult
+  /** When set, `diff` only holds this batch of a PR split to fit the model context */
+  batch?: ReviewBatchInfo
   onProgress?: (stage: ReviewStage) => void
+  /** Receives the model's text as it streams in */
+  onOutput?: (text: string) => void
 }
 
 export function cancelReview(prId: string): boolean {
-  const controller = activeReviews.get(prId)
-  if (controller) {
+  const controllers = activeReviews.get(prId)
+  if (controllers) {
     info(`Cancelling review for PR: ${prId}`)
-    controller.abort()
+    for (const controller of controllers) controller.abort()
     activeReviews.delete(prId)
     abortExecution(prId)
     return true
@@ -41,8 +52,10 @@ export async function reviewPullRequest(
 ): Promise<ReviewResult> {
   const startTime = Date.now()
   const controller = new AbortController()
-  activeReviews.set(pr.id, controller)
-  
+  const controllers = activeReviews.get(pr.id) ?? new Set()
+  controllers.add(controller)
+  activeReviews.set(pr.id, controllers)
+
   const effectiveModel = options.model || options.agent.model
   const provider = extractProvider(effectiveModel)
 
@@ -75,8 +88,14 @@ export async function reviewPullRequest(
     info('[Reviewer] Building review prompt...', {
       diffLines: options.diff.split('\n').length,
       agentSkills: options.agent.skills?.length || 0,
+      incremental: Boolean(options.previousReview),
+      batch: options.batch ? `${options.batch.index + 1}/${options.batch.total}` : undefined,
     })
-    const prompt = buildReviewPrompt(pr, options.diff, { agent: options.agent })
+    const { previousReview } = options
+    const promptOptions = { agent: options.agent, batch: options.batch }
+    const prompt = previousReview
+      ? buildIncrementalReviewPrompt(pr, options.diff, previousReview, promptOptions)
+      : buildReviewPrompt(pr, options.diff, promptOptions)
     info('[Reviewer] Prompt built', { promptLength: prompt.length })
 
     checkAborted(controller)
@@ -95,6 +114,7 @@ export async function reviewPullRequest(
         model: options.model,
         timeoutMs: options.timeoutMs,
         prId: pr.id,
+        onOutput: options.onOutput && createTextStream(options.onOutput),
       },
       opencodePath
     )
@@ -104,7 +124,10 @@ export async function reviewPullRequest(
     info('[Reviewer] Parsing AI response...', {
       responseLength: result.stdout.length,
     })
-    const output = parseReviewResponse(result.stdout)
+    const output = parseReviewResponse(
+      result.stdout,
+      previousReview ? getOpenIssues(previousReview) : undefined
+    )
     const duration = Date.now() - startTime
 
     info('[Reviewer] Review completed', {
@@ -119,9 +142,20 @@ export async function reviewPullRequest(
       hasPositives: (output.positives?.length || 0) > 0,
     })
 
-    return createReviewResult(pr, options.agent, output, result.stdout, duration)
+    const reviewResult = createReviewResult(pr, options.agent, output, result.stdout, duration)
+    if (previousReview) {
+      reviewResult.incremental = {
+        previousReviewId: previousReview.id,
+        previousHeadSha: previousReview.headSha,
+      }
+    }
+
+    return reviewResult
   } finally {
-    activeReviews.delete(pr.id)
+    controllers.delete(controller)
+    if (controllers.size === 0 && activeReviews.get(pr.id) === controllers) {
+      activeReviews.delete(pr.id)
+    }
   }
 }
 
@@ -154,6 +188,7 @@ function createReviewResult(
     id: randomUUID(),
     prId: pr.id,
     prNumber: pr.number,
+    headSha: pr.head.sha,
     agentId: agent.id,
     output,
     rawResponse,
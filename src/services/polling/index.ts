@@ -5,8 +5,19 @@ export {
   stopPolling,
   isPolling,
   getLastPollTime,
+  getNextPollTime,
+  getNextPollDelay,
   getPollCount,
   pollNow,
   resetSchedulerState,
   type PollCallback,
 } from './scheduler.js'
+export { wakeSnoozedPRs } from './snooze.js'
+export { refreshPRSignals } from './signals.js'
+export { checkMentions } from './mentions.js'
+export {
+  refreshMyPRs,
+  setMyPRCallbacks,
+  type MyPRReviewEvent,
+  type MyPRCallbacks,
+} from './myPRs.js'
@@ -0,0 +1,73 @@
+/** Mention checks - read new comments on tracked PRs and record the ones that mention me */
+
+import type { GitHubClient } from '../github/client.js'
+import type { GitHubComment } from '../../types/github.js'
+import type { PRActivity } from '../../types/pr.js'
+import { getLowRateLimitBudget } from '../github/rateLimit.js'
+import { addPRActivity, getPRState, type UpdatedPR } from '../state/prStore.js'
+import { debug, warn } from '../../utils/logger.js'
+
+/** Check each PR's comments since the previous poll; returns the PRs that mention me */
+export async function checkMentions(
+  client: GitHubClient,
+  username: string,
+  updated: UpdatedPR[]
+): Promise<string[]> {
+  if (updated.length === 0) return []
+
+  // Two calls per PR; mentions wait for a poll with budget to spare
+  if (getLowRateLimitBudget()) {
+    debug(`Rate limit budget low, skipping mention checks for ${updated.length} PR(s)`)
+    return []
+  }
+
+  const mentioned: string[] = []
+  for (const { prId, since } of updated) {
+    const pr = getPRState(prId)?.pr
+    if (!pr) continue
+
+    try {
+      const comments = await fetchCommentsSince(client, pr.repository.fullName, pr.number, since)
+      const activity: PRActivity[] = comments
+        .filter((c) => !isSameLogin(c.user.login, username) && mentionsUser(c.body, username))
+        .map((c) => ({ type: 'mentioned', at: new Date(c.created_at), detail: c.user.login }))
+
+      if (activity.length > 0) {
+        addPRActivity(prId, activity)
+        mentioned.push(prId)
+      }
+    } catch (error) {
+      warn('Failed to check PR comments for mentions', { prId, error: String(error) })
+    }
+  }
+
+  return mentioned
+}
+
+/** `@name` on its own, not inside an email address or a longer login */
+export function mentionsUser(body: string, username: string): boolean {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^\\w@/-])@${escaped}(?![\\w-])`, 'i').test(body)
+}
+
+async function fetchCommentsSince(
+  client: GitHubClient,
+  repo: string,
+  prNumber: number,
+  since: Date
+): Promise<GitHubComment[]> {
+  // `since` also matches older comments edited later, so creation time is checked again
+  const query = { since: since.toISOString() }
+  const [conversation, review] = await Promise.all([
+    client.getAll<GitHubComment>(`/repos/${repo}/issues/${prNumber}/comments`, { query }),
+    client.getAll<GitHubComment>(`/repos/${repo}/pulls/${prNumber}/comments`, { query }),
+  ])
+
+  return [...conversation, ...review]
+    .filter((c) => new Date(c.created_at) > since)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+function isSameLogin(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
@@ -0,0 +1,97 @@
+/** My PR refresh - follow reviews, CI and conflicts on the PRs I authored */
+
+import type { MyPRState, PullRequest, ReviewerState } from '../../types/pr.js'
+import type { GitHubClient } from '../github/client.js'
+import { fetchAuthoredPRState } from '../github/authoredPRs.js'
+import { getLowRateLimitBudget } from '../github/rateLimit.js'
+import { getMyPRState, retainMyPRs, setMyPRState } from '../state/myPRStore.js'
+import { debug, warn } from '../../utils/logger.js'
+
+// Pushes to the base branch can cause conflicts without touching the PR itself
+const RECHECK_AFTER_MS = 15 * 60 * 1000
+
+export interface MyPRReviewEvent {
+  pr: PullRequest
+  reviewer: string
+  state: Exclude<ReviewerState, 'pending'>
+}
+
+export interface MyPRCallbacks {
+  onReview?: (event: MyPRReviewEvent) => void
+}
+
+let callbacks: MyPRCallbacks = {}
+
+export function setMyPRCallbacks(handlers: MyPRCallbacks): void {
+  callbacks = handlers
+}
+
+/**
+ * Refetch my open PRs that changed since their last fetch and report reviewers who approved or
+ * requested changes since then. A PR seen for the first time only sets the baseline, so a
+ * restart doesn't replay reviews that were already there. PRs `isUnfetched` matches are missing
+ * from `prs` because their source failed, so they are kept until a poll can see them again.
+ */
+export async function refreshMyPRs(
+  client: GitHubClient,
+  prs: PullRequest[],
+  isUnfetched?: (pr: PullRequest) => boolean,
+  now = new Date()
+): Promise<MyPRReviewEvent[]> {
+  retainMyPRs(new Set(prs.map((pr) => pr.id)), (state) => isUnfetched?.(state.pr) ?? false)
+
+  const stale: PullRequest[] = []
+  for (const pr of prs) {
+    const previous = getMyPRState(pr.id)
+    // Titles and requested reviewers come with the poll, so those stay current regardless
+    if (previous) setMyPRState({ ...previous, pr })
+    if (!previous || needsRefresh(previous, pr, now)) stale.push(pr)
+  }
+  if (stale.length === 0) return []
+
+  // Three calls per PR; the view keeps the last fetched state until there's budget again
+  if (getLowRateLimitBudget()) {
+    debug(`Rate limit budget low, skipping refresh of ${stale.length} PR(s) of mine`)
+    return []
+  }
+
+  const events: MyPRReviewEvent[] = []
+  for (const pr of stale) {
+    try {
+      const previous = getMyPRState(pr.id)
+      const next = await fetchAuthoredPRState(client, pr)
+      setMyPRState(next)
+      if (previous) events.push(...findReviewEvents(previous, next))
+    } catch (error) {
+      warn('Failed to refresh my PR', { prId: pr.id, error: String(error) })
+    }
+  }
+
+  for (const event of events) {
+    callbacks.onReview?.(event)
+  }
+  return events
+}
+
+/** Reviewers whose verdict turned into an approval or a change request */
+export function findReviewEvents(previous: MyPRState, next: MyPRState): MyPRReviewEvent[] {
+  const before = new Map(previous.reviewers.filter((r) => !r.team).map((r) => [r.login, r.state]))
+
+  const events: MyPRReviewEvent[] = []
+  for (const { login, state, team } of next.reviewers) {
+    if (team || state === 'pending' || before.get(login) === state) continue
+    events.push({ pr: next.pr, reviewer: login, state })
+  }
+  return events
+}
+
+/** Reviews bump `updatedAt`, but finished checks and computed mergeability don't */
+function needsRefresh(state: MyPRState, pr: PullRequest, now: Date): boolean {
+  return (
+    state.headSha !== pr.head.sha ||
+    pr.updatedAt > state.fetchedAt ||
+    state.ci === 'pending' ||
+    state.mergeable === null ||
+    now.getTime() - state.fetchedAt.getTime() > RECHECK_AFTER_MS
+  )
+}
@@ -1,34 +1,67 @@
 /** Polling scheduler - manages periodic PR fetching */
 
-import type { PullRequest } from '../../types/pr.js'
+import type { PRState, PullRequest } from '../../types/pr.js'
 import type { GitHubClient } from '../github/client.js'
 import type { UserTeams } from '../github/teamDetector.js'
-import { fetchAllOrgPRs } from '../github/prFetcher.js'
-import { filterPRsForReview } from '../github/reviewFilter.js'
-import { syncPRs, getNewPRs, setUserTeams, type SyncPRsOptions } from '../state/prStore.js'
+import {
+  fetchAllSourcePRs,
+  isPRFromSource,
+  type PRSource,
+  type SourcePRs,
+} from '../github/prSources.js'
+import { searchOpenPRs } from '../github/prSearch.js'
+import { filterAuthoredPRs, filterPRsForReview } from '../github/reviewFilter.js'
+import { syncPRs, getPRState, setUserTeams, type SyncPRsOptions } from '../state/prStore.js'
+import { hasNewActivity } from '../state/prActivity.js'
+import {
+  isAutoReviewEnabled,
+  isOpenCodeEnabled,
+  getFetchStrategy,
+  getRepoRules,
+} from '../state/settingsStore.js'
+import { isRepoIncluded } from '../github/repoRules.js'
+import { enqueueAutoReviews } from '../review/autoReview.js'
+import { wakeSnoozedPRs } from './snooze.js'
+import { refreshPRSignals } from './signals.js'
+import { checkMentions } from './mentions.js'
+import { refreshMyPRs } from './myPRs.js'
+import { getLowRateLimitBudget } from '../github/rateLimit.js'
+import { GitHubError } from '../../types/errors.js'
 import { info, warn, debug } from '../../utils/logger.js'
 
-export type PollCallback = (newPRs: PullRequest[], allPRs: PullRequest[]) => void
+/** `updates` has the PRs worth a notification: new ones, and ones with new activity */
+export type PollCallback = (updates: PRState[], allPRs: PullRequest[]) => void
 
 interface SchedulerState {
-  intervalId: NodeJS.Timeout | null
+  timerId: NodeJS.Timeout | null
   isRunning: boolean
   lastPollTime: Date | null
+  nextPollTime: Date | null
   pollCount: number
+  /** Set when GitHub rejected a poll for rate limiting */
+  backoffUntil: Date | null
 }
 
+// Stretch factor for the poll interval while the rate limit budget is low
+const LOW_BUDGET_INTERVAL_MULTIPLIER = 3
+
 let state: SchedulerState = {
-  intervalId: null,
+  timerId: null,
   isRunning: false,
   lastPollTime: null,
+  nextPollTime: null,
   pollCount: 0,
+  backoffUntil: null,
 }
 
 let pollCallback: PollCallback | null = null
 
+// Bumped on stop so a poll that is still in flight doesn't schedule another one
+let generation = 0
+
 export function startPolling(
   client: GitHubClient,
-  org: string,
+  sources: PRSource[],
   username: string,
   userTeams: UserTeams,
   intervalMs: number,
@@ -43,28 +76,55 @@ export function startPolling(
   state.isRunning = true
   
   // Store user teams for PR route access
-  setUserTeams(userTeams.teamSlugs)
+  setUserTeams(userTeams.teamKeys)
 
   info(`Starting polling every ${intervalMs / 1000}s`)
 
-  // Run immediately
-  void runPoll(client, org, username, userTeams)
+  const currentGeneration = generation
+  const pollAndReschedule = async (): Promise<void> => {
+    await runPoll(client, sources, username, userTeams)
+    if (!state.isRunning || generation !== currentGeneration) return
 
-  // Schedule recurring polls
-  state.intervalId = setInterval(() => {
-    void runPoll(client, org, username, userTeams)
-  }, intervalMs)
+    const delayMs = getNextPollDelay(intervalMs)
+    if (delayMs > intervalMs) {
+      info(`Rate limit budget low, next poll in ${Math.round(delayMs / 1000)}s`)
+    }
+    state.nextPollTime = new Date(Date.now() + delayMs)
+    state.timerId = setTimeout(() => void pollAndReschedule(), delayMs)
+  }
+
+  // Run immediately, then reschedule after each poll
+  void pollAndReschedule()
 }
 
 export function stopPolling(): void {
-  if (state.intervalId) {
-    clearInterval(state.intervalId)
-    state.intervalId = null
+  generation++
+  if (state.timerId) {
+    clearTimeout(state.timerId)
+    state.timerId = null
   }
   state.isRunning = false
+  state.nextPollTime = null
   info('Polling stopped')
 }
 
+/** Poll interval, stretched while the rate limit budget is low and held until a hit limit resets */
+export function getNextPollDelay(intervalMs: number): number {
+  const now = Date.now()
+
+  if (state.backoffUntil && state.backoffUntil.getTime() > now) {
+    return Math.max(intervalMs, state.backoffUntil.getTime() - now)
+  }
+
+  const low = getLowRateLimitBudget()
+  if (!low) return intervalMs
+
+  const untilReset = low.reset.getTime() - now
+  if (low.remaining === 0) return Math.max(intervalMs, untilReset)
+
+  return Math.max(intervalMs, Math.min(intervalMs * LOW_BUDGET_INTERVAL_MULTIPLIER, untilReset))
+}
+
 export function isPolling(): boolean {
   return state.isRunning
 }
@@ -73,40 +133,54 @@ export function getLastPollTime(): Date | null {
   return state.lastPollTime
 }
 
+export function getNextPollTime(): Date | null {
+  return state.nextPollTime
+}
+
 export function getPollCount(): number {
   return state.pollCount
 }
 
 export async function pollNow(
   client: GitHubClient,
-  org: string,
+  sources: PRSource[],
   username: string,
   userTeams: UserTeams
 ): Promise<PullRequest[]> {
-  return runPoll(client, org, username, userTeams)
+  return runPoll(client, sources, username, userTeams)
 }
 
 async function runPoll(
   client: GitHubClient,
-  org: string,
+  sources: PRSource[],
   username: string,
   userTeams: UserTeams
 ): Promise<PullRequest[]> {
   debug('Running poll')
 
   try {
-    const allPRs = await fetchAllOrgPRs(client, { org })
+    const rules = getRepoRules()
+    const { prs: allPRs, failedSources } = await fetchPRs(client, sources)
     
     // Get all non-draft PRs from others
-    const allOthersPRs = filterPRsForReview(allPRs, { username, userTeams, showAllPRs: true })
+    const allOthersPRs = filterPRsForReview(allPRs, { username, userTeams, showAllPRs: true, rules })
     
     // Get PRs specifically requesting my review
-    const myReviewPRs = filterPRsForReview(allPRs, { username, userTeams, showAllPRs: false })
+    const myReviewPRs = filterPRsForReview(allPRs, { username, userTeams, showAllPRs: false, rules })
     const myReviewPRIds = new Set(myReviewPRs.map(pr => pr.id))
 
-    const syncOptions: SyncPRsOptions = { prs: allOthersPRs, myReviewPRIds }
-    const { added } = syncPRs(syncOptions)
-    const newPRs = getNewPRs().map((s) => s.pr)
+    // PRs of a source that failed this poll are missing, not closed
+    const isUnfetched = (pr: PullRequest): boolean =>
+      failedSources.some((source) => isPRFromSource(pr, source))
+    const syncOptions: SyncPRsOptions = { prs: allOthersPRs, myReviewPRIds, isUnfetched }
+    const { added, active, updated } = syncPRs(syncOptions)
+    // Woken PRs are new again, so they show up in this poll's notification
+    const woken = await wakeSnoozedPRs(client)
+    const mentioned = await checkMentions(client, username, updated)
+    await refreshPRSignals(client, { username, teamKeys: userTeams.teamKeys })
+    // Review verdicts on my own PRs go straight to their callback, not into `updates`
+    await refreshMyPRs(client, filterAuthoredPRs(allPRs, username, rules), isUnfetched)
+    const updates = getPollUpdates([...added, ...active, ...woken, ...mentioned])
 
     state.lastPollTime = new Date()
     state.pollCount++
@@ -114,23 +188,62 @@ async function runPoll(
     if (added.length > 0) {
       info(`Found ${added.length} new PR(s), ${myReviewPRs.length} need my review`)
     }
+    if (woken.length > 0) {
+      info(`Woke ${woken.length} snoozed PR(s)`)
+    }
 
-    pollCallback?.(newPRs, allOthersPRs)
+    pollCallback?.(updates, allOthersPRs)
+    queueAutoReviews(client, added.filter((id) => myReviewPRIds.has(id)))
 
     return allOthersPRs
   } catch (error) {
+    if (error instanceof GitHubError && error.rateLimitReset) {
+      state.backoffUntil = error.rateLimitReset
+    }
     warn('Poll failed', { error: String(error) })
     return []
   }
 }
 
+/** PRs touched by this poll that still have something new; restored ones I'd seen stay quiet */
+function getPollUpdates(prIds: string[]): PRState[] {
+  return [...new Set(prIds)]
+    .map((id) => getPRState(id))
+    .filter((s): s is PRState => s !== undefined && hasNewActivity(s))
+}
+
+async function fetchPRs(client: GitHubClient, sources: PRSource[]): Promise<SourcePRs> {
+  const rules = getRepoRules()
+  const includeRepo = (fullName: string): boolean => isRepoIncluded(fullName, rules)
+
+  if (getFetchStrategy() === 'graphql') {
+    try {
+      const prs = await searchOpenPRs(client, sources)
+      return { prs: prs.filter((pr) => includeRepo(pr.repository.fullName)), failedSources: [] }
+    } catch (error) {
+      warn('GraphQL search failed, falling back to REST', { error: String(error) })
+    }
+  }
+
+  return fetchAllSourcePRs(client, sources, { includeRepo })
+}
+
+function queueAutoReviews(client: GitHubClient, prIds: string[]): void {
+  if (prIds.length === 0) return
+  if (!isOpenCodeEnabled() || !isAutoReviewEnabled()) return
+
+  enqueueAutoReviews(client, prIds)
+}
+
 export function resetSchedulerState(): void {
   stopPolling()
   state = {
-    intervalId: null,
+    timerId: null,
     isRunning: false,
     lastPollTime: null,
+    nextPollTime: null,
     pollCount: 0,
+    backoffUntil: null,
   }
   pollCallback = null
 }
@@ -0,0 +1,45 @@
+/** Signal refresh - keep priority signals current for the PRs waiting on my review */
+
+import type { PRState } from '../../types/pr.js'
+import type { GitHubClient } from '../github/client.js'
+import { fetchPRSignals, type SignalsReviewer } from '../github/prSignals.js'
+import { getLowRateLimitBudget } from '../github/rateLimit.js'
+import { getMyReviewPRs, setPRSignals } from '../state/prStore.js'
+import { debug, warn } from '../../utils/logger.js'
+
+/** Fetch signals for pending PRs that changed since their last fetch; returns how many */
+export async function refreshPRSignals(
+  client: GitHubClient,
+  reviewer: SignalsReviewer
+): Promise<number> {
+  const stale = getMyReviewPRs().filter(
+    (s) => (s.status === 'new' || s.status === 'seen') && needsRefresh(s)
+  )
+  if (stale.length === 0) return 0
+
+  // Three calls per PR; scores fall back to what the PR list already has
+  if (getLowRateLimitBudget()) {
+    debug(`Rate limit budget low, skipping signals for ${stale.length} PR(s)`)
+    return 0
+  }
+
+  let refreshed = 0
+  for (const { pr } of stale) {
+    try {
+      setPRSignals(pr.id, await fetchPRSignals(client, pr, reviewer))
+      refreshed++
+    } catch (error) {
+      warn('Failed to fetch PR signals', { prId: pr.id, error: String(error) })
+    }
+  }
+
+  return refreshed
+}
+
+/** Pushes, reviews and requests bump `updatedAt`, but finished checks don't: recheck pending CI */
+function needsRefresh({ pr, signals }: PRState): boolean {
+  if (!signals) return true
+  return (
+    signals.headSha !== pr.head.sha || pr.updatedAt > signals.fetchedAt || signals.ci === 'pending'
+  )
+}
@@ -0,0 +1,66 @@
+/** Snooze checks - wake snoozed PRs once their time comes or their condition is met */
+
+import type { PRSnooze, PRState, PullRequest } from '../../types/pr.js'
+import type { GitHubClient } from '../github/client.js'
+import { fetchPRChecks } from '../github/diffFetcher.js'
+import { getCIState } from '../github/prSignals.js'
+import { getSnoozedPRs, wakePR } from '../state/prStore.js'
+import { warn } from '../../utils/logger.js'
+
+/**
+ * Checks show up a little after a push, so no checks only counts as passing once the head has
+ * been quiet this long; a repo without CI wakes the PR then.
+ */
+const NO_CHECKS_GRACE_MS = 15 * 60 * 1000
+
+/** Check every snoozed PR and wake the ones that are due; returns their ids */
+export async function wakeSnoozedPRs(client: GitHubClient, now = new Date()): Promise<string[]> {
+  const woken: string[] = []
+
+  for (const state of getSnoozedPRs()) {
+    const reason = await getWakeReason(client, state, now)
+    if (reason) {
+      wakePR(state.pr.id, reason)
+      woken.push(state.pr.id)
+    }
+  }
+
+  return woken
+}
+
+async function getWakeReason(
+  client: GitHubClient,
+  { pr, snooze }: PRState,
+  now: Date
+): Promise<string | null> {
+  if (!snooze) return 'no snooze details'
+  if (snooze.until && snooze.until <= now) return 'snooze time reached'
+
+  if (snooze.condition === 'new-commits' && pr.head.sha !== snooze.headSha) {
+    return 'new commits'
+  }
+
+  if (snooze.condition === 'ci-passes') {
+    try {
+      const checks = await fetchPRChecks(
+        client,
+        pr.repository.owner,
+        pr.repository.name,
+        pr.head.sha
+      )
+      const ci = getCIState(checks)
+      if (ci === 'passing') return 'CI passed'
+      const quietMs = now.getTime() - getQuietSince(pr, snooze).getTime()
+      if (ci === 'none' && quietMs >= NO_CHECKS_GRACE_MS) return 'no CI checks'
+    } catch (error) {
+      warn('Failed to check CI for snoozed PR', { prId: pr.id, error: String(error) })
+    }
+  }
+
+  return null
+}
+
+/** A push moves `updatedAt`, so the later of it and the snooze bounds when checks could start */
+function getQuietSince(pr: PullRequest, snooze: PRSnooze): Date {
+  return pr.updatedAt > snooze.snoozedAt ? pr.updatedAt : snooze.snoozedAt
+}
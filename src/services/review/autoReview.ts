@@ -0,0 +1,150 @@
+/** Auto-review queue - runs background reviews for newly requested PRs */
+
+import type { PullRequest } from '../../types/pr.js'
+import type { ReviewResult } from '../../types/review.js'
+import type { GitHubClient } from '../github/client.js'
+import { ReviewInProgressError } from '../../types/errors.js'
+import { getPRState } from '../state/prStore.js'
+import { hasReview, isReviewInProgress } from '../state/reviewStore.js'
+import { getRepoReviewAgent } from './repoPolicy.js'
+import { getAutoReviewLimits } from '../state/settingsStore.js'
+import { executeReview } from './pipeline.js'
+import { fetchPRDetails } from '../github/prFetcher.js'
+import { debug, info, warn } from '../../utils/logger.js'
+
+export interface AutoReviewCallbacks {
+  onComplete?: (pr: PullRequest, result: ReviewResult) => void
+  onError?: (pr: PullRequest, message: string) => void
+}
+
+interface QueueEntry {
+  prId: string
+  client: GitHubClient
+}
+
+let pending: QueueEntry[] = []
+let running = new Set<string>()
+let callbacks: AutoReviewCallbacks = {}
+
+export function setAutoReviewCallbacks(handlers: AutoReviewCallbacks): void {
+  callbacks = handlers
+}
+
+export function enqueueAutoReviews(client: GitHubClient, prIds: string[]): number {
+  const { maxLines } = getAutoReviewLimits()
+  let queued = 0
+
+  for (const prId of prIds) {
+    const skipReason = getSkipReason(prId, maxLines)
+    if (skipReason) {
+      debug(`[AutoReview] Skipping ${prId}: ${skipReason}`)
+      continue
+    }
+
+    pending.push({ prId, client })
+    queued++
+  }
+
+  if (queued > 0) {
+    info(`[AutoReview] Queued ${queued} PR(s)`, { pending: pending.length, running: running.size })
+  }
+
+  drainQueue()
+  return queued
+}
+
+function getSkipReason(prId: string, maxLines: number): string | null {
+  const state = getPRState(prId)
+  if (!state) return 'PR no longer tracked'
+  if (!state.needsMyReview) return 'review not requested from me'
+  // A restart brings PRs back with their triage status, and set-aside ones stay that way
+  if (state.status === 'dismissed' || state.status === 'snoozed') return state.status
+  if (running.has(prId) || pending.some((e) => e.prId === prId)) return 'already queued'
+  if (hasReview(prId) || isReviewInProgress(prId)) return 'already reviewed'
+
+  // The REST list leaves line counts out; those PRs are sized when their turn comes
+  const size = getKnownSize(state.pr)
+  if (maxLines > 0 && size !== null && size > maxLines) {
+    return `too large (${size} > ${maxLines} lines)`
+  }
+
+  return null
+}
+
+function getKnownSize({ stats }: PullRequest): number | null {
+  if (stats.additions === undefined || stats.deletions === undefined) return null
+  return stats.additions + stats.deletions
+}
+
+/** Line count from the single-PR endpoint; null when it can't be read */
+async function fetchPRSize(client: GitHubClient, pr: PullRequest): Promise<number | null> {
+  try {
+    const { owner, name } = pr.repository
+    const details = await fetchPRDetails(client, owner, name, pr.number)
+    return (details.additions ?? 0) + (details.deletions ?? 0)
+  } catch (error) {
+    warn(`[AutoReview] Could not read the size of ${pr.id}`, { error: String(error) })
+    return null
+  }
+}
+
+function drainQueue(): void {
+  const { concurrency } = getAutoReviewLimits()
+
+  while (running.size < concurrency && pending.length > 0) {
+    const entry = pending.shift()!
+    running.add(entry.prId)
+    void runAutoReview(entry).finally(() => {
+      running.delete(entry.prId)
+      drainQueue()
+    })
+  }
+}
+
+async function runAutoReview(entry: QueueEntry): Promise<void> {
+  const state = getPRState(entry.prId)
+  if (!state) return
+
+  // Known sizes were checked when queued; unknown ones are read now and fail closed
+  const { maxLines } = getAutoReviewLimits()
+  if (maxLines > 0 && getKnownSize(state.pr) === null) {
+    const size = await fetchPRSize(entry.client, state.pr)
+    if (size === null || size > maxLines) {
+      const reason = size === null ? 'size unknown' : `too large (${size} > ${maxLines} lines)`
+      debug(`[AutoReview] Skipping ${entry.prId}: ${reason}`)
+      return
+    }
+  }
+
+  info(`[AutoReview] Starting review for ${entry.prId}`)
+
+  try {
+    const agent = getRepoReviewAgent(state.pr.repository.fullName)
+    const result = await executeReview(entry.prId, agent, entry.client)
+    callbacks.onComplete?.(state.pr, result)
+  } catch (error) {
+    if (error instanceof ReviewInProgressError) {
+      debug(`[AutoReview] Skipping ${entry.prId}: started manually`)
+      return
+    }
+
+    const message = error instanceof Error ? error.message : 'Review failed'
+    if (message === 'Review cancelled') return
+
+    warn(`[AutoReview] Review failed for ${entry.prId}`, { error: message })
+    callbacks.onError?.(state.pr, message)
+  }
+}
+
+export function getAutoReviewQueueStatus(): { pending: string[]; running: string[] } {
+  return {
+    pending: pending.map((e) => e.prId),
+    running: Array.from(running),
+  }
+}
+
+export function clearAutoReviewQueue(): void {
+  pending = []
+  running = new Set()
+  callbacks = {}
+}
@@ -0,0 +1,8 @@
+/** Review services barrel export */
+
+export * from './pipeline.js'
+export * from './autoReview.js'
+export * from './planner.js'
+export * from './merger.js'
+export * from './repoPolicy.js'
+export * from './jobRunner.js'
@@ -0,0 +1,71 @@
+/** Review jobs - runs API-started reviews in the background so the request returns at once */
+
+import { randomUUID } from 'node:crypto'
+import type { ReviewAgent } from '../../types/agent.js'
+import type { ReviewJob } from '../../types/review.js'
+import type { GitHubClient } from '../github/client.js'
+import { ReviewInProgressError } from '../../types/errors.js'
+import { isReviewInProgress } from '../state/reviewStore.js'
+import { executePanelReview, getReviewAgentId, type ExecuteReviewOptions } from './pipeline.js'
+import { info, warn } from '../../utils/logger.js'
+
+// Only the latest job per PR is kept; older runs live in the review history
+let jobs = new Map<string, ReviewJob>()
+
+export function getReviewJob(prId: string): ReviewJob | undefined {
+  return jobs.get(prId)
+}
+
+/**
+ * Start a review without waiting for it. Throws `ReviewInProgressError` when the PR already has
+ * a running job or a review started elsewhere, such as the auto-review queue.
+ */
+export function startReviewJob(
+  prId: string,
+  agents: ReviewAgent[],
+  client: GitHubClient,
+  options: ExecuteReviewOptions = {}
+): ReviewJob {
+  const existing = jobs.get(prId)
+  if (existing?.status === 'running' || isReviewInProgress(prId)) {
+    throw new ReviewInProgressError(prId, existing?.status === 'running' ? existing.id : undefined)
+  }
+
+  const job: ReviewJob = {
+    id: randomUUID(),
+    prId,
+    agentId: getReviewAgentId(agents),
+    incremental: options.incremental ?? false,
+    status: 'running',
+    createdAt: new Date(),
+  }
+  jobs.set(prId, job)
+  info(`[ReviewJob] Started ${job.id}`, { prId, agent: job.agentId })
+
+  executePanelReview(prId, agents, client, options).then(
+    (result) => finishJob(job, { status: 'completed', reviewId: result.id }),
+    (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Review failed'
+      if (message === 'Review cancelled') {
+        finishJob(job, { status: 'cancelled' })
+        return
+      }
+      warn(`[ReviewJob] ${job.id} failed`, { prId, error: message })
+      finishJob(job, { status: 'failed', error: message })
+    }
+  )
+
+  return job
+}
+
+function finishJob(job: ReviewJob, update: Pick<ReviewJob, 'status' | 'reviewId' | 'error'>): void {
+  // A newer job for the PR replaces this one; don't overwrite it
+  if (jobs.get(job.prId)?.id !== job.id) return
+
+  jobs.set(job.prId, { ...job, ...update, finishedAt: new Date() })
+  info(`[ReviewJob] ${job.id} ${update.status}`, { prId: job.prId })
+}
+
+export function clearReviewJobs(): void {
+  jobs = new Map()
+}
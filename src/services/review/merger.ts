@@ -0,0 +1,158 @@
+/** Review merger - combines the outputs of several review passes into one review */
+
+import type {
+  AIReviewOutput,
+  AgentReviewFailure,
+  AgentReviewOutput,
+  ReviewIssue,
+  ReviewSuggestion,
+  ReviewVerdict,
+  ReviewSeverity,
+  PreviousIssueFollowUp,
+} from '../../types/review.js'
+
+const VERDICT_RANK: Record<ReviewVerdict, number> = {
+  approve: 0,
+  comment: 1,
+  request_changes: 2,
+}
+
+const SEVERITY_RANK: Record<ReviewSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+}
+
+export function getMostSevereVerdict(verdicts: ReviewVerdict[]): ReviewVerdict {
+  return verdicts.reduce<ReviewVerdict>(
+    (worst, verdict) => (VERDICT_RANK[verdict] > VERDICT_RANK[worst] ? verdict : worst),
+    'approve'
+  )
+}
+
+export function mergeReviewOutputs(outputs: AIReviewOutput[]): AIReviewOutput {
+  if (outputs.length === 1) return outputs[0]
+
+  const merged: AIReviewOutput = {
+    summary: mergeSummaries(outputs.map((o) => o.summary)),
+    verdict: getMostSevereVerdict(outputs.map((o) => o.verdict)),
+    issues: dedupeIssues(outputs.flatMap((o) => o.issues)),
+    suggestions: dedupeSuggestions(outputs.flatMap((o) => o.suggestions)),
+  }
+
+  const positives = [...new Set(outputs.flatMap((o) => o.positives ?? []))]
+  if (positives.length > 0) merged.positives = positives
+
+  const previousIssues = mergePreviousIssues(outputs.map((o) => o.previousIssues ?? []))
+  if (previousIssues.length > 0) merged.previousIssues = previousIssues
+
+  return merged
+}
+
+/**
+ * Merge a multi-agent review, collapsing issues that different agents raised on the same line.
+ * Failed agents are named in the summary, and a panel missing some of them can't approve.
+ */
+export function mergeAgentOutputs(
+  results: AgentReviewOutput[],
+  failures: AgentReviewFailure[] = []
+): AIReviewOutput {
+  const merged = mergeReviewOutputs(results.map((r) => r.output))
+  const summaries = results.map((r) => `**${r.agentName}:** ${r.output.summary.trim()}`)
+  if (failures.length > 0) {
+    const names = failures.map((f) => f.agentName).join(', ')
+    summaries.push(`**Not reviewed:** ${names} failed, so this review is incomplete.`)
+  }
+
+  return {
+    ...merged,
+    summary: summaries.join('\n\n'),
+    verdict: failures.length > 0 && merged.verdict === 'approve' ? 'comment' : merged.verdict,
+    issues: collapseAgentIssues(results),
+  }
+}
+
+/** Drop repeated issues, keeping the most severe copy at the position of the first one */
+export function dedupeIssues(issues: ReviewIssue[]): ReviewIssue[] {
+  const byKey = new Map<string, ReviewIssue>()
+
+  for (const issue of issues) {
+    const key = `${issue.file ?? ''}:${getLineKey(issue)}:${normalizeText(issue.message)}`
+    const existing = byKey.get(key)
+    if (!existing || SEVERITY_RANK[issue.severity] > SEVERITY_RANK[existing.severity]) {
+      byKey.set(key, issue)
+    }
+  }
+
+  return [...byKey.values()]
+}
+
+function collapseAgentIssues(results: AgentReviewOutput[]): ReviewIssue[] {
+  const collapsed: ReviewIssue[] = []
+  const byLocation = new Map<string, ReviewIssue>()
+
+  for (const { agentId, output } of results) {
+    for (const issue of dedupeIssues(output.issues)) {
+      const key =
+        issue.file && issue.line
+          ? `${issue.file}:${getLineKey(issue)}`
+          : `${issue.file ?? ''}:${normalizeText(issue.message)}`
+      const existing = byLocation.get(key)
+
+      // One agent may raise several issues on a line; only collapse across agents
+      if (existing && !existing.agentIds?.includes(agentId)) {
+        const agentIds = [...(existing.agentIds ?? []), agentId]
+        const winner =
+          SEVERITY_RANK[issue.severity] > SEVERITY_RANK[existing.severity] ? issue : existing
+        const merged = { ...winner, agentIds }
+        collapsed[collapsed.indexOf(existing)] = merged
+        byLocation.set(key, merged)
+        continue
+      }
+
+      const tagged = { ...issue, agentIds: [agentId] }
+      if (!existing) byLocation.set(key, tagged)
+      collapsed.push(tagged)
+    }
+  }
+
+  return collapsed
+}
+
+function dedupeSuggestions(suggestions: ReviewSuggestion[]): ReviewSuggestion[] {
+  const seen = new Set<string>()
+
+  return suggestions.filter((s) => {
+    const key = `${s.file ?? ''}:${normalizeText(s.message)}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function mergeSummaries(summaries: string[]): string {
+  const unique = [...new Set(summaries.map((s) => s.trim()).filter(Boolean))]
+  return unique.join('\n\n')
+}
+
+/**
+ * Each pass judges every previous issue but only sees part of the changes, so an issue counts
+ * as fixed when any pass saw the fix.
+ */
+function mergePreviousIssues(lists: PreviousIssueFollowUp[][]): PreviousIssueFollowUp[] {
+  const [first = [], ...rest] = lists
+
+  return first.map((followUp, i) => {
+    const fixed = [followUp, ...rest.map((list) => list[i])].find((f) => f?.status === 'fixed')
+    return fixed ?? followUp
+  })
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/** Old- and new-file lines share numbers, so removed-code issues get their own keys */
+function getLineKey(issue: ReviewIssue): string {
+  return `${issue.side === 'LEFT' ? 'L' : ''}${issue.line ?? ''}`
+}
@@ -0,0 +1,306 @@
+/** Review pipeline - fetches the diff, runs the AI review and prepares inline comments */
+
+import { randomUUID } from 'node:crypto'
+import type { ReviewAgent } from '../../types/agent.js'
+import type { PullRequest, PRFile } from '../../types/pr.js'
+import type { ReviewResult, AgentReviewFailure, AgentReviewOutput } from '../../types/review.js'
+import type { GitHubClient } from '../github/client.js'
+import { ReviewInProgressError } from '../../types/errors.js'
+import { getPRState, updatePRStatus } from '../state/prStore.js'
+import {
+  setReviewInProgress,
+  setReviewCompleted,
+  setReviewFailed,
+  setReviewCancelled,
+  updateReviewStage,
+  setInlineComments,
+  publishReviewOutput,
+  isReviewInProgress,
+} from '../state/reviewStore.js'
+import { getReviewHistory } from '../state/reviewHistoryStore.js'
+import { getConfiguredModel, getReviewTimeout } from '../state/settingsStore.js'
+import { reviewPullRequest, type ReviewOptions } from '../opencode/reviewer.js'
+import { getOpenCodePath } from '../opencode/detector.js'
+import { getModelContextLimit } from '../opencode/modelFetcher.js'
+import { fetchPRFiles, fetchCompareFiles, formatFilesAsDiff } from '../github/diffFetcher.js'
+import { prepareInlineComments } from '../github/inlineCommentPreparer.js'
+import { getDiffTokenBudget, planReviewBatches } from './planner.js'
+import { mergeReviewOutputs, mergeAgentOutputs } from './merger.js'
+import { info, warn } from '../../utils/logger.js'
+
+export interface ExecuteReviewOptions {
+  /** Only review commits pushed since this agent's last review of the PR */
+  incremental?: boolean
+}
+
+/** Latest review of the PR by this agent (or panel), used as the base of an incremental re-review */
+export function getPreviousReview(prId: string, agentId: string): ReviewResult | undefined {
+  return getReviewHistory(prId).find((r) => r.agentId === agentId)
+}
+
+/** Agent id a review is recorded under; a panel is keyed by its sorted agent ids */
+export function getReviewAgentId(agents: ReviewAgent[]): string {
+  return agents
+    .map((a) => a.id)
+    .sort()
+    .join('+')
+}
+
+export async function executeReview(
+  prId: string,
+  agent: ReviewAgent,
+  client: GitHubClient,
+  options: ExecuteReviewOptions = {}
+): Promise<ReviewResult> {
+  return executePanelReview(prId, [agent], client, options)
+}
+
+/** Run several agents over the PR in parallel and merge their results into one review */
+export async function executePanelReview(
+  prId: string,
+  agents: ReviewAgent[],
+  client: GitHubClient,
+  options: ExecuteReviewOptions = {}
+): Promise<ReviewResult> {
+  const prState = getPRState(prId)
+  if (!prState) {
+    throw new Error(`PR not found: ${prId}`)
+  }
+  if (agents.length === 0) {
+    throw new Error('At least one agent is required')
+  }
+  // A second run would race the first for the PR's review state and OpenCode processes
+  if (isReviewInProgress(prId)) {
+    throw new ReviewInProgressError(prId)
+  }
+
+  const pr = prState.pr
+  const { owner, name } = pr.repository
+  const agentId = getReviewAgentId(agents)
+
+  // Use model from settings, fallback to agent's model
+  const configuredModel = getConfiguredModel()
+  const timeoutMs = getReviewTimeout()
+
+  info(`[Review] Starting review for PR #${pr.number}`, {
+    prId,
+    repo: pr.repository.fullName,
+    agent: agentId,
+    agentName: agents.map((a) => a.name).join(', '),
+    model: configuredModel,
+    agentModel: agents.map((a) => a.model).join(', '),
+    timeoutMs,
+    incremental: options.incremental ?? false,
+  })
+  setReviewInProgress(prId, 'starting')
+  updatePRStatus(prId, 'reviewing')
+
+  try {
+    // Stage: Fetching diff
+    info(`[Review] Fetching diff for PR #${pr.number}`)
+    updateReviewStage(prId, 'fetching_diff')
+    const previous = options.incremental ? getPreviousReview(prId, agentId) : undefined
+    const { files, previousReview } = await fetchReviewFiles(client, pr, previous)
+    info(`[Review] Diff fetched`, {
+      prNumber: pr.number,
+      files: files.length,
+      sinceSha: previousReview?.headSha,
+    })
+
+    // Stage: Analyzing with AI
+    info(`[Review] Starting AI analysis`, {
+      prNumber: pr.number,
+      model: configuredModel,
+      agent: agentId,
+    })
+    updateReviewStage(prId, 'analyzing')
+
+    const reviewAgent = async (agent: ReviewAgent): Promise<ReviewResult> => {
+      const batches = await planBatches(files, configuredModel || agent.model)
+      return reviewInBatches(pr, batches, {
+        agent,
+        previousReview,
+        model: configuredModel,
+        timeoutMs,
+        onProgress: (stage) => {
+          info(`[Review] Progress: ${stage}`, { prNumber: pr.number, model: configuredModel })
+          if (stage === 'generating') updateReviewStage(prId, 'generating')
+          if (stage === 'parsing') updateReviewStage(prId, 'parsing')
+        },
+        onOutput: (text) => publishReviewOutput(prId, agent.id, text),
+      })
+    }
+
+    const result =
+      agents.length === 1
+        ? await reviewAgent(agents[0])
+        : await reviewWithPanel(pr, agents, agentId, reviewAgent)
+
+    info(`[Review] Completed for PR #${pr.number}`, {
+      model: configuredModel,
+      verdict: result.output.verdict,
+      issues: result.output.issues.length,
+      suggestions: result.output.suggestions.length,
+      duration: result.duration,
+      batches: result.batchCount ?? 1,
+      durationSec: Math.round(result.duration / 1000) + 's',
+    })
+    setReviewCompleted(prId, result)
+    updatePRStatus(prId, 'reviewed')
+
+    // Prepare inline comments from issues against the full PR, not just the reviewed range
+    const prFiles = previousReview ? await fetchPRFiles(client, owner, name, pr.number) : files
+    const inlineComments = prepareInlineComments(result.output.issues, prFiles)
+    setInlineComments(prId, inlineComments)
+    info(`[Review] Inline comments prepared`, {
+      prNumber: pr.number,
+      total: inlineComments.length,
+      valid: inlineComments.filter((c) => c.isValid).length,
+    })
+
+    return result
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Review failed'
+    if (message === 'Review cancelled') {
+      info(`[Review] Cancelled for PR #${pr.number}`, { model: configuredModel })
+      setReviewCancelled(prId)
+    } else {
+      info(`[Review] Failed for PR #${pr.number}`, { error: message, model: configuredModel })
+      setReviewFailed(prId, message)
+    }
+    throw error
+  }
+}
+
+interface ReviewFiles {
+  files: PRFile[]
+  previousReview?: ReviewResult
+}
+
+async function fetchReviewFiles(
+  client: GitHubClient,
+  pr: PullRequest,
+  previous?: ReviewResult
+): Promise<ReviewFiles> {
+  const { owner, name } = pr.repository
+
+  if (!previous || previous.headSha === pr.head.sha) {
+    return { files: await fetchPRFiles(client, owner, name, pr.number) }
+  }
+
+  try {
+    const files = await fetchCompareFiles(client, owner, name, previous.headSha, pr.head.sha)
+    return { files, previousReview: previous }
+  } catch (error) {
+    // After a force push the old head may be gone or off the branch, and a huge compare is cut off;
+    // a full review is the only option then
+    warn(`[Review] Compare failed for PR #${pr.number}, falling back to full review`, {
+      base: previous.headSha,
+      head: pr.head.sha,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return { files: await fetchPRFiles(client, owner, name, pr.number) }
+  }
+}
+
+async function planBatches(files: PRFile[], model: string): Promise<PRFile[][]> {
+  const contextLimit = await getModelContextLimit(model, await getOpenCodePath())
+  return planReviewBatches(files, getDiffTokenBudget(contextLimit))
+}
+
+/** Review each batch in turn and merge the results; small PRs take a single pass */
+async function reviewInBatches(
+  pr: PullRequest,
+  batches: PRFile[][],
+  options: Omit<ReviewOptions, 'diff' | 'batch'>
+): Promise<ReviewResult> {
+  if (batches.length <= 1) {
+    return reviewPullRequest(pr, { ...options, diff: formatFilesAsDiff(batches[0] ?? []) })
+  }
+
+  const startTime = Date.now()
+  const results: ReviewResult[] = []
+
+  for (const [index, batch] of batches.entries()) {
+    info(`[Review] Reviewing batch ${index + 1}/${batches.length} of PR #${pr.number}`, {
+      files: batch.map((f) => f.filename),
+    })
+    const result = await reviewPullRequest(pr, {
+      ...options,
+      diff: formatFilesAsDiff(batch),
+      batch: { index, total: batches.length },
+    })
+    results.push(result)
+  }
+
+  return {
+    ...results[0],
+    id: randomUUID(),
+    output: mergeReviewOutputs(results.map((r) => r.output)),
+    rawResponse: results.map((r) => r.rawResponse).join('\n\n'),
+    createdAt: new Date(),
+    duration: Date.now() - startTime,
+    batchCount: batches.length,
+  }
+}
+
+/**
+ * Run every agent in parallel and merge what succeeded. The panel only fails when all agents
+ * fail or the review was cancelled; otherwise the failed agents are recorded on the result.
+ */
+async function reviewWithPanel(
+  pr: PullRequest,
+  agents: ReviewAgent[],
+  agentId: string,
+  reviewAgent: (agent: ReviewAgent) => Promise<ReviewResult>
+): Promise<ReviewResult> {
+  const startTime = Date.now()
+  const settled = await Promise.allSettled(agents.map(reviewAgent))
+
+  const results: ReviewResult[] = []
+  const agentResults: AgentReviewOutput[] = []
+  const failedAgents: AgentReviewFailure[] = []
+  const errors: Error[] = []
+
+  settled.forEach((outcome, i) => {
+    const agent = agents[i]
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value)
+      agentResults.push({
+        agentId: agent.id,
+        agentName: agent.name,
+        output: outcome.value.output,
+        duration: outcome.value.duration,
+      })
+      return
+    }
+
+    const error =
+      outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason))
+    warn(`[Review] Agent ${agent.id} failed for PR #${pr.number}`, { error: error.message })
+    errors.push(error)
+    failedAgents.push({ agentId: agent.id, agentName: agent.name, error: error.message })
+  })
+
+  const cancelled = errors.find((e) => e.message === 'Review cancelled')
+  if (cancelled) throw cancelled
+  if (results.length === 0) throw errors[0]
+
+  const { prId, prNumber, headSha, incremental } = results[0]
+
+  const result: ReviewResult = {
+    id: randomUUID(),
+    prId,
+    prNumber,
+    headSha,
+    agentId,
+    output: mergeAgentOutputs(agentResults, failedAgents),
+    rawResponse: results.map((r) => `[${r.agentId}]\n${r.rawResponse}`).join('\n\n'),
+    createdAt: new Date(),
+    duration: Date.now() - startTime,
+    incremental,
+    agentResults,
+  }
+  if (failedAgents.length > 0) result.failedAgents = failedAgents
+  return result
+}
@@ -0,0 +1,79 @@
+/** Review planner - splits large PRs into batches that fit the model context */
+
+import { dirname } from 'node:path'
+import type { PRFile } from '../../types/pr.js'
+
+// Used when the model's context limit is unknown (e.g. `opencode models` failed)
+const DEFAULT_CONTEXT_LIMIT = 128000
+
+// Leave room for the agent prompt, skills, memories and the model's response
+const DIFF_BUDGET_RATIO = 0.5
+
+// Rough estimate that errs on the side of smaller batches for code
+const CHARS_PER_TOKEN = 3.5
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export function getDiffTokenBudget(contextLimit?: number): number {
+  return Math.floor((contextLimit ?? DEFAULT_CONTEXT_LIMIT) * DIFF_BUDGET_RATIO)
+}
+
+/**
+ * Split files into batches under the token budget. Files in the same directory are kept
+ * together when the directory fits; larger directories are split file by file. A single file
+ * that exceeds the budget on its own still gets a batch of its own.
+ */
+export function planReviewBatches(files: PRFile[], tokenBudget: number): PRFile[][] {
+  const batches: PRFile[][] = []
+  let current: PRFile[] = []
+  let currentTokens = 0
+
+  const flush = (): void => {
+    if (current.length === 0) return
+    batches.push(current)
+    current = []
+    currentTokens = 0
+  }
+
+  const add = (batchFiles: PRFile[], tokens: number): void => {
+    if (currentTokens + tokens > tokenBudget) flush()
+    current.push(...batchFiles)
+    currentTokens += tokens
+  }
+
+  for (const group of groupByDirectory(files.filter((f) => f.patch))) {
+    const groupTokens = group.reduce((sum, f) => sum + estimateFileTokens(f), 0)
+
+    if (groupTokens <= tokenBudget) {
+      add(group, groupTokens)
+      continue
+    }
+
+    for (const file of group) {
+      add([file], estimateFileTokens(file))
+    }
+  }
+
+  flush()
+  return batches
+}
+
+function estimateFileTokens(file: PRFile): number {
+  // Matches the `--- a/` / `+++ b/` headers added when formatting the diff
+  return estimateTokens(`--- a/${file.filename}\n+++ b/${file.filename}\n${file.patch ?? ''}`)
+}
+
+function groupByDirectory(files: PRFile[]): PRFile[][] {
+  const grouped = new Map<string, PRFile[]>()
+
+  for (const file of files) {
+    const dir = dirname(file.filename)
+    const existing = grouped.get(dir) ?? []
+    existing.push(file)
+    grouped.set(dir, existing)
+  }
+
+  return [...grouped.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, group]) => group)
+}
@@ -0,0 +1,27 @@
+/** Repo review policy - the agent and format a repo is reviewed with by default */
+
+import type { ReviewAgent } from '../../types/agent.js'
+import type { ReviewFormatOptions } from '../../types/review.js'
+import { getRepoPolicy } from '../github/repoRules.js'
+import { getAgent, getDefaultAgent } from '../state/agentStore.js'
+import { getRepoRules, getSettings } from '../state/settingsStore.js'
+import { warn } from '../../utils/logger.js'
+
+/** The repo's policy agent, or the default agent when there is none or it was deleted */
+export function getRepoReviewAgent(repoFullName: string): ReviewAgent {
+  const { agentId } = getRepoPolicy(repoFullName, getRepoRules())
+  if (!agentId) return getDefaultAgent()
+
+  const agent = getAgent(agentId)
+  if (!agent) {
+    warn(`Review policy agent not found, using default`, { repo: repoFullName, agentId })
+    return getDefaultAgent()
+  }
+  return agent
+}
+
+/** Global review format with the repo's policy applied on top */
+export function getRepoReviewFormat(repoFullName: string): ReviewFormatOptions {
+  const { reviewFormat } = getRepoPolicy(repoFullName, getRepoRules())
+  return { ...getSettings().reviewFormat, ...reviewFormat }
+}
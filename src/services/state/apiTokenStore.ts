@@ -0,0 +1,45 @@
+/** API token store - the per-install secret the local server requires on every /api request */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { randomBytes, timingSafeEqual } from 'node:crypto'
+import { getConfigDir } from '../../config/env.js'
+import { info } from '../../utils/logger.js'
+
+const TOKEN_FILE = 'api-token'
+
+let apiToken: string | null = null
+
+export function getApiTokenFilePath(): string {
+  return join(getConfigDir(), TOKEN_FILE)
+}
+
+/** Read the install's token, creating it on first use; only the owner can read the file */
+export function getApiToken(): string {
+  if (apiToken) return apiToken
+
+  const filePath = getApiTokenFilePath()
+  const stored = existsSync(filePath) ? readFileSync(filePath, 'utf-8').trim() : ''
+  if (stored) {
+    apiToken = stored
+    return apiToken
+  }
+
+  const dir = getConfigDir()
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+
+  apiToken = randomBytes(32).toString('hex')
+  writeFileSync(filePath, apiToken, { mode: 0o600 })
+  info(`API token created at ${filePath}`)
+  return apiToken
+}
+
+export function isValidApiToken(candidate: string | undefined): boolean {
+  if (!candidate) return false
+
+  const expected = Buffer.from(getApiToken())
+  const actual = Buffer.from(candidate)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
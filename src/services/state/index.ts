@@ -2,6 +2,11 @@
 
 export * from './prStore.js'
 export * from './reviewStore.js'
+export * from './reviewHistoryStore.js'
+export * from './triageStore.js'
+export * from './prActivity.js'
+export * from './myPRStore.js'
 export * from './agentStore.js'
 export * from './settingsStore.js'
 export * from './onboardingStore.js'
+export * from './apiTokenStore.js'
@@ -0,0 +1,34 @@
+/** My PR store - the PRs I authored, with their latest reviewer, CI and merge state */
+
+import type { MyPRState } from '../../types/pr.js'
+import { debug } from '../../utils/logger.js'
+
+let myPRs = new Map<string, MyPRState>()
+
+export function getMyPRState(prId: string): MyPRState | undefined {
+  return myPRs.get(prId)
+}
+
+export function getAllMyPRs(): MyPRState[] {
+  return [...myPRs.values()]
+}
+
+export function setMyPRState(state: MyPRState): void {
+  myPRs.set(state.pr.id, state)
+}
+
+/** Drop PRs that are no longer open, unless `keep` holds on to them; returns how many went */
+export function retainMyPRs(openIds: Set<string>, keep?: (state: MyPRState) => boolean): number {
+  let removed = 0
+  for (const [prId, state] of myPRs) {
+    if (openIds.has(prId) || keep?.(state)) continue
+    myPRs.delete(prId)
+    removed++
+  }
+  if (removed > 0) debug(`Stopped tracking ${removed} closed PR(s) of mine`)
+  return removed
+}
+
+export function clearMyPRs(): void {
+  myPRs = new Map()
+}
@@ -0,0 +1,77 @@
+/** PR activity - what changed on a tracked PR between polls, for badges and notifications */
+
+import type { PRActivity, PRActivityType, PRState, PullRequest } from '../../types/pr.js'
+
+// Older entries are dropped; the list is for "what's new", not a history
+const MAX_ACTIVITY = 20
+
+const ACTIVITY_LABELS: Record<PRActivityType, string> = {
+  'new-commits': 'New commits',
+  'review-requested': 'Review requested',
+  'review-re-requested': 'Review re-requested',
+  mentioned: 'Mentioned',
+  'base-changed': 'Base branch changed',
+}
+
+/** What was known about a PR before this poll: its previous state, or its triage record */
+export interface ActivityBaseline {
+  headSha: string
+  /** Not kept across restarts */
+  baseRef?: string
+  needsMyReview: boolean
+  /** When I marked the PR reviewed, which makes a later request a re-request */
+  reviewCompletedAt?: Date
+}
+
+export function detectActivity(
+  baseline: ActivityBaseline,
+  pr: PullRequest,
+  needsMyReview: boolean,
+  now = new Date()
+): PRActivity[] {
+  const activity: PRActivity[] = []
+
+  if (pr.head.sha !== baseline.headSha) {
+    activity.push({ type: 'new-commits', at: now })
+  }
+  // GitHub drops me from the requested reviewers once I review, so a request that comes back
+  // after my review is a re-request; otherwise it's a first request, or one through a team or rule
+  if (needsMyReview && !baseline.needsMyReview) {
+    const type = baseline.reviewCompletedAt ? 'review-re-requested' : 'review-requested'
+    activity.push({ type, at: now })
+  }
+  if (baseline.baseRef !== undefined && pr.base.ref !== baseline.baseRef) {
+    activity.push({ type: 'base-changed', at: now, detail: pr.base.ref })
+  }
+
+  return activity
+}
+
+/**
+ * Any new comment, a reply in an existing review thread included, bumps `updatedAt`. Comment
+ * counts aren't used: the REST list leaves them out and the search only counts threads.
+ */
+export function hasNewUpdates(previous: PullRequest, pr: PullRequest): boolean {
+  return pr.updatedAt > previous.updatedAt
+}
+
+export function appendActivity(
+  existing: PRActivity[] | undefined,
+  activity: PRActivity[]
+): PRActivity[] | undefined {
+  if (activity.length === 0) return existing
+  return [...(existing ?? []), ...activity].slice(-MAX_ACTIVITY)
+}
+
+/** Never opened, or active since I last looked; dismissed and snoozed PRs stay quiet */
+export function hasNewActivity(state: PRState): boolean {
+  if (state.status === 'new') return true
+  if (state.status === 'dismissed' || state.status === 'snoozed') return false
+  return (state.activity?.length ?? 0) > 0
+}
+
+export function describeActivity({ type, detail }: PRActivity): string {
+  if (type === 'mentioned' && detail) return `Mentioned by @${detail}`
+  if (type === 'base-changed' && detail) return `Base branch changed to ${detail}`
+  return ACTIVITY_LABELS[type]
+}
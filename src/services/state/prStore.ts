@@ -1,22 +1,50 @@
-/** PR state store - manages in-memory PR state */
-
-import type { PullRequest, PRState, PRStatus } from '../../types/pr.js'
+/** PR state store - manages in-memory PR state, with triage status persisted by the triage store */
+
+import type {
+  PullRequest,
+  PRActivity,
+  PRActivityType,
+  PRSignals,
+  PRSnooze,
+  PRState,
+  PRStatus,
+  SnoozeCondition,
+} from '../../types/pr.js'
+import { clearTriageRecords, getTriageRecord, recordTriage } from './triageStore.js'
+import {
+  appendActivity,
+  describeActivity,
+  detectActivity,
+  hasNewActivity,
+  hasNewUpdates,
+} from './prActivity.js'
 import { debug, info } from '../../utils/logger.js'
 
 type PRStateMap = Map<string, PRState>
-type ChangeListener = (prId: string, state: PRState) => void
+
+/** Activity that brings a dismissed PR back */
+const DISMISSAL_RESETS: PRActivityType[] = [
+  'new-commits',
+  'review-requested',
+  'review-re-requested',
+]
+
+/** `updated` covers refreshed PR data with no status change, which every poll produces */
+export type PRChangeType = 'added' | 'updated' | 'status' | 'activity' | 'removed'
+type ChangeListener = (prId: string, state: PRState, change: PRChangeType) => void
 
 let prStates: PRStateMap = new Map()
 let listeners: ChangeListener[] = []
-let userTeamSlugs: string[] = []
+let userTeamKeys: string[] = []
 
-export function setUserTeams(teamSlugs: string[]): void {
-  userTeamSlugs = teamSlugs
-  info(`User teams set: ${teamSlugs.join(', ') || 'none'}`)
+/** Teams as `org/slug` keys */
+export function setUserTeams(teamKeys: string[]): void {
+  userTeamKeys = teamKeys
+  info(`User teams set: ${teamKeys.join(', ') || 'none'}`)
 }
 
 export function getUserTeams(): string[] {
-  return userTeamSlugs
+  return userTeamKeys
 }
 
 export function getPRState(prId: string): PRState | undefined {
@@ -42,15 +70,24 @@ export function getPendingReviewPRs(): PRState[] {
 }
 
 export function setPRState(prId: string, state: PRState): void {
+  const previous = prStates.get(prId)
   prStates.set(prId, state)
-  notifyListeners(prId, state)
+  recordTriage(state)
+  notifyListeners(prId, state, getChangeType(previous, state))
+}
+
+function getChangeType(previous: PRState | undefined, state: PRState): PRChangeType {
+  if (!previous) return 'added'
+  if (state.activity && state.activity !== previous.activity) return 'activity'
+  return previous.status === state.status ? 'updated' : 'status'
 }
 
 export function updatePRStatus(prId: string, status: PRStatus): void {
   const existing = prStates.get(prId)
   if (!existing) return
 
-  const updated: PRState = { ...existing, status }
+  // Any other triage action ends a snooze and acknowledges the activity
+  const updated: PRState = { ...existing, status, snooze: undefined, activity: undefined }
 
   if (status === 'seen' && !existing.seenAt) {
     updated.seenAt = new Date()
@@ -65,48 +102,164 @@ export function updatePRStatus(prId: string, status: PRStatus): void {
   setPRState(prId, updated)
 }
 
+export interface SnoozeOptions {
+  until?: Date
+  condition?: SnoozeCondition
+}
+
+/** Hide a PR until `until`, or until its condition is met; the scheduler wakes it */
+export function snoozePR(prId: string, options: SnoozeOptions): PRSnooze | undefined {
+  const existing = prStates.get(prId)
+  if (!existing) return undefined
+
+  const snooze: PRSnooze = {
+    ...options,
+    headSha: existing.pr.head.sha,
+    snoozedAt: new Date(),
+  }
+  setPRState(prId, { ...existing, status: 'snoozed', snooze })
+  info(`PR snoozed: ${prId}`, { until: options.until?.toISOString(), condition: options.condition })
+  return snooze
+}
+
+/** Bring a snoozed PR back as new, so it shows up and notifies again */
+export function wakePR(prId: string, reason: string): void {
+  const existing = prStates.get(prId)
+  if (existing?.status !== 'snoozed') return
+
+  setPRState(prId, { ...existing, status: 'new', snooze: undefined })
+  info(`PR woken from snooze: ${prId} (${reason})`)
+}
+
+export function getSnoozedPRs(): PRState[] {
+  return getPRsByStatus('snoozed')
+}
+
+/** Add activity found outside the sync, such as mentions in new comments */
+export function addPRActivity(prId: string, activity: PRActivity[]): void {
+  const existing = prStates.get(prId)
+  if (!existing || activity.length === 0) return
+
+  setPRState(prId, { ...existing, activity: appendActivity(existing.activity, activity) })
+}
+
+export function setPRSignals(prId: string, signals: PRSignals): void {
+  const existing = prStates.get(prId)
+  if (!existing) return
+
+  setPRState(prId, { ...existing, signals })
+}
+
 export function addPR(pr: PullRequest, needsMyReview = false): PRState {
   const existing = prStates.get(pr.id)
   if (existing) {
     return updateExistingPR(existing, pr, needsMyReview)
   }
 
-  const state: PRState = { pr, status: 'new', needsMyReview }
+  const state = restoreTriage(pr, needsMyReview)
   setPRState(pr.id, state)
-  info(`New PR added: ${pr.id}`)
+  info(
+    state.status === 'new' ? `New PR added: ${pr.id}` : `PR restored as ${state.status}: ${pr.id}`
+  )
   return state
 }
 
-function updateExistingPR(existing: PRState, pr: PullRequest, needsMyReview?: boolean): PRState {
-  const updated: PRState = { 
-    ...existing, 
+/** Pick up where triage left off before a restart */
+function restoreTriage(pr: PullRequest, needsMyReview: boolean): PRState {
+  const record = getTriageRecord(pr.id)
+  if (!record) return { pr, status: 'new', needsMyReview }
+
+  // What happened while the app was closed counts as activity too
+  const activity = detectActivity(record, pr, needsMyReview)
+  const state: PRState = {
     pr,
-    needsMyReview: needsMyReview ?? existing.needsMyReview 
+    // The review job didn't survive the restart
+    status: record.status === 'reviewing' ? 'seen' : record.status,
+    needsMyReview,
+    seenAt: record.seenAt,
+    reviewStartedAt: record.reviewStartedAt,
+    reviewCompletedAt: record.reviewCompletedAt,
+    snooze: record.snooze,
+    activity: appendActivity(record.activity, activity),
+  }
+  return resetDismissal(state, activity)
+}
+
+function updateExistingPR(existing: PRState, pr: PullRequest, needsMyReview?: boolean): PRState {
+  const baseline = {
+    headSha: existing.pr.head.sha,
+    baseRef: existing.pr.base.ref,
+    needsMyReview: existing.needsMyReview,
+    reviewCompletedAt: existing.reviewCompletedAt,
   }
+  const nowNeedsMyReview = needsMyReview ?? existing.needsMyReview
+  const activity = detectActivity(baseline, pr, nowNeedsMyReview)
+
+  const updated = resetDismissal(
+    {
+      ...existing,
+      pr,
+      needsMyReview: nowNeedsMyReview,
+      activity: appendActivity(existing.activity, activity),
+    },
+    activity
+  )
   setPRState(pr.id, updated)
   return updated
 }
 
+/** A dismissed PR comes back as new once it gets new commits or asks for my review */
+function resetDismissal(state: PRState, activity: PRActivity[]): PRState {
+  if (state.status !== 'dismissed') return state
+
+  const reason = activity.find((a) => DISMISSAL_RESETS.includes(a.type))
+  if (!reason) return state
+
+  info(`Dismissal reset for ${state.pr.id}: ${describeActivity(reason)}`)
+  return { ...state, status: 'new' }
+}
+
 export function removePR(prId: string): boolean {
-  const deleted = prStates.delete(prId)
-  if (deleted) {
-    debug(`PR removed: ${prId}`)
-  }
-  return deleted
+  const existing = prStates.get(prId)
+  if (!existing) return false
+
+  prStates.delete(prId)
+  debug(`PR removed: ${prId}`)
+  notifyListeners(prId, existing, 'removed')
+  return true
 }
 
 export interface SyncPRsOptions {
   prs: PullRequest[]
   myReviewPRIds: Set<string>
+  /** Tracked PRs this poll couldn't fetch, which are kept rather than removed as closed */
+  isUnfetched?: (pr: PullRequest) => boolean
+}
+
+/** A PR updated since the last sync, with the time to read new comments from */
+export interface UpdatedPR {
+  prId: string
+  since: Date
+}
+
+export interface SyncPRsResult {
+  added: string[]
+  removed: string[]
+  /** PRs that got activity from this sync */
+  active: string[]
+  /** PRs updated since the last sync, whose new comments may mention me */
+  updated: UpdatedPR[]
 }
 
-export function syncPRs(options: SyncPRsOptions): { added: string[]; removed: string[] } {
-  const { prs, myReviewPRIds } = options
+export function syncPRs(options: SyncPRsOptions): SyncPRsResult {
+  const { prs, myReviewPRIds, isUnfetched } = options
   const newIds = new Set(prs.map((p) => p.id))
   const existingIds = new Set(prStates.keys())
 
   const added: string[] = []
   const removed: string[] = []
+  const active: string[] = []
+  const updated: UpdatedPR[] = []
 
   // Add new PRs
   for (const pr of prs) {
@@ -117,19 +270,23 @@ export function syncPRs(options: SyncPRsOptions): { added: string[]; removed: st
     } else {
       // Update existing
       const existing = prStates.get(pr.id)!
-      updateExistingPR(existing, pr, needsMyReview)
+      const next = updateExistingPR(existing, pr, needsMyReview)
+      if (next.activity !== existing.activity) active.push(pr.id)
+      if (hasNewUpdates(existing.pr, pr)) {
+        updated.push({ prId: pr.id, since: existing.pr.updatedAt })
+      }
     }
   }
 
   // Remove closed PRs
   for (const id of existingIds) {
-    if (!newIds.has(id)) {
+    if (!newIds.has(id) && !isUnfetched?.(prStates.get(id)!.pr)) {
       removePR(id)
       removed.push(id)
     }
   }
 
-  return { added, removed }
+  return { added, removed, active, updated }
 }
 
 export function getMyReviewPRs(): PRState[] {
@@ -140,8 +297,10 @@ export function getOtherPRs(): PRState[] {
   return getAllPRStates().filter((s) => !s.needsMyReview)
 }
 
+/** Forget all PRs, including their persisted triage status */
 export function clearAllPRs(): void {
   prStates.clear()
+  clearTriageRecords()
   debug('All PRs cleared')
 }
 
@@ -152,9 +311,9 @@ export function addChangeListener(listener: ChangeListener): () => void {
   }
 }
 
-function notifyListeners(prId: string, state: PRState): void {
+function notifyListeners(prId: string, state: PRState, change: PRChangeType): void {
   for (const listener of listeners) {
-    listener(prId, state)
+    listener(prId, state, change)
   }
 }
 
@@ -162,6 +321,7 @@ export function getPRCount(): number {
   return prStates.size
 }
 
+/** PRs never opened, plus ones with activity since I last looked: the badge count */
 export function getNewPRCount(): number {
-  return getNewPRs().length
+  return getAllPRStates().filter(hasNewActivity).length
 }
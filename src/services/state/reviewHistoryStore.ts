@@ -0,0 +1,132 @@
+/** Review history store - persists completed reviews per PR, head SHA and agent */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs'
+import { join } from 'node:path'
+import type { ReviewResult, InlineCommentState } from '../../types/review.js'
+import { getConfigDir } from '../../config/env.js'
+import { debug } from '../../utils/logger.js'
+
+const HISTORY_FILE = 'reviews.json'
+const MAX_REVIEWS_PER_PR = 20
+/** PRs not reviewed for this long, most of them closed by then, are dropped from the history */
+const STALE_AFTER_MS = 30 * 24 * 60 * 60 * 1000
+
+export interface StoredReview {
+  result: ReviewResult
+  inlineComments: InlineCommentState[]
+}
+
+interface HistoryFile {
+  reviews: Record<string, StoredReview[]>
+}
+
+let history: Map<string, StoredReview[]> | null = null
+
+export function getReviewHistory(prId: string): ReviewResult[] {
+  return getStoredReviews(prId).map((r) => r.result)
+}
+
+export function getLatestStoredReview(prId: string): StoredReview | undefined {
+  return getStoredReviews(prId)[0]
+}
+
+export function findStoredReview(
+  prId: string,
+  headSha: string,
+  agentId: string
+): StoredReview | undefined {
+  return getStoredReviews(prId).find((r) => isSameRun(r.result, headSha, agentId))
+}
+
+/**
+ * Record a completed review, replacing any earlier run for the same head SHA and agent. The raw
+ * AI response is left out: it can be far larger than the parsed output and nothing reads it back.
+ */
+export function recordReview(result: ReviewResult): void {
+  const reviews = getStoredReviews(result.prId).filter(
+    (r) => !isSameRun(r.result, result.headSha, result.agentId)
+  )
+
+  reviews.unshift({ result: { ...result, rawResponse: '' }, inlineComments: [] })
+  loadHistory().set(result.prId, reviews.slice(0, MAX_REVIEWS_PER_PR))
+  pruneStaleHistory()
+  saveHistory()
+  debug(`Review recorded in history for PR: ${result.prId}`, { count: reviews.length })
+}
+
+export function recordInlineComments(
+  prId: string,
+  resultId: string,
+  comments: InlineCommentState[]
+): void {
+  const stored = getStoredReviews(prId).find((r) => r.result.id === resultId)
+  if (!stored) return
+
+  stored.inlineComments = comments
+  saveHistory()
+}
+
+export function clearReviewHistory(prId: string): boolean {
+  const deleted = loadHistory().delete(prId)
+  if (deleted) saveHistory()
+  return deleted
+}
+
+function getStoredReviews(prId: string): StoredReview[] {
+  return loadHistory().get(prId) ?? []
+}
+
+function pruneStaleHistory(): void {
+  const cutoff = Date.now() - STALE_AFTER_MS
+  for (const [prId, reviews] of loadHistory()) {
+    const latest = reviews[0]?.result.createdAt.getTime() ?? 0
+    if (latest < cutoff) loadHistory().delete(prId)
+  }
+}
+
+function isSameRun(result: ReviewResult, headSha: string, agentId: string): boolean {
+  return result.headSha === headSha && result.agentId === agentId
+}
+
+function getHistoryFilePath(): string {
+  return join(getConfigDir(), HISTORY_FILE)
+}
+
+function loadHistory(): Map<string, StoredReview[]> {
+  if (history) return history
+
+  history = new Map()
+  const filePath = getHistoryFilePath()
+  if (!existsSync(filePath)) return history
+
+  try {
+    const content = readFileSync(filePath, 'utf-8')
+    const data = JSON.parse(content) as HistoryFile
+    for (const [prId, reviews] of Object.entries(data.reviews ?? {})) {
+      history.set(prId, reviews.map(parseStoredReviewDates))
+    }
+    debug(`Loaded review history for ${history.size} PRs`)
+  } catch {
+    debug('Failed to read review history')
+  }
+
+  return history
+}
+
+function saveHistory(): void {
+  const dir = getConfigDir()
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+
+  const data: HistoryFile = { reviews: Object.fromEntries(loadHistory()) }
+  writeFileSync(getHistoryFilePath(), JSON.stringify(data, null, 2))
+}
+
+function parseStoredReviewDates(stored: StoredReview): StoredReview {
+  return {
+    result: { ...stored.result, createdAt: new Date(stored.result.createdAt) },
+    inlineComments: stored.inlineComments ?? [],
+  }
+}
@@ -1,11 +1,17 @@
-/** Review store - caches review results */
+/** Review store - tracks live review state, backed by the persisted review history */
 
 import type { ReviewResult, ReviewState, ReviewStage, InlineCommentState } from '../../types/review.js'
+import { getLatestStoredReview, recordReview, recordInlineComments } from './reviewHistoryStore.js'
 import { debug } from '../../utils/logger.js'
 
 type ReviewStateMap = Map<string, ReviewState>
+type ChangeListener = (prId: string, state: ReviewState) => void
+/** `agentId` tells the agents of a panel review apart; chunks are the model's text as it arrives */
+type OutputListener = (prId: string, agentId: string, chunk: string) => void
 
 let reviewStates: ReviewStateMap = new Map()
+let changeListeners: ChangeListener[] = []
+let outputListeners: OutputListener[] = []
 
 const STAGE_PROGRESS: Record<ReviewStage, number> = {
   starting: 10,
@@ -15,16 +21,37 @@ const STAGE_PROGRESS: Record<ReviewStage, number> = {
   parsing: 90,
 }
 
+function saveState(prId: string, state: ReviewState): void {
+  reviewStates.set(prId, state)
+  for (const listener of changeListeners) {
+    listener(prId, state)
+  }
+}
+
 export function getReviewState(prId: string): ReviewState | undefined {
-  return reviewStates.get(prId)
+  return reviewStates.get(prId) ?? restoreFromHistory(prId)
 }
 
 export function getReviewResult(prId: string): ReviewResult | undefined {
-  return reviewStates.get(prId)?.result
+  return getReviewState(prId)?.result
+}
+
+function restoreFromHistory(prId: string): ReviewState | undefined {
+  const stored = getLatestStoredReview(prId)
+  if (!stored) return undefined
+
+  return {
+    prId,
+    status: 'completed',
+    progress: 100,
+    result: stored.result,
+    completedAt: stored.result.createdAt,
+    inlineComments: stored.inlineComments,
+  }
 }
 
 export function setReviewPending(prId: string): void {
-  reviewStates.set(prId, {
+  saveState(prId, {
     prId,
     status: 'pending',
   })
@@ -33,7 +60,7 @@ export function setReviewPending(prId: string): void {
 
 export function setReviewInProgress(prId: string, stage?: ReviewStage): void {
   const existing = reviewStates.get(prId)
-  reviewStates.set(prId, {
+  saveState(prId, {
     ...existing,
     prId,
     status: 'in_progress',
@@ -48,7 +75,7 @@ export function updateReviewStage(prId: string, stage: ReviewStage): void {
   const existing = reviewStates.get(prId)
   if (!existing || existing.status !== 'in_progress') return
   
-  reviewStates.set(prId, {
+  saveState(prId, {
     ...existing,
     stage,
     progress: STAGE_PROGRESS[stage],
@@ -62,19 +89,20 @@ export function setReviewCompleted(prId: string, result: ReviewResult): void {
     ? Date.now() - existing.startedAt.getTime() 
     : 0
   
-  reviewStates.set(prId, {
+  saveState(prId, {
     prId,
     status: 'completed',
     progress: 100,
     result,
     completedAt: new Date(),
   })
+  recordReview(result)
   debug(`Review completed for PR: ${prId}`, { durationMs: duration })
 }
 
 export function setReviewFailed(prId: string, error: string): void {
   const existing = reviewStates.get(prId)
-  reviewStates.set(prId, {
+  saveState(prId, {
     ...existing,
     prId,
     status: 'failed',
@@ -88,7 +116,7 @@ export function setReviewCancelled(prId: string): boolean {
   const existing = reviewStates.get(prId)
   if (!existing || existing.status !== 'in_progress') return false
   
-  reviewStates.set(prId, {
+  saveState(prId, {
     ...existing,
     prId,
     status: 'cancelled',
@@ -119,7 +147,7 @@ export function getCompletedReviews(): ReviewState[] {
 }
 
 export function hasReview(prId: string): boolean {
-  return reviewStates.has(prId)
+  return getReviewState(prId) !== undefined
 }
 
 export function isReviewInProgress(prId: string): boolean {
@@ -130,10 +158,32 @@ export function setInlineComments(prId: string, comments: InlineCommentState[]):
   const existing = reviewStates.get(prId)
   if (!existing) return
 
-  reviewStates.set(prId, { ...existing, inlineComments: comments })
+  saveState(prId, { ...existing, inlineComments: comments })
+  if (existing.result) recordInlineComments(prId, existing.result.id, comments)
   debug(`Inline comments set for PR: ${prId}`, { count: comments.length })
 }
 
 export function getInlineComments(prId: string): InlineCommentState[] {
-  return reviewStates.get(prId)?.inlineComments ?? []
+  return getReviewState(prId)?.inlineComments ?? []
+}
+
+export function addReviewChangeListener(listener: ChangeListener): () => void {
+  changeListeners.push(listener)
+  return () => {
+    changeListeners = changeListeners.filter((l) => l !== listener)
+  }
+}
+
+export function addReviewOutputListener(listener: OutputListener): () => void {
+  outputListeners.push(listener)
+  return () => {
+    outputListeners = outputListeners.filter((l) => l !== listener)
+  }
+}
+
+/** Output isn't kept; it only reaches the listeners subscribed while the review runs */
+export function publishReviewOutput(prId: string, agentId: string, chunk: string): void {
+  for (const listener of outputListeners) {
+    listener(prId, agentId, chunk)
+  }
 }
@@ -1,24 +1,49 @@
 /** Settings store - manages app configuration persistence */
 
 import { writeFileSync, existsSync, mkdirSync } from 'node:fs'
-import type { ResolvedConfig, ReviewFormatConfig } from '../../types/config.js'
-import { tryLoadConfig, getConfigDir, getConfigFile } from '../../config/env.js'
+import type {
+  ResolvedConfig,
+  ReviewFormatConfig,
+  FetchStrategy,
+  GitHubHostConfig,
+  ResolvedGitHubConfig,
+  RulesConfig,
+  PriorityConfig,
+} from '../../types/config.js'
+import type { OAuthTokens } from '../../types/github.js'
+import { tryLoadConfig, getConfigDir, getConfigFile, saveGitHubToken } from '../../config/env.js'
+import { plainSecret } from '../../config/secrets.js'
 import { debug, info } from '../../utils/logger.js'
 
 let currentConfig: ResolvedConfig | null = null
 
 const DEFAULT_CONFIG: ResolvedConfig = {
-  github: { pat: '', username: '', org: '' },
-  polling: { intervalMs: 300000 },
+  github: { pat: plainSecret(''), username: '', org: '' },
+  polling: { intervalMs: 300000, strategy: 'rest' },
   server: { port: 3847, host: '127.0.0.1' },
   opencode: {
     enabled: true,
     model: 'anthropic/claude-sonnet-4-20250514',
     timeoutMs: 300000, // 5 minutes
     autoReview: true,
+    autoReviewConcurrency: 2,
+    autoReviewMaxLines: 1500,
   },
   reviewFormat: { style: 'standard', attribution: 'subtle' },
   notification: { enabled: true, sound: true },
+  rules: {
+    includeRepos: [],
+    excludeRepos: [],
+    ignoreLabels: [],
+    ignoreAuthors: [],
+    ignoreBots: false,
+    ignoreBaseBranches: [],
+    repoPolicies: [],
+  },
+  priority: {
+    weights: { age: 25, request: 15, size: 10, labels: 30, ci: 10, approvals: 10 },
+    urgentLabels: ['urgent', 'hotfix'],
+  },
   logLevel: 'info',
 }
 
@@ -35,27 +60,112 @@ export function getSettings(): ResolvedConfig {
   return currentConfig
 }
 
+/** A null `pat` keeps the saved token; a new one goes to secret storage, not settings.json */
 export function updateGitHubSettings(
-  pat: string,
+  pat: string | null,
   username: string,
-  org: string
+  org: string,
+  host?: GitHubHostConfig
 ): ResolvedConfig {
   if (!currentConfig) {
     currentConfig = tryLoadConfig() ?? { ...DEFAULT_CONFIG }
   }
 
+  const secret =
+    pat === null ? {} : { ...storeGitHubTokens({ accessToken: pat }), authMethod: 'pat' as const }
   currentConfig = {
     ...currentConfig,
-    github: { pat, username, org },
+    github: { ...currentConfig.github, ...secret, username, org },
+  }
+  if (host) return updateGitHubHost(host)
+
+  saveSettings()
+  return currentConfig
+}
+
+/** Finish a device-flow sign-in; `clientId` is kept so the token can be refreshed later */
+export function updateGitHubOAuthSettings(
+  tokens: OAuthTokens,
+  clientId: string,
+  username: string,
+  org: string,
+  host?: GitHubHostConfig
+): ResolvedConfig {
+  ensureConfig()
+  currentConfig = {
+    ...currentConfig!,
+    github: {
+      ...currentConfig!.github,
+      ...storeGitHubTokens(tokens),
+      authMethod: 'oauth',
+      oauthClientId: clientId,
+      username,
+      org,
+    },
   }
+  if (host) return updateGitHubHost(host)
+
+  saveSettings()
+  return currentConfig
+}
 
+/** Swap in a refreshed token pair, keeping the rest of the GitHub settings */
+export function updateGitHubTokens(tokens: OAuthTokens): ResolvedConfig {
+  ensureConfig()
+  currentConfig = {
+    ...currentConfig!,
+    github: { ...currentConfig!.github, ...storeGitHubTokens(tokens) },
+  }
   saveSettings()
   return currentConfig
 }
 
+function storeGitHubTokens(tokens: OAuthTokens): Partial<ResolvedGitHubConfig> {
+  const { accessToken, refreshToken } = tokens
+  return {
+    pat: plainSecret(accessToken),
+    refreshToken: refreshToken ? plainSecret(refreshToken) : undefined,
+    patStorage: saveGitHubToken(accessToken, refreshToken),
+  }
+}
+
+/** Point every GitHub call at a GHES instance, or back at github.com when the URLs are blank */
+export function updateGitHubHost(host: GitHubHostConfig): ResolvedConfig {
+  ensureConfig()
+  currentConfig = {
+    ...currentConfig!,
+    github: {
+      ...currentConfig!.github,
+      apiUrl: host.apiUrl || undefined,
+      webUrl: host.webUrl || undefined,
+      caBundlePath: host.caBundlePath || undefined,
+    },
+  }
+  saveSettings()
+  return currentConfig!
+}
+
+/** Extra orgs and `owner/repo` entries polled alongside the primary org */
+export function updateGitHubSources(sources: string[]): ResolvedConfig {
+  ensureConfig()
+  currentConfig = {
+    ...currentConfig!,
+    github: { ...currentConfig!.github, sources: sources.length > 0 ? sources : undefined },
+  }
+  saveSettings()
+  return currentConfig!
+}
+
 export function updatePollingSettings(intervalMs: number): ResolvedConfig {
   ensureConfig()
-  currentConfig = { ...currentConfig!, polling: { intervalMs } }
+  currentConfig = { ...currentConfig!, polling: { ...currentConfig!.polling, intervalMs } }
+  saveSettings()
+  return currentConfig!
+}
+
+export function updateFetchStrategy(strategy: FetchStrategy): ResolvedConfig {
+  ensureConfig()
+  currentConfig = { ...currentConfig!, polling: { ...currentConfig!.polling, strategy } }
   saveSettings()
   return currentConfig!
 }
@@ -74,6 +184,21 @@ export function updateOpenCodeSettings(
   return currentConfig!
 }
 
+export function updateAutoReviewLimits(concurrency: number, maxLines: number): ResolvedConfig {
+  ensureConfig()
+  currentConfig = {
+    ...currentConfig!,
+    opencode: {
+      ...currentConfig!.opencode,
+      // Clamp to the schema bounds so a bad value can't invalidate the saved file
+      autoReviewConcurrency: Math.min(Math.max(Math.round(concurrency), 1), 10),
+      autoReviewMaxLines: Math.max(Math.round(maxLines), 0),
+    },
+  }
+  saveSettings()
+  return currentConfig!
+}
+
 export function updateOpenCodeFolders(
   skillsFolder?: string,
   memoriesFolder?: string
@@ -113,6 +238,20 @@ export function updateNotificationSettings(
   return currentConfig!
 }
 
+export function updateRulesSettings(rules: Partial<RulesConfig>): ResolvedConfig {
+  ensureConfig()
+  currentConfig = { ...currentConfig!, rules: { ...currentConfig!.rules, ...rules } }
+  saveSettings()
+  return currentConfig!
+}
+
+export function updatePrioritySettings(priority: Required<PriorityConfig>): ResolvedConfig {
+  ensureConfig()
+  currentConfig = { ...currentConfig!, priority }
+  saveSettings()
+  return currentConfig!
+}
+
 function ensureConfig(): void {
   if (!currentConfig) {
     currentConfig = tryLoadConfig() ?? { ...DEFAULT_CONFIG }
@@ -131,11 +270,14 @@ function saveSettings(): void {
 
   // Save only user-configurable settings (not full resolved config)
   const settingsToSave = {
-    github: currentConfig.github,
+    // Tokens stay in secret storage; `patStorage` says where
+    github: { ...currentConfig.github, pat: undefined, refreshToken: undefined },
     polling: currentConfig.polling,
     opencode: currentConfig.opencode,
     reviewFormat: currentConfig.reviewFormat,
     notification: currentConfig.notification,
+    rules: currentConfig.rules,
+    priority: currentConfig.priority,
     logLevel: currentConfig.logLevel,
   }
 
@@ -146,14 +288,14 @@ function saveSettings(): void {
 export function isConfigured(): boolean {
   try {
     const settings = getSettings()
-    return Boolean(settings.github.pat && settings.github.username && settings.github.org)
+    return Boolean(settings.github.pat.isSet && settings.github.username && settings.github.org)
   } catch {
     return false
   }
 }
 
 export function getGitHubToken(): string {
-  return getSettings().github.pat
+  return getSettings().github.pat.resolve()
 }
 
 export function getGitHubUsername(): string {
@@ -164,6 +306,15 @@ export function getGitHubOrg(): string {
   return getSettings().github.org
 }
 
+export function getGitHubSources(): string[] {
+  return getSettings().github.sources ?? []
+}
+
+export function getGitHubHost(): GitHubHostConfig {
+  const { apiUrl, webUrl, caBundlePath } = getSettings().github
+  return { apiUrl, webUrl, caBundlePath }
+}
+
 export function isOpenCodeEnabled(): boolean {
   return getSettings().opencode.enabled
 }
@@ -172,10 +323,27 @@ export function isAutoReviewEnabled(): boolean {
   return getSettings().opencode.autoReview
 }
 
+export function getAutoReviewLimits(): { concurrency: number; maxLines: number } {
+  const { autoReviewConcurrency, autoReviewMaxLines } = getSettings().opencode
+  return { concurrency: autoReviewConcurrency, maxLines: autoReviewMaxLines }
+}
+
 export function getPollingInterval(): number {
   return getSettings().polling.intervalMs
 }
 
+export function getFetchStrategy(): FetchStrategy {
+  return getSettings().polling.strategy
+}
+
+export function getRepoRules(): RulesConfig {
+  return getSettings().rules
+}
+
+export function getPriorityConfig(): Required<PriorityConfig> {
+  return getSettings().priority
+}
+
 export function getConfiguredModel(): string {
   return getSettings().opencode.model
 }
@@ -0,0 +1,152 @@
+/** Triage store - persists each PR's status (seen, dismissed, reviewed) across restarts */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs'
+import { join } from 'node:path'
+import type { PRActivity, PRSnooze, PRState, PRStatus } from '../../types/pr.js'
+import { getConfigDir } from '../../config/env.js'
+import { debug } from '../../utils/logger.js'
+
+const TRIAGE_FILE = 'triage.json'
+/** Records of PRs that stop being polled (closed, or filtered out) are dropped after this long */
+const STALE_AFTER_MS = 30 * 24 * 60 * 60 * 1000
+// Every poll touches every record; an unchanged one only has `polledAt` written this often
+const POLLED_WRITE_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+export interface TriageRecord {
+  /** Head commit when the record was written, to spot new commits after a restart */
+  headSha: string
+  status: PRStatus
+  needsMyReview: boolean
+  seenAt?: Date
+  reviewStartedAt?: Date
+  reviewCompletedAt?: Date
+  snooze?: PRSnooze
+  activity?: PRActivity[]
+  updatedAt: Date
+  /** Last time a poll still saw the PR, to within a day; stale records are pruned by it */
+  polledAt?: Date
+}
+
+interface TriageFile {
+  prs: Record<string, TriageRecord>
+}
+
+let records: Map<string, TriageRecord> | null = null
+
+export function getTriageRecord(prId: string): TriageRecord | undefined {
+  return loadRecords().get(prId)
+}
+
+/** Save a PR's triage fields; refreshed PR data that changes none of them isn't written */
+export function recordTriage(state: PRState): void {
+  const record: TriageRecord = {
+    headSha: state.pr.head.sha,
+    status: state.status,
+    needsMyReview: state.needsMyReview,
+    seenAt: state.seenAt,
+    reviewStartedAt: state.reviewStartedAt,
+    reviewCompletedAt: state.reviewCompletedAt,
+    snooze: state.snooze,
+    activity: state.activity,
+    updatedAt: new Date(),
+    polledAt: new Date(),
+  }
+
+  const existing = loadRecords().get(state.pr.id)
+  if (existing && isSameTriage(existing, record)) {
+    if (Date.now() - getPolledAt(existing).getTime() < POLLED_WRITE_INTERVAL_MS) return
+    existing.polledAt = record.polledAt
+  } else {
+    loadRecords().set(state.pr.id, record)
+  }
+
+  pruneStaleRecords()
+  saveRecords()
+}
+
+export function clearTriageRecords(): void {
+  records = new Map()
+  saveRecords()
+  debug('Triage records cleared')
+}
+
+function isSameTriage(a: TriageRecord, b: TriageRecord): boolean {
+  return (
+    a.headSha === b.headSha &&
+    a.status === b.status &&
+    a.needsMyReview === b.needsMyReview &&
+    a.seenAt?.getTime() === b.seenAt?.getTime() &&
+    a.reviewStartedAt?.getTime() === b.reviewStartedAt?.getTime() &&
+    a.reviewCompletedAt?.getTime() === b.reviewCompletedAt?.getTime() &&
+    a.snooze?.snoozedAt.getTime() === b.snooze?.snoozedAt.getTime() &&
+    a.activity?.length === b.activity?.length &&
+    a.activity?.at(-1)?.at.getTime() === b.activity?.at(-1)?.at.getTime()
+  )
+}
+
+function pruneStaleRecords(): void {
+  const cutoff = Date.now() - STALE_AFTER_MS
+  for (const [prId, record] of loadRecords()) {
+    if (getPolledAt(record).getTime() < cutoff) loadRecords().delete(prId)
+  }
+}
+
+/** Records written before `polledAt` existed fall back to their last change */
+function getPolledAt(record: TriageRecord): Date {
+  return record.polledAt ?? record.updatedAt
+}
+
+function getTriageFilePath(): string {
+  return join(getConfigDir(), TRIAGE_FILE)
+}
+
+function loadRecords(): Map<string, TriageRecord> {
+  if (records) return records
+
+  records = new Map()
+  const filePath = getTriageFilePath()
+  if (!existsSync(filePath)) return records
+
+  try {
+    const content = readFileSync(filePath, 'utf-8')
+    const data = JSON.parse(content) as TriageFile
+    for (const [prId, record] of Object.entries(data.prs ?? {})) {
+      records.set(prId, parseRecordDates(record))
+    }
+    debug(`Loaded triage state for ${records.size} PRs`)
+  } catch {
+    debug('Failed to read triage state')
+  }
+
+  return records
+}
+
+function saveRecords(): void {
+  const dir = getConfigDir()
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true })
+  }
+
+  const data: TriageFile = { prs: Object.fromEntries(loadRecords()) }
+  writeFileSync(getTriageFilePath(), JSON.stringify(data, null, 2))
+}
+
+function parseRecordDates(record: TriageRecord): TriageRecord {
+  const toDate = (value?: Date): Date | undefined => (value ? new Date(value) : undefined)
+
+  return {
+    ...record,
+    seenAt: toDate(record.seenAt),
+    reviewStartedAt: toDate(record.reviewStartedAt),
+    reviewCompletedAt: toDate(record.reviewCompletedAt),
+    snooze: record.snooze && {
+      ...record.snooze,
+      until: toDate(record.snooze.until),
+      snoozedAt: new Date(record.snooze.snoozedAt),
+    },
+    activity: record.activity?.map((a) => ({ ...a, at: new Date(a.at) })),
+    updatedAt: new Date(record.updatedAt),
+    polledAt: toDate(record.polledAt),
+  }
+}
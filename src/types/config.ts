@@ -3,13 +3,32 @@
 import { z } from 'zod'
 
 export const GitHubConfigSchema = z.object({
-  pat: z.string().min(1, 'GitHub PAT is required'),
+  /** Only read from GITHUB_PAT, or from a settings.json written before secret storage */
+  pat: z.string().min(1, 'GitHub PAT is required').optional(),
+  /** Where the PAT was stored; settings.json never holds the token itself */
+  patStorage: z.enum(['keychain', 'encrypted-file']).optional(),
+  /** `oauth` tokens come from device-flow sign-in and are refreshed when GitHub rejects them */
+  authMethod: z.enum(['pat', 'oauth']).optional(),
+  /** Client ID of the GitHub App or OAuth App used to sign in, needed to refresh its token */
+  oauthClientId: z.string().optional(),
   username: z.string().min(1, 'GitHub username is required'),
   org: z.string().min(1, 'GitHub organization is required'),
+  /** Extra orgs (`acme`) and single repos (`octocat/dotfiles`) polled alongside `org` */
+  sources: z
+    .array(z.string().regex(/^[\w.-]+(\/[\w.-]+)?$/, 'Sources must be an org or owner/repo'))
+    .optional(),
+  /** REST API base, e.g. `https://ghe.example.com/api/v3`; derived from `webUrl` when unset */
+  apiUrl: z.string().url().optional(),
+  /** Web base, e.g. `https://ghe.example.com`; derived from `apiUrl` when unset */
+  webUrl: z.string().url().optional(),
+  /** PEM bundle of extra CA certificates for a GHES instance behind a private CA */
+  caBundlePath: z.string().optional(),
 })
 
 export const PollingConfigSchema = z.object({
   intervalMs: z.number().min(30000).default(300000),
+  /** `rest` lists every org repo; `graphql` runs review-request searches in a few queries */
+  strategy: z.enum(['rest', 'graphql']).default('rest'),
 })
 
 export const ServerConfigSchema = z.object({
@@ -23,21 +42,78 @@ export const OpenCodeConfigSchema = z.object({
   timeoutMs: z.number().min(10000).default(120000),
   path: z.string().optional(),
   autoReview: z.boolean().default(true),
+  autoReviewConcurrency: z.number().min(1).max(10).default(2),
+  autoReviewMaxLines: z.number().min(0).default(1500),
   skillsFolder: z.string().optional(),
   memoriesFolder: z.string().optional(),
 })
 
+const ReviewStyleSchema = z.enum(['minimal', 'standard', 'detailed'])
+const ReviewAttributionSchema = z.enum(['none', 'subtle', 'full'])
+
 export const ReviewFormatConfigSchema = z.object({
-  style: z.enum(['minimal', 'standard', 'detailed']).default('standard'),
-  attribution: z.enum(['none', 'subtle', 'full']).default('subtle'),
+  style: ReviewStyleSchema.default('standard'),
+  attribution: ReviewAttributionSchema.default('subtle'),
   signature: z.string().optional(),
 })
 
+/** Review settings for repos matching a glob; later matches override earlier ones */
+export const RepoPolicySchema = z.object({
+  /** Glob on `owner/repo`, or on the repo name when it has no slash, e.g. `infra-*` */
+  repos: z.string().min(1),
+  agentId: z.string().optional(),
+  reviewFormat: z
+    .object({
+      style: ReviewStyleSchema.optional(),
+      attribution: ReviewAttributionSchema.optional(),
+      signature: z.string().optional(),
+    })
+    .optional(),
+})
+
+/** Which PRs are tracked at all, and how each repo is reviewed */
+export const RulesConfigSchema = z.object({
+  /** Repo globs to track; empty means every repo from the configured sources */
+  includeRepos: z.array(z.string()).default([]),
+  excludeRepos: z.array(z.string()).default([]),
+  ignoreLabels: z.array(z.string()).default([]),
+  /** Author login globs, e.g. `dependabot[bot]` */
+  ignoreAuthors: z.array(z.string()).default([]),
+  /** Skip PRs opened by any bot account */
+  ignoreBots: z.boolean().default(false),
+  /** Base branch globs, e.g. `release/*` */
+  ignoreBaseBranches: z.array(z.string()).default([]),
+  repoPolicies: z.array(RepoPolicySchema).default([]),
+})
+
 export const NotificationConfigSchema = z.object({
   enabled: z.boolean().default(true),
   sound: z.boolean().default(true),
 })
 
+/** Points each factor can add to a PR's priority score; 0 turns a factor off */
+export const PriorityWeightsSchema = z.object({
+  /** Time since my review was requested */
+  age: z.number().min(0).default(25),
+  /** Requested from me directly, or half as much through a team */
+  request: z.number().min(0).default(15),
+  /** Smaller PRs score higher */
+  size: z.number().min(0).default(10),
+  /** Has one of `urgentLabels` */
+  labels: z.number().min(0).default(30),
+  /** Passing checks score higher than pending or failing ones */
+  ci: z.number().min(0).default(10),
+  /** PRs with fewer approvals score higher */
+  approvals: z.number().min(0).default(10),
+})
+
+/** How the review queue is ranked */
+export const PriorityConfigSchema = z.object({
+  weights: PriorityWeightsSchema.optional(),
+  /** Matched case-insensitively */
+  urgentLabels: z.array(z.string()).default(['urgent', 'hotfix']),
+})
+
 export const AppConfigSchema = z.object({
   github: GitHubConfigSchema,
   polling: PollingConfigSchema.optional(),
@@ -45,20 +121,43 @@ export const AppConfigSchema = z.object({
   opencode: OpenCodeConfigSchema.optional(),
   reviewFormat: ReviewFormatConfigSchema.optional(),
   notification: NotificationConfigSchema.optional(),
+  rules: RulesConfigSchema.optional(),
+  priority: PriorityConfigSchema.optional(),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 })
 
 export type GitHubConfig = z.infer<typeof GitHubConfigSchema>
+export type SecretBackendName = NonNullable<GitHubConfig['patStorage']>
+export type GitHubHostConfig = Pick<GitHubConfig, 'apiUrl' | 'webUrl' | 'caBundlePath'>
 export type PollingConfig = z.infer<typeof PollingConfigSchema>
+export type FetchStrategy = PollingConfig['strategy']
 export type ServerConfig = z.infer<typeof ServerConfigSchema>
 export type OpenCodeConfig = z.infer<typeof OpenCodeConfigSchema>
 export type ReviewFormatConfig = z.infer<typeof ReviewFormatConfigSchema>
 export type NotificationConfig = z.infer<typeof NotificationConfigSchema>
+export type RepoPolicy = z.infer<typeof RepoPolicySchema>
+export type RulesConfig = z.infer<typeof RulesConfigSchema>
+export type PriorityWeights = z.infer<typeof PriorityWeightsSchema>
+export type PriorityConfig = z.infer<typeof PriorityConfigSchema>
 export type AppConfig = z.infer<typeof AppConfigSchema>
 
+/** A secret kept outside the config; `resolve()` reads it from its store when first needed */
+export interface SecretRef {
+  readonly isSet: boolean
+  resolve(): string
+}
+
+export type ResolvedGitHubConfig = Omit<GitHubConfig, 'pat'> & {
+  pat: SecretRef
+  /** Only set for `oauth` sign-ins whose app issues expiring tokens */
+  refreshToken?: SecretRef
+}
+
+export type GitHubSecrets = Pick<ResolvedGitHubConfig, 'pat' | 'refreshToken'>
+
 /** Resolved config with all defaults applied */
 export interface ResolvedConfig {
-  github: GitHubConfig
+  github: ResolvedGitHubConfig
   polling: Required<PollingConfig>
   server: Required<ServerConfig>
   opencode: Required<Omit<OpenCodeConfig, 'path' | 'skillsFolder' | 'memoriesFolder'>> & { 
@@ -68,6 +167,8 @@ export interface ResolvedConfig {
   }
   reviewFormat: Required<Omit<ReviewFormatConfig, 'signature'>> & { signature?: string }
   notification: Required<NotificationConfig>
+  rules: RulesConfig
+  priority: Required<PriorityConfig>
   logLevel: 'debug' | 'info' | 'warn' | 'error'
 }
 
@@ -77,11 +178,12 @@ export interface AppSettings {
   defaultAgentId: string
 }
 
-export function resolveConfig(config: AppConfig): ResolvedConfig {
+export function resolveConfig(config: AppConfig, secrets: GitHubSecrets): ResolvedConfig {
   return {
-    github: config.github,
+    github: { ...config.github, ...secrets },
     polling: {
       intervalMs: config.polling?.intervalMs ?? 300000,
+      strategy: config.polling?.strategy ?? 'rest',
     },
     server: {
       port: config.server?.port ?? 3847,
@@ -93,6 +195,8 @@ export function resolveConfig(config: AppConfig): ResolvedConfig {
       timeoutMs: config.opencode?.timeoutMs ?? 120000,
       path: config.opencode?.path,
       autoReview: config.opencode?.autoReview ?? true,
+      autoReviewConcurrency: config.opencode?.autoReviewConcurrency ?? 2,
+      autoReviewMaxLines: config.opencode?.autoReviewMaxLines ?? 1500,
       skillsFolder: config.opencode?.skillsFolder,
       memoriesFolder: config.opencode?.memoriesFolder,
     },
@@ -105,6 +209,19 @@ export function resolveConfig(config: AppConfig): ResolvedConfig {
       enabled: config.notification?.enabled ?? true,
       sound: config.notification?.sound ?? true,
     },
+    rules: {
+      includeRepos: config.rules?.includeRepos ?? [],
+      excludeRepos: config.rules?.excludeRepos ?? [],
+      ignoreLabels: config.rules?.ignoreLabels ?? [],
+      ignoreAuthors: config.rules?.ignoreAuthors ?? [],
+      ignoreBots: config.rules?.ignoreBots ?? false,
+      ignoreBaseBranches: config.rules?.ignoreBaseBranches ?? [],
+      repoPolicies: config.rules?.repoPolicies ?? [],
+    },
+    priority: {
+      weights: config.priority?.weights ?? PriorityWeightsSchema.parse({}),
+      urgentLabels: config.priority?.urgentLabels ?? ['urgent', 'hotfix'],
+    },
     logLevel: config.logLevel ?? 'info',
   }
 }
@@ -77,6 +77,16 @@ export class ConfigError extends AppError {
   }
 }
 
+export class ReviewInProgressError extends AppError {
+  constructor(
+    public readonly prId: string,
+    public readonly jobId?: string
+  ) {
+    super(`Review already in progress for PR: ${prId}`, 'REVIEW_IN_PROGRESS', true)
+    this.name = 'ReviewInProgressError'
+  }
+}
+
 export function isOpenCodeError(error: unknown): error is OpenCodeCLIError {
   return error instanceof OpenCodeCLIError
 }
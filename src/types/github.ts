@@ -5,6 +5,8 @@ export interface GitHubUser {
   id: number
   avatar_url: string
   html_url: string
+  /** `User`, `Bot` or `Organization` */
+  type?: string
 }
 
 export interface GitHubTeam {
@@ -63,11 +65,14 @@ export interface GitHubPullRequest {
   created_at: string
   updated_at: string
   merged_at: string | null
-  comments: number
-  review_comments: number
-  additions: number
-  deletions: number
-  changed_files: number
+  // Counts come with the single-PR endpoint and the GraphQL search, not the `/pulls` list
+  comments?: number
+  review_comments?: number
+  additions?: number
+  deletions?: number
+  changed_files?: number
+  /** Only on the single-PR endpoint; null while GitHub computes it */
+  mergeable?: boolean | null
 }
 
 export interface GitHubReviewRequest {
@@ -85,6 +90,14 @@ export interface GitHubFile {
   patch?: string
 }
 
+export interface GitHubCompare {
+  status: 'diverged' | 'ahead' | 'behind' | 'identical'
+  ahead_by: number
+  behind_by: number
+  total_commits: number
+  files?: GitHubFile[]
+}
+
 export interface GitHubCheckRun {
   id: number
   name: string
@@ -102,10 +115,31 @@ export interface GitHubReview {
   submitted_at: string
 }
 
+/** Conversation or review comment as read back from GitHub */
+export interface GitHubComment {
+  id: number
+  user: GitHubUser
+  body: string
+  created_at: string
+  html_url: string
+}
+
+/** Entry from the issue events API; only the fields of `review_requested` events are typed */
+export interface GitHubIssueEvent {
+  id: number
+  event: string
+  created_at: string
+  requested_reviewer?: GitHubUser
+  requested_team?: Pick<GitHubTeam, 'id' | 'name' | 'slug'>
+}
+
 export interface GitHubReviewComment {
   path: string
   line?: number
   side?: 'LEFT' | 'RIGHT'
+  /** First line of a multi-line comment; `line` is the last */
+  start_line?: number
+  start_side?: 'LEFT' | 'RIGHT'
   body: string
 }
 
@@ -115,9 +149,91 @@ export interface CreateReviewRequest {
   comments?: GitHubReviewComment[]
 }
 
+/** User token pair from device-flow sign-in or a refresh */
+export interface OAuthTokens {
+  accessToken: string
+  /** Missing when the app's tokens don't expire */
+  refreshToken?: string
+}
+
 export interface GitHubRateLimit {
   limit: number
   remaining: number
   reset: number
   used: number
 }
+
+export interface GitHubGraphQLResponse<T> {
+  data?: T
+  errors?: { message: string; type?: string }[]
+}
+
+export interface GraphQLActor {
+  __typename?: string
+  login: string
+  databaseId?: number
+  avatarUrl: string
+  url: string
+}
+
+interface GraphQLTeam {
+  databaseId: number
+  name: string
+  slug: string
+  description: string | null
+  url: string
+  organization: { login: string; databaseId: number }
+}
+
+export interface GraphQLRepository {
+  databaseId: number
+  name: string
+  nameWithOwner: string
+  url: string
+  description: string | null
+  isPrivate: boolean
+  owner: GraphQLActor
+  defaultBranchRef: { name: string } | null
+}
+
+/** Pull request fields selected by the GraphQL search, shaped after the REST response */
+export interface GraphQLPullRequest {
+  databaseId: number
+  number: number
+  title: string
+  body: string
+  state: 'OPEN' | 'CLOSED' | 'MERGED'
+  isDraft: boolean
+  url: string
+  author: GraphQLActor | null
+  headRefName: string
+  headRefOid: string
+  baseRefName: string
+  baseRefOid: string
+  repository: GraphQLRepository
+  labels: { nodes: { name: string; color: string; description: string | null }[] }
+  reviewRequests: {
+    nodes: {
+      requestedReviewer:
+        | (GraphQLActor & { __typename: 'User' })
+        | (GraphQLTeam & { __typename: 'Team' })
+        | null
+    }[]
+  }
+  createdAt: string
+  updatedAt: string
+  mergedAt: string | null
+  comments: { totalCount: number }
+  reviewThreads: { totalCount: number }
+  additions: number
+  deletions: number
+  changedFiles: number
+}
+
+export interface GraphQLSearchResult {
+  search: {
+    issueCount: number
+    pageInfo: { hasNextPage: boolean; endCursor: string | null }
+    nodes: (GraphQLPullRequest | Record<string, never>)[]
+  }
+}
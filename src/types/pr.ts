@@ -27,12 +27,13 @@ export interface PullRequest {
   requestedReviewers: GitHubUser[]
   requestedTeams: GitHubTeam[]
   labels: string[]
+  /** Unset when the PR came from the REST list endpoint, which leaves the counts out */
   stats: {
-    additions: number
-    deletions: number
-    changedFiles: number
-    comments: number
-    reviewComments: number
+    additions?: number
+    deletions?: number
+    changedFiles?: number
+    comments?: number
+    reviewComments?: number
   }
   createdAt: Date
   updatedAt: Date
@@ -42,6 +43,11 @@ export interface PRWithDetails extends PullRequest {
   files: PRFile[]
   checks: PRCheck[]
   diff: string
+  /** Agent and review format this repo is reviewed with by default */
+  reviewPolicy?: {
+    agentId: string
+    reviewFormat: import('./review.js').ReviewFormatOptions
+  }
 }
 
 export interface PRFile {
@@ -65,6 +71,8 @@ export interface PRListItem {
   author: string
   authorAvatar: string
   repository: string
+  /** Owner of the repository: the org, or the user for personal repos */
+  org: string
   updatedAt: Date
   reviewStatus: 'pending' | 'reviewing' | 'reviewed'
   hasNewActivity: boolean
@@ -72,9 +80,99 @@ export interface PRListItem {
   htmlUrl: string
   requestedReviewers: string[]
   requestedTeams: string[]
+  priority: PRPriority
+  /** What happened since I last looked, oldest first */
+  activity: PRActivity[]
+}
+
+export type PRStatus = 'new' | 'seen' | 'reviewing' | 'reviewed' | 'dismissed' | 'snoozed'
+
+/** What wakes a snoozed PR besides its `until` time */
+export type SnoozeCondition = 'new-commits' | 'ci-passes'
+
+export interface PRSnooze {
+  until?: Date
+  condition?: SnoozeCondition
+  /** Head commit when the PR was snoozed, which `new-commits` waits to change */
+  headSha: string
+  snoozedAt: Date
+}
+
+/** Something that happened on a tracked PR between two polls */
+export type PRActivityType =
+  | 'new-commits'
+  | 'review-requested'
+  | 'review-re-requested'
+  | 'mentioned'
+  | 'base-changed'
+
+export interface PRActivity {
+  type: PRActivityType
+  at: Date
+  /** Who mentioned me, or the new base branch */
+  detail?: string
+}
+
+/** Overall result of a PR's checks; `none` when it has no checks */
+export type CIState = 'passing' | 'failing' | 'pending' | 'none'
+
+/** Review-queue inputs that need extra API calls, refreshed by the poll */
+export interface PRSignals {
+  /** Latest time my review, or one of my teams', was requested */
+  reviewRequestedAt?: Date
+  /** Reviewers whose latest review approves the PR */
+  approvals: number
+  ci: CIState
+  /** Head commit the checks were read for */
+  headSha: string
+  fetchedAt: Date
+}
+
+export type PriorityFactor = 'age' | 'request' | 'size' | 'labels' | 'ci' | 'approvals'
+
+export interface PRPriority {
+  score: number
+  /** Points each factor added to `score` */
+  breakdown: Record<PriorityFactor, number>
 }
 
-export type PRStatus = 'new' | 'seen' | 'reviewing' | 'reviewed' | 'dismissed'
+/** One reviewer's standing on a PR I authored; a pending request outranks an older verdict */
+export type ReviewerState = 'approved' | 'changes_requested' | 'pending'
+
+export interface ReviewerStatus {
+  /** User login, or team slug when `team` is set */
+  login: string
+  state: ReviewerState
+  team?: boolean
+}
+
+/** A PR I authored, with the review and merge state the "mine" view tracks */
+export interface MyPRState {
+  pr: PullRequest
+  reviewers: ReviewerStatus[]
+  ci: CIState
+  /** False when the PR has merge conflicts; null while GitHub is still computing it */
+  mergeable: boolean | null
+  /** Head commit the checks were read for */
+  headSha: string
+  fetchedAt: Date
+}
+
+export interface MyPRListItem {
+  id: string
+  number: number
+  title: string
+  repository: string
+  org: string
+  htmlUrl: string
+  draft: boolean
+  updatedAt: Date
+  /** Changes requested by anyone wins, then pending requests, then approved */
+  reviewState: ReviewerState | 'none'
+  reviewers: ReviewerStatus[]
+  ci: CIState
+  hasConflicts: boolean
+}
 
 export interface PRState {
   pr: PullRequest
@@ -83,6 +181,12 @@ export interface PRState {
   seenAt?: Date
   reviewStartedAt?: Date
   reviewCompletedAt?: Date
+  /** Set while `status` is `snoozed` */
+  snooze?: PRSnooze
+  /** Only fetched for PRs waiting on my review */
+  signals?: PRSignals
+  /** Activity since the PR was last seen, reviewed or dismissed */
+  activity?: PRActivity[]
 }
 
 export function mapGitHubPRToPullRequest(
@@ -2,6 +2,8 @@
 
 export type ReviewSeverity = 'critical' | 'warning' | 'info'
 export type ReviewVerdict = 'approve' | 'request_changes' | 'comment'
+/** Side of a diff a line is on: LEFT is the old file, RIGHT the new one */
+export type DiffSide = 'LEFT' | 'RIGHT'
 export type ReviewFocus =
   | 'code-quality'
   | 'security'
@@ -15,8 +17,16 @@ export interface ReviewIssue {
   file?: string
   line?: number
   endLine?: number
+  /** LEFT when `line` is an old-file line, for issues about removed code; defaults to RIGHT */
+  side?: DiffSide
+  /** Code copied from the line the issue is about, used to find it if `line` is off */
+  anchor?: string
   message: string
   suggestion?: string
+  /** Exact code that replaces `line` through `endLine`, posted as a GitHub suggested change */
+  replacement?: string
+  /** Agents that raised the issue, set on multi-agent reviews */
+  agentIds?: string[]
 }
 
 export interface ReviewSuggestion {
@@ -26,23 +36,68 @@ export interface ReviewSuggestion {
   code?: string
 }
 
+export type FollowUpStatus = 'fixed' | 'open'
+
+/** Status of an issue from a previous review, as judged by an incremental re-review */
+export interface PreviousIssueFollowUp {
+  issue: ReviewIssue
+  status: FollowUpStatus
+  note?: string
+}
+
 export interface AIReviewOutput {
   summary: string
   verdict: ReviewVerdict
   issues: ReviewIssue[]
   suggestions: ReviewSuggestion[]
   positives?: string[]
+  previousIssues?: PreviousIssueFollowUp[]
+}
+
+/** Set on results that only reviewed commits pushed since an earlier review */
+export interface IncrementalReviewInfo {
+  previousReviewId: string
+  previousHeadSha: string
 }
 
 export interface ReviewResult {
   id: string
   prId: string
   prNumber: number
+  headSha: string
   agentId: string
   output: AIReviewOutput
   rawResponse: string
   createdAt: Date
   duration: number
+  incremental?: IncrementalReviewInfo
+  /** Number of batches a large PR was split into; unset when reviewed in one pass */
+  batchCount?: number
+  /** Per-agent outputs of a multi-agent review; `output` holds the merged result */
+  agentResults?: AgentReviewOutput[]
+  /** Agents of a multi-agent review that failed; `output` only covers the others */
+  failedAgents?: AgentReviewFailure[]
+}
+
+/** One agent's part of a multi-agent review */
+export interface AgentReviewOutput {
+  agentId: string
+  agentName: string
+  output: AIReviewOutput
+  duration: number
+}
+
+/** An agent that failed during a multi-agent review */
+export interface AgentReviewFailure {
+  agentId: string
+  agentName: string
+  error: string
+}
+
+/** Position of a batch within a review that was split to fit the model context */
+export interface ReviewBatchInfo {
+  index: number
+  total: number
 }
 
 export type ReviewStage = 
@@ -64,6 +119,23 @@ export interface ReviewState {
   inlineComments?: InlineCommentState[]
 }
 
+export type ReviewJobStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+/** A review started through the API, run in the background after the request returns */
+export interface ReviewJob {
+  id: string
+  prId: string
+  /** Agent id the review is recorded under; `+`-joined ids for a panel */
+  agentId: string
+  incremental: boolean
+  status: ReviewJobStatus
+  createdAt: Date
+  finishedAt?: Date
+  /** Id of the stored review once the job completes */
+  reviewId?: string
+  error?: string
+}
+
 export type ReviewStyle = 'minimal' | 'standard' | 'detailed'
 export type ReviewAttribution = 'none' | 'subtle' | 'full'
 
@@ -77,7 +149,8 @@ export interface PostReviewRequest {
   prId: string
   review: AIReviewOutput
   action: ReviewVerdict
-  formatOptions: ReviewFormatOptions
+  /** Defaults to the global review format with the repo's policy applied */
+  formatOptions?: ReviewFormatOptions
   includeInlineComments: boolean
   editedBody?: string
   selectedCommentIndices?: number[]
@@ -96,6 +169,12 @@ export interface InlineCommentState {
   file: string
   requestedLine: number
   actualLine: number
+  /** Last line of a multi-line comment; `actualLine` is the first */
+  endLine?: number
+  /** Post `issue.replacement` as a suggested change; only set when its lines are in one hunk */
+  postSuggestion?: boolean
+  /** 0-1 match between `issue.anchor` and the line the comment is on; unset without an anchor */
+  confidence?: number
   isValid: boolean
   warning?: string
   selected: boolean
@@ -0,0 +1,39 @@
+/** Glob matching for config rules */
+
+const globCache = new Map<string, RegExp>()
+
+/**
+ * Case-insensitive glob match: `*` matches within a path segment, `**` across segments and
+ * `?` a single character. Everything else is literal, so `dependabot[bot]` needs no escaping.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  let regex = globCache.get(pattern)
+  if (!regex) {
+    regex = globToRegExp(pattern)
+    globCache.set(pattern, regex)
+  }
+  return regex.test(value)
+}
+
+export function matchesAnyGlob(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(value, pattern))
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!
+    if (char === '*') {
+      const isDouble = pattern[i + 1] === '*'
+      source += isDouble ? '.*' : '[^/]*'
+      if (isDouble) i++
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i')
+}
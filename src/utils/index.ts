@@ -1,5 +1,6 @@
 /** Utils barrel export */
 
+export * from './glob.js'
 export * from './logger.js'
 export * from './retry.js'
 export * from './time.js'
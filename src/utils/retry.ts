@@ -7,6 +7,8 @@ export interface RetryOptions {
   baseDelayMs: number
   maxDelayMs: number
   shouldRetry?: (error: unknown) => boolean
+  /** Override the backoff delay, e.g. with a server-provided `Retry-After` */
+  getDelayMs?: (error: unknown, attempt: number) => number | undefined
 }
 
 const defaultOptions: RetryOptions = {
@@ -44,7 +46,7 @@ export async function withRetry<T>(
         throw error
       }
 
-      const delay = calculateDelay(attempt, opts)
+      const delay = opts.getDelayMs?.(error, attempt) ?? calculateDelay(attempt, opts)
       warn(`Retry ${attempt + 1}/${opts.maxRetries} in ${delay}ms`, {
         error: String(error),
       })